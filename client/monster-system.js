@@ -194,55 +194,11 @@ function attackTarget() {
     return;
   }
 
-  // Calculate damage (simplified)
-  const baseDamage = 20; // Would be based on character stats and equipment
-  const variance = Math.floor(Math.random() * 10) - 5; // ±5 damage
-  const damage = Math.max(1, baseDamage + variance);
-
-  // Send attack request to server
-  fetch("/api/game/monster/attack", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${authToken}`,
-    },
-    body: JSON.stringify({
-      monsterId: window.combatTarget,
-      damage: damage,
-      characterId: currentCharacter.id,
-    }),
-  })
-    .then((response) => response.json())
-    .then((result) => {
-      if (result.success) {
-        const { killed, experience, gold } = result.data;
-
-        log(`Attacked ${monster.name} for ${damage} damage`, "info");
-
-        if (killed) {
-          log(
-            `${monster.name} defeated! +${experience} EXP, +${gold} gold`,
-            "success",
-          );
-          stopCombat();
-
-          // Add experience and gold to character (would need server update)
-          addChatMessage(
-            "System",
-            `You defeated ${monster.name}! Gained ${experience} experience and ${gold} gold.`,
-            "system",
-          );
-        }
-
-        // Refresh monsters to show updated HP
-        setTimeout(loadMonsters, 500);
-      } else {
-        log("Attack failed: " + result.message, "error");
-      }
-    })
-    .catch((error) => {
-      log("Attack error: " + error, "error");
-    });
+  // Damage is calculated by the server
+  sendMessage({
+    type: "attack",
+    data: { monsterId: window.combatTarget },
+  });
 }
 
 function stopCombat() {
@@ -328,6 +284,33 @@ function handleMonsterMessage(message) {
       }
       break;
 
+    case "attack_result": {
+      const target = window.monsters.get(message.data.monsterId);
+      const name = target ? target.name : "monster";
+      log(
+        `Attacked ${name} for ${message.data.damage} damage${message.data.isCritical ? " (critical!)" : ""}`,
+        "info",
+      );
+
+      if (message.data.killed) {
+        log(
+          `${name} defeated! +${message.data.experience} EXP, +${message.data.gold} gold`,
+          "success",
+        );
+        stopCombat();
+        addChatMessage(
+          "System",
+          `You defeated ${name}! Gained ${message.data.experience} experience and ${message.data.gold} gold.`,
+          "system",
+        );
+      }
+      break;
+    }
+
+    case "attack_failed":
+      log(`Attack failed: ${message.data.message}`, "error");
+      break;
+
     case "monster_attack":
       if (message.data.targetId === currentCharacter?.id.toString()) {
         log(
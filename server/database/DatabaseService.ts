@@ -1,9 +1,10 @@
 import * as mysql from 'mysql2/promise';
 import { Logger } from '../utils/Logger';
-import { IDatabaseService, User, Character } from './IDatabaseService';
+import { IDatabaseService, User, Character, Inventory, InventoryStore, Bank, BankStore, TradeLog, MarketListing, MarketListingStatus, Mail, MailStatus } from './IDatabaseService';
 
 export class DatabaseService implements IDatabaseService {
-    private connection: mysql.Connection | null = null;
+    // A pool so each inventory transaction gets a connection to itself
+    private pool: mysql.Pool | null = null;
     private logger: Logger;
 
     constructor() {
@@ -12,15 +13,19 @@ export class DatabaseService implements IDatabaseService {
 
     public async initialize(): Promise<void> {
         try {
-            // Create connection
-            this.connection = await mysql.createConnection({
+            // Create connection pool
+            this.pool = mysql.createPool({
                 host: process.env.DB_HOST || 'localhost',
                 port: parseInt(process.env.DB_PORT || '3306'),
                 user: process.env.DB_USER || 'root',
                 password: process.env.DB_PASSWORD || '',
-                database: process.env.DB_NAME || 'nightcrows_db'
+                database: process.env.DB_NAME || 'nightcrows_db',
+                connectionLimit: parseInt(process.env.DB_POOL_SIZE || '10')
             });
 
+            // The pool connects lazily, check the database is reachable now
+            await this.pool.query('SELECT 1');
+
             this.logger.info('Connected to MySQL database');
             
             // Create tables if they don't exist
@@ -31,6 +36,8 @@ export class DatabaseService implements IDatabaseService {
             
             // If database doesn't exist, create it
             if (error instanceof Error && error.message.includes('Unknown database')) {
+                await this.pool?.end();
+                this.pool = null;
                 await this.createDatabase();
                 await this.initialize(); // Retry initialization
             } else {
@@ -59,22 +66,23 @@ export class DatabaseService implements IDatabaseService {
     }
 
     private async createTables(): Promise<void> {
-        if (!this.connection) throw new Error('Database not connected');
+        if (!this.pool) throw new Error('Database not connected');
 
         // Users table
-        await this.connection.execute(`
+        await this.pool.execute(`
             CREATE TABLE IF NOT EXISTS users (
                 id INT AUTO_INCREMENT PRIMARY KEY,
                 username VARCHAR(50) UNIQUE NOT NULL,
                 email VARCHAR(100) UNIQUE NOT NULL,
                 password_hash VARCHAR(255) NOT NULL,
+                role ENUM('player', 'gm') NOT NULL DEFAULT 'player',
                 created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
                 last_login TIMESTAMP NULL
             )
         `);
 
         // Characters table
-        await this.connection.execute(`
+        await this.pool.execute(`
             CREATE TABLE IF NOT EXISTS characters (
                 id INT AUTO_INCREMENT PRIMARY KEY,
                 user_id INT NOT NULL,
@@ -84,12 +92,16 @@ export class DatabaseService implements IDatabaseService {
                 experience BIGINT DEFAULT 0,
                 hp INT DEFAULT 100,
                 mp INT DEFAULT 50,
+                current_hp INT DEFAULT 100,
+                current_mp INT DEFAULT 50,
                 strength INT DEFAULT 10,
                 dexterity INT DEFAULT 10,
                 intelligence INT DEFAULT 10,
                 x_position FLOAT DEFAULT 0,
                 y_position FLOAT DEFAULT 0,
                 map_id INT DEFAULT 1,
+                crafting_level INT NOT NULL DEFAULT 1,
+                crafting_experience INT NOT NULL DEFAULT 0,
                 gold INT DEFAULT 1000,
                 created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
                 FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
@@ -97,7 +109,7 @@ export class DatabaseService implements IDatabaseService {
         `);
 
         // Game sessions table
-        await this.connection.execute(`
+        await this.pool.execute(`
             CREATE TABLE IF NOT EXISTS game_sessions (
                 id INT AUTO_INCREMENT PRIMARY KEY,
                 user_id INT NOT NULL,
@@ -111,7 +123,7 @@ export class DatabaseService implements IDatabaseService {
         `);
 
         // Items table
-        await this.connection.execute(`
+        await this.pool.execute(`
             CREATE TABLE IF NOT EXISTS items (
                 id INT AUTO_INCREMENT PRIMARY KEY,
                 name VARCHAR(100) NOT NULL,
@@ -124,27 +136,136 @@ export class DatabaseService implements IDatabaseService {
         `);
 
         // Character inventory table
-        await this.connection.execute(`
+        await this.pool.execute(`
             CREATE TABLE IF NOT EXISTS character_inventory (
                 id INT AUTO_INCREMENT PRIMARY KEY,
                 character_id INT NOT NULL,
-                item_id INT NOT NULL,
+                instance_id VARCHAR(36) NULL,
+                item_id VARCHAR(50) NOT NULL,
                 quantity INT DEFAULT 1,
                 equipped BOOLEAN DEFAULT FALSE,
                 slot_position INT,
-                FOREIGN KEY (character_id) REFERENCES characters(id) ON DELETE CASCADE,
-                FOREIGN KEY (item_id) REFERENCES items(id) ON DELETE CASCADE
+                item_data JSON NULL,
+                UNIQUE KEY uq_instance (instance_id),
+                FOREIGN KEY (character_id) REFERENCES characters(id) ON DELETE CASCADE
             )
         `);
 
+        // Completed player trades, kept for auditing
+        await this.pool.execute(`
+            CREATE TABLE IF NOT EXISTS trade_log (
+                id INT AUTO_INCREMENT PRIMARY KEY,
+                character_a_id INT NOT NULL,
+                character_b_id INT NOT NULL,
+                items_a JSON NOT NULL,
+                items_b JSON NOT NULL,
+                gold_a INT NOT NULL DEFAULT 0,
+                gold_b INT NOT NULL DEFAULT 0,
+                completed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                INDEX idx_character_a (character_a_id),
+                INDEX idx_character_b (character_b_id)
+            )
+        `);
+
+        // Marketplace listings, the item is held here while listed
+        await this.pool.execute(`
+            CREATE TABLE IF NOT EXISTS market_listings (
+                id INT AUTO_INCREMENT PRIMARY KEY,
+                seller_id INT NOT NULL,
+                item_id VARCHAR(50) NOT NULL,
+                item_data JSON NOT NULL,
+                quantity INT NOT NULL DEFAULT 1,
+                price INT NOT NULL,
+                status ENUM('active', 'sold', 'cancelled', 'expired', 'returned') NOT NULL DEFAULT 'active',
+                buyer_id INT NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                expires_at TIMESTAMP NOT NULL,
+                INDEX idx_status (status),
+                INDEX idx_seller (seller_id)
+            )
+        `);
+
+        // Character mail, attachments are held here until claimed
+        await this.pool.execute(`
+            CREATE TABLE IF NOT EXISTS mail (
+                id INT AUTO_INCREMENT PRIMARY KEY,
+                recipient_id INT NOT NULL,
+                sender_id INT NULL,
+                sender_name VARCHAR(50) NOT NULL,
+                subject VARCHAR(100) NOT NULL,
+                body TEXT NOT NULL,
+                items JSON NOT NULL,
+                gold INT NOT NULL DEFAULT 0,
+                cod_amount INT NOT NULL DEFAULT 0,
+                is_read BOOLEAN NOT NULL DEFAULT FALSE,
+                status ENUM('active', 'claimed', 'returned', 'expired', 'deleted') NOT NULL DEFAULT 'active',
+                returnable BOOLEAN NOT NULL DEFAULT TRUE,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                expires_at TIMESTAMP NOT NULL,
+                INDEX idx_recipient (recipient_id, status),
+                INDEX idx_expiry (status, expires_at)
+            )
+        `);
+
+        // Account-wide bank shared by a user's characters
+        await this.pool.execute(`
+            CREATE TABLE IF NOT EXISTS account_bank (
+                user_id INT PRIMARY KEY,
+                items JSON NOT NULL,
+                tabs INT NOT NULL DEFAULT 1,
+                gold BIGINT NOT NULL DEFAULT 0,
+                FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+            )
+        `);
+
+        await this.migrateTables();
+
         this.logger.info('Database tables created successfully');
     }
 
+    // Brings tables created by older versions up to date
+    private async migrateTables(): Promise<void> {
+        if (!this.pool) throw new Error('Database not connected');
+
+        await this.ensureColumn('users', 'role', "ENUM('player', 'gm') NOT NULL DEFAULT 'player' AFTER password_hash");
+
+        if (await this.ensureColumn('characters', 'current_hp', 'INT NULL AFTER mp')) {
+            await this.pool.execute('UPDATE characters SET current_hp = hp WHERE current_hp IS NULL');
+        }
+        if (await this.ensureColumn('characters', 'current_mp', 'INT NULL AFTER current_hp')) {
+            await this.pool.execute('UPDATE characters SET current_mp = mp WHERE current_mp IS NULL');
+        }
+        await this.ensureColumn('characters', 'crafting_level', 'INT NOT NULL DEFAULT 1 AFTER map_id');
+        await this.ensureColumn('characters', 'crafting_experience', 'INT NOT NULL DEFAULT 0 AFTER crafting_level');
+
+        // Item instances; rows without an instance_id are migrated by ItemService on read
+        await this.ensureColumn('character_inventory', 'instance_id', 'VARCHAR(36) NULL AFTER character_id');
+        await this.ensureColumn('character_inventory', 'item_data', 'JSON NULL');
+    }
+
+    private async ensureColumn(table: string, column: string, definition: string): Promise<boolean> {
+        if (!this.pool) throw new Error('Database not connected');
+
+        const [rows] = await this.pool.execute(
+            `SELECT COUNT(*) AS count FROM information_schema.COLUMNS 
+             WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND COLUMN_NAME = ?`,
+            [table, column]
+        ) as any;
+
+        if (rows[0].count > 0) {
+            return false;
+        }
+
+        await this.pool.execute(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+        this.logger.info(`Added column ${table}.${column}`);
+        return true;
+    }
+
     // User operations
     public async createUser(username: string, email: string, passwordHash: string): Promise<number> {
-        if (!this.connection) throw new Error('Database not connected');
+        if (!this.pool) throw new Error('Database not connected');
 
-        const [result] = await this.connection.execute(
+        const [result] = await this.pool.execute(
             'INSERT INTO users (username, email, password_hash) VALUES (?, ?, ?)',
             [username, email, passwordHash]
         ) as any;
@@ -153,9 +274,9 @@ export class DatabaseService implements IDatabaseService {
     }
 
     public async getUserByUsername(username: string): Promise<User | null> {
-        if (!this.connection) throw new Error('Database not connected');
+        if (!this.pool) throw new Error('Database not connected');
 
-        const [rows] = await this.connection.execute(
+        const [rows] = await this.pool.execute(
             'SELECT * FROM users WHERE username = ?',
             [username]
         ) as any;
@@ -164,9 +285,9 @@ export class DatabaseService implements IDatabaseService {
     }
 
     public async getUserById(id: number): Promise<User | null> {
-        if (!this.connection) throw new Error('Database not connected');
+        if (!this.pool) throw new Error('Database not connected');
 
-        const [rows] = await this.connection.execute(
+        const [rows] = await this.pool.execute(
             'SELECT * FROM users WHERE id = ?',
             [id]
         ) as any;
@@ -175,9 +296,9 @@ export class DatabaseService implements IDatabaseService {
     }
 
     public async updateLastLogin(userId: number): Promise<void> {
-        if (!this.connection) throw new Error('Database not connected');
+        if (!this.pool) throw new Error('Database not connected');
 
-        await this.connection.execute(
+        await this.pool.execute(
             'UPDATE users SET last_login = CURRENT_TIMESTAMP WHERE id = ?',
             [userId]
         );
@@ -185,17 +306,19 @@ export class DatabaseService implements IDatabaseService {
 
     // Character operations
     public async createCharacter(character: Omit<Character, 'id' | 'created_at'>): Promise<number> {
-        if (!this.connection) throw new Error('Database not connected');
+        if (!this.pool) throw new Error('Database not connected');
 
-        const [result] = await this.connection.execute(
+        const [result] = await this.pool.execute(
             `INSERT INTO characters 
-             (user_id, name, class, level, experience, hp, mp, strength, dexterity, intelligence, x_position, y_position, map_id) 
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+             (user_id, name, class, level, experience, hp, mp, current_hp, current_mp, strength, dexterity, intelligence, x_position, y_position, map_id, crafting_level, crafting_experience) 
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
             [
                 character.user_id, character.name, character.class, character.level,
-                character.experience, character.hp, character.mp, character.strength,
+                character.experience, character.hp, character.mp, character.current_hp,
+                character.current_mp, character.strength,
                 character.dexterity, character.intelligence, character.x_position,
-                character.y_position, character.map_id
+                character.y_position, character.map_id, character.crafting_level,
+                character.crafting_experience
             ]
         ) as any;
 
@@ -203,9 +326,9 @@ export class DatabaseService implements IDatabaseService {
     }
 
     public async getCharactersByUserId(userId: number): Promise<Character[]> {
-        if (!this.connection) throw new Error('Database not connected');
+        if (!this.pool) throw new Error('Database not connected');
 
-        const [rows] = await this.connection.execute(
+        const [rows] = await this.pool.execute(
             'SELECT * FROM characters WHERE user_id = ?',
             [userId]
         ) as any;
@@ -214,9 +337,9 @@ export class DatabaseService implements IDatabaseService {
     }
 
     public async getCharacterById(id: number): Promise<Character | null> {
-        if (!this.connection) throw new Error('Database not connected');
+        if (!this.pool) throw new Error('Database not connected');
 
-        const [rows] = await this.connection.execute(
+        const [rows] = await this.pool.execute(
             'SELECT * FROM characters WHERE id = ?',
             [id]
         ) as any;
@@ -224,16 +347,27 @@ export class DatabaseService implements IDatabaseService {
         return rows.length > 0 ? rows[0] : null;
     }
 
+    public async getCharacterByName(name: string): Promise<Character | null> {
+        if (!this.pool) throw new Error('Database not connected');
+
+        const [rows] = await this.pool.execute(
+            'SELECT * FROM characters WHERE name = ?',
+            [name]
+        ) as any;
+
+        return rows.length > 0 ? rows[0] : null;
+    }
+
     public async updateCharacterPosition(characterId: number, x: number, y: number, mapId?: number): Promise<void> {
-        if (!this.connection) throw new Error('Database not connected');
+        if (!this.pool) throw new Error('Database not connected');
 
         if (mapId !== undefined) {
-            await this.connection.execute(
+            await this.pool.execute(
                 'UPDATE characters SET x_position = ?, y_position = ?, map_id = ? WHERE id = ?',
                 [x, y, mapId, characterId]
             );
         } else {
-            await this.connection.execute(
+            await this.pool.execute(
                 'UPDATE characters SET x_position = ?, y_position = ? WHERE id = ?',
                 [x, y, characterId]
             );
@@ -241,7 +375,7 @@ export class DatabaseService implements IDatabaseService {
     }
 
     public async updateCharacterStats(characterId: number, stats: Partial<Character>): Promise<void> {
-        if (!this.connection) throw new Error('Database not connected');
+        if (!this.pool) throw new Error('Database not connected');
 
         const updateFields: string[] = [];
         const values: any[] = [];
@@ -255,7 +389,7 @@ export class DatabaseService implements IDatabaseService {
 
         if (updateFields.length > 0) {
             values.push(characterId);
-            await this.connection.execute(
+            await this.pool.execute(
                 `UPDATE characters SET ${updateFields.join(', ')} WHERE id = ?`,
                 values
             );
@@ -263,46 +397,10 @@ export class DatabaseService implements IDatabaseService {
     }
 
     // Inventory operations
-    public async getInventory(characterId: number): Promise<import('./IDatabaseService').Inventory | null> {
-        if (!this.connection) throw new Error('Database not connected');
-
-        const [rows] = await this.connection.execute(
-            `SELECT ci.*, i.name, i.type, i.rarity, i.level_requirement, i.stats 
-             FROM character_inventory ci 
-             JOIN items i ON ci.item_id = i.id 
-             WHERE ci.character_id = ?`,
-            [characterId]
-        ) as any;
-
-        if (rows.length === 0) {
-            return null;
-        }
-
-        const inventory: import('./IDatabaseService').Inventory = {
-            characterId,
-            items: JSON.stringify([]), // Start with empty array as JSON string
-            gold: 1000, // Default gold amount
-            capacity: 30
-        };
-
-        const itemsArray: any[] = [];
-        rows.forEach((row: any) => {
-            itemsArray.push({
-                id: row.item_id,
-                name: row.name,
-                type: row.type,
-                rarity: row.rarity,
-                levelRequirement: row.level_requirement,
-                stats: JSON.parse(row.stats || '{}'),
-                quantity: row.quantity,
-                equipped: row.equipped,
-                slotPosition: row.slot_position
-            });
-        });
+    public async getInventory(characterId: number): Promise<Inventory | null> {
+        if (!this.pool) throw new Error('Database not connected');
 
-        inventory.items = JSON.stringify(itemsArray);
-
-        return inventory;
+        return this.readInventory(this.pool, characterId, false);
     }
 
     public async createInventory(characterId: number): Promise<void> {
@@ -312,53 +410,363 @@ export class DatabaseService implements IDatabaseService {
     }
 
     public async updateInventoryItems(characterId: number, items: string): Promise<void> {
-        if (!this.connection) throw new Error('Database not connected');
+        await this.runInventoryTransaction([characterId], store => store.updateInventoryItems(characterId, items));
+    }
 
-        // Parse the JSON string to get the items array
-        const itemsArray = JSON.parse(items);
+    public async updateInventoryGold(characterId: number, gold: number): Promise<void> {
+        if (!this.pool) throw new Error('Database not connected');
 
-        // Start transaction
-        await this.connection.beginTransaction();
+        await this.writeInventoryGold(this.pool, characterId, gold);
+    }
 
-        try {
-            // Clear existing inventory items
-            await this.connection.execute(
-                'DELETE FROM character_inventory WHERE character_id = ?',
-                [characterId]
-            );
+    public async runInventoryTransaction<T>(characterIds: number[], work: (store: InventoryStore) => Promise<T>): Promise<T> {
+        return this.runTransaction(async connection => {
+            await this.lockCharacters(connection, characterIds);
+            return work(this.createInventoryStore(connection));
+        });
+    }
 
-            // Insert new items
-            for (const item of itemsArray) {
-                await this.connection.execute(
-                    `INSERT INTO character_inventory 
-                     (character_id, item_id, quantity, equipped, slot_position) 
-                     VALUES (?, ?, ?, ?, ?)`,
-                    [characterId, item.id, item.quantity, item.equipped || false, item.slotPosition || null]
-                );
-            }
+    // Account bank
+    public async getBank(userId: number): Promise<Bank | null> {
+        if (!this.pool) throw new Error('Database not connected');
+
+        return this.readBank(this.pool, userId, false);
+    }
+
+    public async runBankTransaction<T>(userId: number, characterIds: number[], work: (store: BankStore) => Promise<T>): Promise<T> {
+        return this.runTransaction(async connection => {
+            // The user row stands in for the bank, it exists before the bank row does.
+            // Always taken before the characters, matching the order below.
+            await connection.execute('SELECT id FROM users WHERE id = ? FOR UPDATE', [userId]);
+            await this.lockCharacters(connection, characterIds);
+
+            return work({
+                ...this.createInventoryStore(connection),
+                getBank: id => this.readBank(connection, id, true),
+                createBank: async (id, tabs) => {
+                    await connection.execute(
+                        'INSERT IGNORE INTO account_bank (user_id, items, tabs, gold) VALUES (?, ?, ?, 0)',
+                        [id, '[]', tabs]
+                    );
+                },
+                updateBankItems: async (id, items) => {
+                    await connection.execute('UPDATE account_bank SET items = ? WHERE user_id = ?', [items, id]);
+                },
+                updateBankGold: async (id, gold) => {
+                    await connection.execute('UPDATE account_bank SET gold = ? WHERE user_id = ?', [gold, id]);
+                },
+                updateBankTabs: async (id, tabs) => {
+                    await connection.execute('UPDATE account_bank SET tabs = ? WHERE user_id = ?', [tabs, id]);
+                }
+            });
+        });
+    }
+
+    private async runTransaction<T>(work: (connection: mysql.PoolConnection) => Promise<T>): Promise<T> {
+        if (!this.pool) throw new Error('Database not connected');
 
-            await this.connection.commit();
+        const connection = await this.pool.getConnection();
+
+        try {
+            await connection.beginTransaction();
+            const result = await work(connection);
+            await connection.commit();
+            return result;
         } catch (error) {
-            await this.connection.rollback();
+            await connection.rollback();
             throw error;
+        } finally {
+            connection.release();
         }
     }
 
-    public async updateInventoryGold(characterId: number, gold: number): Promise<void> {
-        if (!this.connection) throw new Error('Database not connected');
+    // Lock the owning character rows in a fixed order so concurrent
+    // transactions over the same characters queue instead of deadlocking
+    private async lockCharacters(connection: mysql.PoolConnection, characterIds: number[]): Promise<void> {
+        const lockIds = Array.from(new Set(characterIds)).sort((a, b) => a - b);
+        for (const characterId of lockIds) {
+            await connection.execute('SELECT id FROM characters WHERE id = ? FOR UPDATE', [characterId]);
+        }
+    }
+
+    private createInventoryStore(connection: mysql.PoolConnection): InventoryStore {
+        return {
+            getInventory: characterId => this.readInventory(connection, characterId, true),
+            createInventory: characterId => this.createInventory(characterId),
+            updateInventoryItems: (characterId, items) => this.writeInventoryItems(connection, characterId, items),
+            updateInventoryGold: (characterId, gold) => this.writeInventoryGold(connection, characterId, gold)
+        };
+    }
+
+    private async readBank(db: mysql.Pool | mysql.PoolConnection, userId: number, forUpdate: boolean): Promise<Bank | null> {
+        const [rows] = await db.execute(
+            `SELECT * FROM account_bank WHERE user_id = ?${forUpdate ? ' FOR UPDATE' : ''}`,
+            [userId]
+        ) as any;
+
+        if (rows.length === 0) {
+            return null;
+        }
+
+        const row = rows[0];
+        return {
+            userId: row.user_id,
+            items: typeof row.items === 'string' ? row.items : JSON.stringify(row.items || []),
+            tabs: row.tabs,
+            gold: Number(row.gold)
+        };
+    }
+
+    private async readInventory(db: mysql.Pool | mysql.PoolConnection, characterId: number, forUpdate: boolean): Promise<Inventory | null> {
+        const [characterRows] = await db.execute(
+            `SELECT gold FROM characters WHERE id = ?${forUpdate ? ' FOR UPDATE' : ''}`,
+            [characterId]
+        ) as any;
+
+        if (characterRows.length === 0) {
+            return null;
+        }
 
+        const [rows] = await db.execute(
+            `SELECT * FROM character_inventory WHERE character_id = ? ORDER BY id${forUpdate ? ' FOR UPDATE' : ''}`,
+            [characterId]
+        ) as any;
+
+        const itemsArray = rows.map((row: any) => {
+            const data = typeof row.item_data === 'string' ? JSON.parse(row.item_data) : (row.item_data || {});
+            return {
+                ...data,
+                instanceId: row.instance_id || undefined,
+                itemId: String(row.item_id),
+                quantity: row.quantity,
+                equipped: !!row.equipped,
+                position: row.slot_position ?? undefined
+            };
+        });
+
+        return {
+            characterId,
+            items: JSON.stringify(itemsArray),
+            gold: characterRows[0].gold ?? 0,
+            capacity: 30
+        };
+    }
+
+    private async writeInventoryItems(db: mysql.PoolConnection, characterId: number, items: string): Promise<void> {
+        // Parse the JSON string to get the items array
+        const itemsArray = JSON.parse(items);
+
+        // Clear existing inventory items
+        await db.execute(
+            'DELETE FROM character_inventory WHERE character_id = ?',
+            [characterId]
+        );
+
+        // Insert new items; instance-specific fields go into item_data
+        for (const item of itemsArray) {
+            const { instanceId, itemId, quantity, equipped, position, ...data } = item;
+            await db.execute(
+                `INSERT INTO character_inventory 
+                 (character_id, instance_id, item_id, quantity, equipped, slot_position, item_data) 
+                 VALUES (?, ?, ?, ?, ?, ?, ?)`,
+                [characterId, instanceId || null, itemId, quantity, equipped || false, position ?? null, JSON.stringify(data)]
+            );
+        }
+    }
+
+    private async writeInventoryGold(db: mysql.Pool | mysql.PoolConnection, characterId: number, gold: number): Promise<void> {
         // For this implementation, we'll add a gold column to characters table
         // This is a simplified approach - in a real game you might have a separate wallet table
-        await this.connection.execute(
+        await db.execute(
             'UPDATE characters SET gold = ? WHERE id = ?',
             [gold, characterId]
         );
     }
 
+    // Trade audit log
+    public async createTradeLog(trade: Omit<TradeLog, 'id' | 'completed_at'>): Promise<number> {
+        if (!this.pool) throw new Error('Database not connected');
+
+        const [result] = await this.pool.execute(
+            `INSERT INTO trade_log (character_a_id, character_b_id, items_a, items_b, gold_a, gold_b) 
+             VALUES (?, ?, ?, ?, ?, ?)`,
+            [trade.character_a_id, trade.character_b_id, trade.items_a, trade.items_b, trade.gold_a, trade.gold_b]
+        ) as any;
+
+        return result.insertId;
+    }
+
+    public async getTradeLogs(characterId: number, limit: number): Promise<TradeLog[]> {
+        if (!this.pool) throw new Error('Database not connected');
+
+        // LIMIT can't be a prepared statement parameter with execute()
+        const [rows] = await this.pool.execute(
+            `SELECT * FROM trade_log WHERE character_a_id = ? OR character_b_id = ? 
+             ORDER BY completed_at DESC, id DESC LIMIT ${Math.max(0, Math.floor(limit))}`,
+            [characterId, characterId]
+        ) as any;
+
+        // JSON columns come back parsed, the interface keeps them as strings
+        return rows.map((row: any) => ({
+            ...row,
+            items_a: typeof row.items_a === 'string' ? row.items_a : JSON.stringify(row.items_a),
+            items_b: typeof row.items_b === 'string' ? row.items_b : JSON.stringify(row.items_b)
+        }));
+    }
+
+    // Marketplace listings
+    public async createMarketListing(listing: Omit<MarketListing, 'id' | 'status' | 'buyer_id' | 'created_at'>): Promise<number> {
+        if (!this.pool) throw new Error('Database not connected');
+
+        const [result] = await this.pool.execute(
+            `INSERT INTO market_listings (seller_id, item_id, item_data, quantity, price, expires_at) 
+             VALUES (?, ?, ?, ?, ?, ?)`,
+            [listing.seller_id, listing.item_id, listing.item_data, listing.quantity, listing.price, listing.expires_at]
+        ) as any;
+
+        return result.insertId;
+    }
+
+    public async getMarketListing(id: number): Promise<MarketListing | null> {
+        if (!this.pool) throw new Error('Database not connected');
+
+        const [rows] = await this.pool.execute(
+            'SELECT * FROM market_listings WHERE id = ?',
+            [id]
+        ) as any;
+
+        return rows.length > 0 ? this.mapMarketListing(rows[0]) : null;
+    }
+
+    public async getMarketListingsByStatus(status: MarketListingStatus): Promise<MarketListing[]> {
+        if (!this.pool) throw new Error('Database not connected');
+
+        const [rows] = await this.pool.execute(
+            'SELECT * FROM market_listings WHERE status = ? ORDER BY id',
+            [status]
+        ) as any;
+
+        return rows.map((row: any) => this.mapMarketListing(row));
+    }
+
+    public async getMarketListingsBySeller(sellerId: number): Promise<MarketListing[]> {
+        if (!this.pool) throw new Error('Database not connected');
+
+        const [rows] = await this.pool.execute(
+            'SELECT * FROM market_listings WHERE seller_id = ? ORDER BY id DESC',
+            [sellerId]
+        ) as any;
+
+        return rows.map((row: any) => this.mapMarketListing(row));
+    }
+
+    public async updateMarketListingStatus(id: number, fromStatus: MarketListingStatus, toStatus: MarketListingStatus, buyerId?: number | null): Promise<boolean> {
+        if (!this.pool) throw new Error('Database not connected');
+
+        const [result] = buyerId !== undefined
+            ? await this.pool.execute(
+                'UPDATE market_listings SET status = ?, buyer_id = ? WHERE id = ? AND status = ?',
+                [toStatus, buyerId, id, fromStatus]
+            ) as any
+            : await this.pool.execute(
+                'UPDATE market_listings SET status = ? WHERE id = ? AND status = ?',
+                [toStatus, id, fromStatus]
+            ) as any;
+
+        return result.affectedRows > 0;
+    }
+
+    private mapMarketListing(row: any): MarketListing {
+        return {
+            ...row,
+            item_data: typeof row.item_data === 'string' ? row.item_data : JSON.stringify(row.item_data)
+        };
+    }
+
+    // Mail
+    public async createMail(mail: Omit<Mail, 'id' | 'is_read' | 'status' | 'created_at'>): Promise<number> {
+        if (!this.pool) throw new Error('Database not connected');
+
+        const [result] = await this.pool.execute(
+            `INSERT INTO mail 
+             (recipient_id, sender_id, sender_name, subject, body, items, gold, cod_amount, returnable, expires_at) 
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                mail.recipient_id, mail.sender_id, mail.sender_name, mail.subject, mail.body,
+                mail.items, mail.gold, mail.cod_amount, mail.returnable, mail.expires_at
+            ]
+        ) as any;
+
+        return result.insertId;
+    }
+
+    public async getMail(id: number): Promise<Mail | null> {
+        if (!this.pool) throw new Error('Database not connected');
+
+        const [rows] = await this.pool.execute(
+            'SELECT * FROM mail WHERE id = ?',
+            [id]
+        ) as any;
+
+        return rows.length > 0 ? this.mapMail(rows[0]) : null;
+    }
+
+    public async getMailbox(recipientId: number): Promise<Mail[]> {
+        if (!this.pool) throw new Error('Database not connected');
+
+        const [rows] = await this.pool.execute(
+            `SELECT * FROM mail WHERE recipient_id = ? AND status IN ('active', 'claimed') 
+             ORDER BY created_at DESC, id DESC`,
+            [recipientId]
+        ) as any;
+
+        return rows.map((row: any) => this.mapMail(row));
+    }
+
+    public async getExpiredMail(before: Date): Promise<Mail[]> {
+        if (!this.pool) throw new Error('Database not connected');
+
+        const [rows] = await this.pool.execute(
+            `SELECT * FROM mail WHERE status IN ('active', 'claimed') AND expires_at <= ? ORDER BY id`,
+            [before]
+        ) as any;
+
+        return rows.map((row: any) => this.mapMail(row));
+    }
+
+    public async updateMailStatus(id: number, fromStatus: MailStatus, toStatus: MailStatus): Promise<boolean> {
+        if (!this.pool) throw new Error('Database not connected');
+
+        const [result] = await this.pool.execute(
+            'UPDATE mail SET status = ? WHERE id = ? AND status = ?',
+            [toStatus, id, fromStatus]
+        ) as any;
+
+        return result.affectedRows > 0;
+    }
+
+    public async markMailRead(id: number): Promise<void> {
+        if (!this.pool) throw new Error('Database not connected');
+
+        await this.pool.execute(
+            'UPDATE mail SET is_read = TRUE WHERE id = ?',
+            [id]
+        );
+    }
+
+    private mapMail(row: any): Mail {
+        return {
+            ...row,
+            items: typeof row.items === 'string' ? row.items : JSON.stringify(row.items),
+            is_read: !!row.is_read,
+            returnable: !!row.returnable
+        };
+    }
+
     public async close(): Promise<void> {
-        if (this.connection) {
-            await this.connection.end();
-            this.connection = null;
+        if (this.pool) {
+            await this.pool.end();
+            this.pool = null;
             this.logger.info('Database connection closed');
         }
     }
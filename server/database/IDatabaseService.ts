@@ -1,8 +1,11 @@
+export type UserRole = 'player' | 'gm';
+
 export interface User {
     id: number;
     username: string;
     email: string;
     password_hash: string;
+    role: UserRole;
     created_at: Date;
     last_login?: Date;
 }
@@ -14,14 +17,18 @@ export interface Character {
     class: string;
     level: number;
     experience: number;
-    hp: number;
-    mp: number;
+    hp: number; // max HP
+    mp: number; // max MP
+    current_hp: number;
+    current_mp: number;
     strength: number;
     dexterity: number;
     intelligence: number;
     x_position: number;
     y_position: number;
     map_id: number;
+    crafting_level: number;
+    crafting_experience: number;
     created_at: Date;
 }
 
@@ -32,7 +39,76 @@ export interface Inventory {
     gold: number;
 }
 
-export interface IDatabaseService {
+export interface TradeLog {
+    id: number;
+    character_a_id: number;
+    character_b_id: number;
+    items_a: string; // JSON, InventoryItems character A handed over
+    items_b: string;
+    gold_a: number; // gold character A handed over
+    gold_b: number;
+    completed_at: Date;
+}
+
+export type MarketListingStatus = 'active' | 'sold' | 'cancelled' | 'expired' | 'returned';
+
+export interface MarketListing {
+    id: number;
+    seller_id: number; // character
+    item_id: string;
+    item_data: string; // JSON, the escrowed InventoryItem
+    quantity: number;
+    price: number; // buyout for the whole listing
+    status: MarketListingStatus;
+    buyer_id: number | null;
+    created_at: Date;
+    expires_at: Date;
+}
+
+export type MailStatus = 'active' | 'claimed' | 'returned' | 'expired' | 'deleted';
+
+export interface Mail {
+    id: number;
+    recipient_id: number;
+    sender_id: number | null; // null for system mail
+    sender_name: string;
+    subject: string;
+    body: string;
+    items: string; // JSON, attached InventoryItems
+    gold: number;
+    cod_amount: number; // gold the recipient pays the sender to take the attachments
+    is_read: boolean;
+    status: MailStatus; // active until the attachments are claimed
+    returnable: boolean; // goes back to the sender if it expires unclaimed
+    created_at: Date;
+    expires_at: Date;
+}
+
+export interface Bank {
+    userId: number;
+    items: string; // JSON string
+    tabs: number;
+    gold: number;
+}
+
+// Inventory reads and writes, also handed to runInventoryTransaction callbacks
+export interface InventoryStore {
+    getInventory(characterId: number): Promise<Inventory | null>;
+    createInventory(characterId: number): Promise<void>;
+    updateInventoryItems(characterId: number, items: string): Promise<void>;
+    updateInventoryGold(characterId: number, gold: number): Promise<void>;
+}
+
+// Account bank reads and writes, handed to runBankTransaction callbacks
+export interface BankStore extends InventoryStore {
+    getBank(userId: number): Promise<Bank | null>;
+    createBank(userId: number, tabs: number): Promise<void>;
+    updateBankItems(userId: number, items: string): Promise<void>;
+    updateBankGold(userId: number, gold: number): Promise<void>;
+    updateBankTabs(userId: number, tabs: number): Promise<void>;
+}
+
+export interface IDatabaseService extends InventoryStore {
     initialize(): Promise<void>;
     close(): Promise<void>;
     
@@ -46,12 +122,45 @@ export interface IDatabaseService {
     createCharacter(character: Omit<Character, 'id' | 'created_at'>): Promise<number>;
     getCharactersByUserId(userId: number): Promise<Character[]>;
     getCharacterById(id: number): Promise<Character | null>;
+    getCharacterByName(name: string): Promise<Character | null>;
     updateCharacterPosition(characterId: number, x: number, y: number, mapId?: number): Promise<void>;
     updateCharacterStats(characterId: number, stats: Partial<Character>): Promise<void>;
     
-    // Inventory operations
-    getInventory(characterId: number): Promise<Inventory | null>;
-    createInventory(characterId: number): Promise<void>;
-    updateInventoryItems(characterId: number, items: string): Promise<void>;
-    updateInventoryGold(characterId: number, gold: number): Promise<void>;
+    /**
+     * Locks the inventories of the given characters and runs work against a
+     * store bound to a single transaction. Its writes are committed together
+     * when work resolves and discarded if it throws. Must not be nested.
+     */
+    runInventoryTransaction<T>(characterIds: number[], work: (store: InventoryStore) => Promise<T>): Promise<T>;
+
+    // Account bank
+    getBank(userId: number): Promise<Bank | null>;
+    /**
+     * runInventoryTransaction that also locks the user's bank, taken before
+     * the character inventories.
+     */
+    runBankTransaction<T>(userId: number, characterIds: number[], work: (store: BankStore) => Promise<T>): Promise<T>;
+
+    // Trade audit log
+    createTradeLog(trade: Omit<TradeLog, 'id' | 'completed_at'>): Promise<number>;
+    getTradeLogs(characterId: number, limit: number): Promise<TradeLog[]>;
+
+    // Marketplace listings
+    createMarketListing(listing: Omit<MarketListing, 'id' | 'status' | 'buyer_id' | 'created_at'>): Promise<number>;
+    getMarketListing(id: number): Promise<MarketListing | null>;
+    getMarketListingsByStatus(status: MarketListingStatus): Promise<MarketListing[]>;
+    getMarketListingsBySeller(sellerId: number): Promise<MarketListing[]>;
+    /**
+     * Moves a listing from one status to another only if it is still in
+     * fromStatus, so concurrent buyers can't both claim it. Returns whether it moved.
+     */
+    updateMarketListingStatus(id: number, fromStatus: MarketListingStatus, toStatus: MarketListingStatus, buyerId?: number | null): Promise<boolean>;
+
+    // Mail
+    createMail(mail: Omit<Mail, 'id' | 'is_read' | 'status' | 'created_at'>): Promise<number>;
+    getMail(id: number): Promise<Mail | null>;
+    getMailbox(recipientId: number): Promise<Mail[]>; // active and claimed mail, newest first
+    getExpiredMail(before: Date): Promise<Mail[]>; // active and claimed mail past expires_at
+    updateMailStatus(id: number, fromStatus: MailStatus, toStatus: MailStatus): Promise<boolean>; // same contract as updateMarketListingStatus
+    markMailRead(id: number): Promise<void>;
 }
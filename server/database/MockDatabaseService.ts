@@ -1,13 +1,23 @@
 import { Logger } from '../utils/Logger';
-import { IDatabaseService, User, Character, Inventory } from './IDatabaseService';
+import { KeyedMutex } from '../utils/Mutex';
+import { IDatabaseService, User, Character, Inventory, InventoryStore, Bank, BankStore, TradeLog, MarketListing, MarketListingStatus, Mail, MailStatus } from './IDatabaseService';
 
 export class MockDatabaseService implements IDatabaseService {
     private logger: Logger;
     private users: Map<number, User> = new Map();
     private characters: Map<number, Character> = new Map();
     private inventories: Map<number, Inventory> = new Map();
+    private inventoryLocks: KeyedMutex<number> = new KeyedMutex();
+    private banks: Map<number, Bank> = new Map();
+    private bankLocks: KeyedMutex<number> = new KeyedMutex();
+    private tradeLogs: TradeLog[] = [];
+    private marketListings: Map<number, MarketListing> = new Map();
+    private mail: Map<number, Mail> = new Map();
     private nextUserId = 1;
     private nextCharacterId = 1;
+    private nextTradeLogId = 1;
+    private nextMarketListingId = 1;
+    private nextMailId = 1;
 
     constructor() {
         this.logger = new Logger();
@@ -27,14 +37,25 @@ export class MockDatabaseService implements IDatabaseService {
             username: 'testuser',
             email: 'test@example.com',
             password_hash: '$2b$12$8Ek.WkfY/wOj7oR8BjCcNOXZcK4h0YrLvYpV6PtJaKqZ4Rw8cD3.W', // password: 'testpass'
+            role: 'player',
             created_at: new Date(),
             last_login: new Date()
         };
+
+        // GM account for item and gold grants
+        const sampleGm: User = {
+            ...sampleUser,
+            id: 2,
+            username: 'gamemaster',
+            email: 'gm@example.com',
+            role: 'gm'
+        };
         
         this.users.set(1, sampleUser);
-        this.nextUserId = 2;
+        this.users.set(2, sampleGm);
+        this.nextUserId = 3;
         
-        this.logger.info('Sample data created: testuser/testpass');
+        this.logger.info('Sample data created: testuser/testpass, gamemaster/testpass (GM)');
     }
 
     // User operations
@@ -44,6 +65,7 @@ export class MockDatabaseService implements IDatabaseService {
             username,
             email,
             password_hash: passwordHash,
+            role: 'player',
             created_at: new Date()
         };
         
@@ -105,6 +127,16 @@ export class MockDatabaseService implements IDatabaseService {
         return this.characters.get(id) || null;
     }
 
+    public async getCharacterByName(name: string): Promise<Character | null> {
+        // Matches MySQL's case-insensitive default collation
+        for (const character of this.characters.values()) {
+            if (character.name.toLowerCase() === name.toLowerCase()) {
+                return character;
+            }
+        }
+        return null;
+    }
+
     public async updateCharacterPosition(characterId: number, x: number, y: number, mapId?: number): Promise<void> {
         const character = this.characters.get(characterId);
         if (character) {
@@ -128,6 +160,9 @@ export class MockDatabaseService implements IDatabaseService {
         this.users.clear();
         this.characters.clear();
         this.inventories.clear();
+        this.tradeLogs = [];
+        this.marketListings.clear();
+        this.mail.clear();
     }
 
     // Inventory operations
@@ -136,12 +171,7 @@ export class MockDatabaseService implements IDatabaseService {
     }
 
     public async createInventory(characterId: number): Promise<void> {
-        this.inventories.set(characterId, {
-            characterId,
-            items: JSON.stringify([]),
-            capacity: 30,
-            gold: 1000
-        });
+        this.inventories.set(characterId, this.createEmptyInventory(characterId));
     }
 
     public async updateInventoryItems(characterId: number, items: string): Promise<void> {
@@ -158,6 +188,196 @@ export class MockDatabaseService implements IDatabaseService {
         }
     }
 
+    public async runInventoryTransaction<T>(characterIds: number[], work: (store: InventoryStore) => Promise<T>): Promise<T> {
+        return this.inventoryLocks.runExclusive(characterIds, async () => {
+            // Writes are staged and only applied once work has resolved
+            const staged: Map<number, Inventory> = new Map();
+            const current = (characterId: number) => staged.get(characterId) || this.inventories.get(characterId);
+
+            const store: InventoryStore = {
+                getInventory: async characterId => {
+                    const inventory = current(characterId);
+                    return inventory ? { ...inventory } : null;
+                },
+                createInventory: async characterId => {
+                    staged.set(characterId, this.createEmptyInventory(characterId));
+                },
+                updateInventoryItems: async (characterId, items) => {
+                    const inventory = current(characterId);
+                    if (inventory) {
+                        this.checkUniqueInstances(characterId, items, current);
+                        staged.set(characterId, { ...inventory, items });
+                    }
+                },
+                updateInventoryGold: async (characterId, gold) => {
+                    const inventory = current(characterId);
+                    if (inventory) {
+                        staged.set(characterId, { ...inventory, gold });
+                    }
+                }
+            };
+
+            const result = await work(store);
+            staged.forEach((inventory, characterId) => this.inventories.set(characterId, inventory));
+            return result;
+        });
+    }
+
+    // Same rule as the uq_instance key of character_inventory in MySQL
+    private checkUniqueInstances(characterId: number, items: string, current: (characterId: number) => Inventory | undefined): void {
+        const instanceIds = new Set(JSON.parse(items).map((item: any) => item.instanceId).filter(Boolean));
+
+        for (const otherId of this.inventories.keys()) {
+            const other = otherId === characterId ? null : current(otherId);
+            const duplicate = other && JSON.parse(other.items || '[]').find((item: any) => instanceIds.has(item.instanceId));
+            if (duplicate) {
+                throw new Error(`Duplicate entry '${duplicate.instanceId}' for key 'uq_instance'`);
+            }
+        }
+    }
+
+    // Account bank
+    public async getBank(userId: number): Promise<Bank | null> {
+        const bank = this.banks.get(userId);
+        return bank ? { ...bank } : null;
+    }
+
+    public async runBankTransaction<T>(userId: number, characterIds: number[], work: (store: BankStore) => Promise<T>): Promise<T> {
+        // Bank lock first, then the inventory locks, same order as the MySQL row locks
+        return this.bankLocks.runExclusive([userId], async () => {
+            const staged: Map<number, Bank> = new Map();
+            const current = (id: number) => staged.get(id) || this.banks.get(id);
+            const update = (id: number, changes: Partial<Bank>) => {
+                const bank = current(id);
+                if (bank) {
+                    staged.set(id, { ...bank, ...changes });
+                }
+            };
+
+            const result = await this.runInventoryTransaction(characterIds, inventoryStore => work({
+                ...inventoryStore,
+                getBank: async id => {
+                    const bank = current(id);
+                    return bank ? { ...bank } : null;
+                },
+                createBank: async (id, tabs) => {
+                    if (!current(id)) {
+                        staged.set(id, { userId: id, items: '[]', tabs, gold: 0 });
+                    }
+                },
+                updateBankItems: async (id, items) => update(id, { items }),
+                updateBankGold: async (id, gold) => update(id, { gold }),
+                updateBankTabs: async (id, tabs) => update(id, { tabs })
+            }));
+
+            staged.forEach((bank, id) => this.banks.set(id, bank));
+            return result;
+        });
+    }
+
+    // Trade audit log
+    public async createTradeLog(trade: Omit<TradeLog, 'id' | 'completed_at'>): Promise<number> {
+        const id = this.nextTradeLogId++;
+        this.tradeLogs.push({ ...trade, id, completed_at: new Date() });
+        return id;
+    }
+
+    public async getTradeLogs(characterId: number, limit: number): Promise<TradeLog[]> {
+        return this.tradeLogs
+            .filter(log => log.character_a_id === characterId || log.character_b_id === characterId)
+            .reverse()
+            .slice(0, limit);
+    }
+
+    // Marketplace listings
+    public async createMarketListing(listing: Omit<MarketListing, 'id' | 'status' | 'buyer_id' | 'created_at'>): Promise<number> {
+        const id = this.nextMarketListingId++;
+        this.marketListings.set(id, { ...listing, id, status: 'active', buyer_id: null, created_at: new Date() });
+        return id;
+    }
+
+    public async getMarketListing(id: number): Promise<MarketListing | null> {
+        const listing = this.marketListings.get(id);
+        return listing ? { ...listing } : null;
+    }
+
+    public async getMarketListingsByStatus(status: MarketListingStatus): Promise<MarketListing[]> {
+        return Array.from(this.marketListings.values())
+            .filter(listing => listing.status === status)
+            .map(listing => ({ ...listing }));
+    }
+
+    public async getMarketListingsBySeller(sellerId: number): Promise<MarketListing[]> {
+        return Array.from(this.marketListings.values())
+            .filter(listing => listing.seller_id === sellerId)
+            .reverse()
+            .map(listing => ({ ...listing }));
+    }
+
+    public async updateMarketListingStatus(id: number, fromStatus: MarketListingStatus, toStatus: MarketListingStatus, buyerId?: number | null): Promise<boolean> {
+        const listing = this.marketListings.get(id);
+        if (!listing || listing.status !== fromStatus) {
+            return false;
+        }
+
+        listing.status = toStatus;
+        if (buyerId !== undefined) {
+            listing.buyer_id = buyerId;
+        }
+        return true;
+    }
+
+    // Mail
+    public async createMail(mail: Omit<Mail, 'id' | 'is_read' | 'status' | 'created_at'>): Promise<number> {
+        const id = this.nextMailId++;
+        this.mail.set(id, { ...mail, id, is_read: false, status: 'active', created_at: new Date() });
+        return id;
+    }
+
+    public async getMail(id: number): Promise<Mail | null> {
+        const mail = this.mail.get(id);
+        return mail ? { ...mail } : null;
+    }
+
+    public async getMailbox(recipientId: number): Promise<Mail[]> {
+        return Array.from(this.mail.values())
+            .filter(mail => mail.recipient_id === recipientId && (mail.status === 'active' || mail.status === 'claimed'))
+            .reverse()
+            .map(mail => ({ ...mail }));
+    }
+
+    public async getExpiredMail(before: Date): Promise<Mail[]> {
+        return Array.from(this.mail.values())
+            .filter(mail => (mail.status === 'active' || mail.status === 'claimed') && mail.expires_at <= before)
+            .map(mail => ({ ...mail }));
+    }
+
+    public async updateMailStatus(id: number, fromStatus: MailStatus, toStatus: MailStatus): Promise<boolean> {
+        const mail = this.mail.get(id);
+        if (!mail || mail.status !== fromStatus) {
+            return false;
+        }
+
+        mail.status = toStatus;
+        return true;
+    }
+
+    public async markMailRead(id: number): Promise<void> {
+        const mail = this.mail.get(id);
+        if (mail) {
+            mail.is_read = true;
+        }
+    }
+
+    private createEmptyInventory(characterId: number): Inventory {
+        return {
+            characterId,
+            items: JSON.stringify([]),
+            capacity: 30,
+            gold: 1000
+        };
+    }
+
     // Additional methods for debugging
     public getStats(): { users: number; characters: number; inventories: number } {
         return {
@@ -0,0 +1,113 @@
+import { ItemRarity, ItemStats, ItemType } from '../services/ItemService';
+
+export type AffixKind = 'prefix' | 'suffix';
+
+export interface StatRange {
+    min: number;
+    max: number; // inclusive
+}
+
+export interface AffixDefinition {
+    name: string; // "Sharp" goes before the item name, "of the Bear" after it
+    kind: AffixKind;
+    stats: { [stat in keyof ItemStats]?: StatRange };
+}
+
+export interface RerollCost {
+    gold: number;
+    materials: { itemId: string; quantity: number }[];
+}
+
+export interface AffixConfig {
+    itemTypes: ItemType[]; // dropped items of these types roll stats and affixes
+    statVariance: number; // template stats roll within this fraction either way
+    slots: { [rarity in ItemRarity]: { prefixes: number; suffixes: number } };
+    affixes: { [affixId: string]: AffixDefinition };
+    // Affix ids each type and rarity can roll, prefixes and suffixes together
+    pools: { [type in ItemType]?: { [rarity in ItemRarity]?: string[] } };
+    rerollCosts: { [rarity in ItemRarity]: RerollCost };
+}
+
+const weaponAffixes = ['sharp', 'keen', 'arcane', 'of_the_bear', 'of_the_fox', 'of_the_owl', 'of_precision'];
+const greaterWeaponAffixes = [...weaponAffixes, 'brutal', 'vicious', 'mystic', 'of_the_titan', 'of_the_wind', 'of_the_sage'];
+
+const armorAffixes = ['sturdy', 'of_vitality', 'of_the_bear', 'of_the_fox'];
+const greaterArmorAffixes = [...armorAffixes, 'reinforced', 'of_the_colossus', 'of_the_titan', 'of_the_wind'];
+
+const accessoryAffixes = ['keen', 'arcane', 'of_the_owl', 'of_precision', 'of_vitality'];
+const greaterAccessoryAffixes = [...accessoryAffixes, 'vicious', 'mystic', 'of_the_sage', 'of_the_colossus'];
+
+export const affixConfig: AffixConfig = {
+    itemTypes: ['weapon', 'armor', 'accessory'],
+    statVariance: 0.2,
+    slots: {
+        common: { prefixes: 0, suffixes: 1 },
+        uncommon: { prefixes: 1, suffixes: 1 },
+        rare: { prefixes: 1, suffixes: 2 },
+        epic: { prefixes: 2, suffixes: 2 },
+        legendary: { prefixes: 2, suffixes: 3 },
+        mythic: { prefixes: 3, suffixes: 3 }
+    },
+    affixes: {
+        // Prefixes
+        sharp: { name: 'Sharp', kind: 'prefix', stats: { attack: { min: 2, max: 5 } } },
+        brutal: { name: 'Brutal', kind: 'prefix', stats: { attack: { min: 6, max: 12 } } },
+        keen: { name: 'Keen', kind: 'prefix', stats: { criticalChance: { min: 2, max: 4 } } },
+        vicious: { name: 'Vicious', kind: 'prefix', stats: { criticalDamage: { min: 10, max: 25 } } },
+        sturdy: { name: 'Sturdy', kind: 'prefix', stats: { defense: { min: 2, max: 5 } } },
+        reinforced: { name: 'Reinforced', kind: 'prefix', stats: { defense: { min: 6, max: 12 } } },
+        arcane: { name: 'Arcane', kind: 'prefix', stats: { mp: { min: 10, max: 25 }, intelligence: { min: 1, max: 3 } } },
+        mystic: { name: 'Mystic', kind: 'prefix', stats: { mp: { min: 30, max: 60 }, intelligence: { min: 4, max: 8 } } },
+
+        // Suffixes
+        of_the_bear: { name: 'of the Bear', kind: 'suffix', stats: { strength: { min: 2, max: 4 } } },
+        of_the_titan: { name: 'of the Titan', kind: 'suffix', stats: { strength: { min: 5, max: 9 } } },
+        of_the_fox: { name: 'of the Fox', kind: 'suffix', stats: { agility: { min: 2, max: 4 } } },
+        of_the_wind: { name: 'of the Wind', kind: 'suffix', stats: { agility: { min: 5, max: 9 } } },
+        of_the_owl: { name: 'of the Owl', kind: 'suffix', stats: { intelligence: { min: 2, max: 4 } } },
+        of_the_sage: { name: 'of the Sage', kind: 'suffix', stats: { intelligence: { min: 5, max: 9 } } },
+        of_vitality: { name: 'of Vitality', kind: 'suffix', stats: { hp: { min: 15, max: 30 } } },
+        of_the_colossus: { name: 'of the Colossus', kind: 'suffix', stats: { hp: { min: 40, max: 80 } } },
+        of_precision: { name: 'of Precision', kind: 'suffix', stats: { criticalChance: { min: 2, max: 5 } } }
+    },
+    pools: {
+        weapon: {
+            common: weaponAffixes,
+            uncommon: weaponAffixes,
+            rare: greaterWeaponAffixes,
+            epic: greaterWeaponAffixes,
+            legendary: greaterWeaponAffixes,
+            mythic: greaterWeaponAffixes
+        },
+        armor: {
+            common: armorAffixes,
+            uncommon: armorAffixes,
+            rare: greaterArmorAffixes,
+            epic: greaterArmorAffixes,
+            legendary: greaterArmorAffixes,
+            mythic: greaterArmorAffixes
+        },
+        accessory: {
+            common: accessoryAffixes,
+            uncommon: accessoryAffixes,
+            rare: greaterAccessoryAffixes,
+            epic: greaterAccessoryAffixes,
+            legendary: greaterAccessoryAffixes,
+            mythic: greaterAccessoryAffixes
+        }
+    },
+    rerollCosts: {
+        common: { gold: 100, materials: [{ itemId: 'magic_crystal', quantity: 1 }] },
+        uncommon: { gold: 250, materials: [{ itemId: 'magic_crystal', quantity: 2 }] },
+        rare: { gold: 1000, materials: [{ itemId: 'magic_crystal', quantity: 4 }] },
+        epic: { gold: 3000, materials: [{ itemId: 'magic_crystal', quantity: 8 }] },
+        legendary: {
+            gold: 10000,
+            materials: [{ itemId: 'magic_crystal', quantity: 15 }, { itemId: 'blessing_scroll', quantity: 1 }]
+        },
+        mythic: {
+            gold: 25000,
+            materials: [{ itemId: 'magic_crystal', quantity: 25 }, { itemId: 'blessing_scroll', quantity: 2 }]
+        }
+    }
+};
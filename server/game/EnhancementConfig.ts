@@ -0,0 +1,82 @@
+import { ItemType } from '../services/ItemService';
+
+export interface EnhancementMaterial {
+    itemId: string;
+    quantity: number;
+    perLevel?: number; // extra quantity for every current enhancement level
+}
+
+export interface EnhancementTier {
+    id: string;
+    minLevel: number; // current enhancement level the tier starts at
+    maxLevel: number; // inclusive
+    materials: EnhancementMaterial[];
+    // Share of failed attempts (percent) that destroy the item, then that drop it a level
+    destroyChance: number;
+    downgradeChance: number;
+}
+
+export interface EnhancementConfig {
+    itemTypes: ItemType[]; // types that can be enhanced
+    maxLevel: number;
+    baseGoldCost: number; // doubles every level
+    baseSuccessRate: number;
+    successRatePenaltyPerLevel: number;
+    minSuccessRate: number;
+    maxSuccessRate: number; // cap after pity and blessings
+    pityRatePerFailure: number; // added per consecutive failed attempt, reset on success
+    maxPityBonus: number;
+    protectionScrollId: string; // keeps the item's level on failure
+    blessingScrollId: string;
+    blessingRateBonus: number;
+    historyLimit: number; // attempts kept per item instance
+    tiers: EnhancementTier[];
+}
+
+export const enhancementConfig: EnhancementConfig = {
+    itemTypes: ['weapon', 'armor', 'accessory'],
+    maxLevel: 15,
+    baseGoldCost: 100,
+    baseSuccessRate: 90,
+    successRatePenaltyPerLevel: 8,
+    minSuccessRate: 30,
+    maxSuccessRate: 95,
+    pityRatePerFailure: 3,
+    maxPityBonus: 30,
+    protectionScrollId: 'protection_scroll',
+    blessingScrollId: 'blessing_scroll',
+    blessingRateBonus: 10,
+    historyLimit: 50,
+    tiers: [
+        {
+            id: 'safe',
+            minLevel: 0,
+            maxLevel: 4,
+            materials: [{ itemId: 'iron_ore', quantity: 2, perLevel: 1 }],
+            destroyChance: 0,
+            downgradeChance: 0
+        },
+        {
+            id: 'risky',
+            minLevel: 5,
+            maxLevel: 9,
+            materials: [
+                { itemId: 'iron_ore', quantity: 2, perLevel: 1 },
+                { itemId: 'magic_crystal', quantity: 1 }
+            ],
+            destroyChance: 0,
+            downgradeChance: 50
+        },
+        {
+            id: 'perilous',
+            minLevel: 10,
+            maxLevel: 14,
+            materials: [
+                { itemId: 'iron_ore', quantity: 5, perLevel: 1 },
+                { itemId: 'magic_crystal', quantity: 3 }
+            ],
+            destroyChance: 20,
+            downgradeChance: 100
+        }
+    ]
+};
@@ -18,6 +18,61 @@ export interface GameConfig {
             maxY: number;
         };
     };
+    townPoints: {
+        [mapId: number]: { x: number; y: number };
+    };
+    death: {
+        experiencePenalty: number; // fraction of the current level's experience span, 0 disables
+        invulnerabilityMs: number;
+    };
+    loot: {
+        ownerPriorityMs: number; // killer-only window before drops become free-for-all
+        despawnMs: number;
+        pickupRange: number;
+    };
+    itemCooldowns: {
+        [category: string]: number; // ms, keyed by ItemUse.category
+    };
+    shop: {
+        sellPriceRatio: number; // fraction of Item.price paid when selling
+        interactionRange: number;
+        buybackLimit: number; // sold items kept per character for buyback
+    };
+    trade: {
+        range: number; // trades cancel when the partners drift further apart
+        requestTimeoutMs: number;
+        maxItems: number; // item slots per side
+    };
+    market: {
+        listingFeeRate: number; // fraction of the price, paid up front and not refunded
+        salesTaxRate: number; // fraction of the price kept from the seller's proceeds
+        durationsHours: number[]; // listing durations players can pick from
+        maxListingsPerCharacter: number;
+        maxPrice: number;
+        maxPageSize: number;
+        expirySweepMs: number;
+    };
+    mail: {
+        expiryDays: number;
+        codExpiryDays: number; // cash-on-delivery mail goes back sooner
+        maxAttachments: number;
+        subjectMaxLength: number;
+        bodyMaxLength: number;
+        expirySweepMs: number;
+    };
+    bank: {
+        slotsPerTab: number;
+        startingTabs: number;
+        tabPrices: number[]; // gold for each tab bought after the starting ones, its length caps the tabs
+        maxGold: number;
+        interactionRange: number;
+    };
+    crafting: {
+        maxLevel: number;
+        experienceTable: number[];
+        maxBatch: number; // crafts per request
+        interactionRange: number;
+    };
 }
 
 export const gameConfig: GameConfig = {
@@ -57,15 +112,74 @@ export const gameConfig: GameConfig = {
         1: { minX: 0, maxX: 1000, minY: 0, maxY: 1000 }, // Starting village
         2: { minX: 0, maxX: 1500, minY: 0, maxY: 1500 }, // Forest
         3: { minX: 0, maxX: 2000, minY: 0, maxY: 2000 }  // Mountain
+    },
+    townPoints: {
+        1: { x: 100, y: 100 },
+        2: { x: 50, y: 750 },
+        3: { x: 100, y: 1000 }
+    },
+    death: {
+        experiencePenalty: 0.05,
+        invulnerabilityMs: 5000
+    },
+    loot: {
+        ownerPriorityMs: 30 * 1000,
+        despawnMs: 2 * 60 * 1000,
+        pickupRange: 80
+    },
+    itemCooldowns: {
+        hp_potion: 5 * 1000,
+        mp_potion: 5 * 1000,
+        elixir: 1000,
+        scroll: 30 * 1000
+    },
+    shop: {
+        sellPriceRatio: 0.25,
+        interactionRange: 100,
+        buybackLimit: 10
+    },
+    trade: {
+        range: 150,
+        requestTimeoutMs: 30 * 1000,
+        maxItems: 12
+    },
+    market: {
+        listingFeeRate: 0.02,
+        salesTaxRate: 0.05,
+        durationsHours: [12, 24, 48],
+        maxListingsPerCharacter: 20,
+        maxPrice: 1000000000,
+        maxPageSize: 50,
+        expirySweepMs: 60 * 1000
+    },
+    mail: {
+        expiryDays: 30,
+        codExpiryDays: 3,
+        maxAttachments: 8,
+        subjectMaxLength: 60,
+        bodyMaxLength: 1000,
+        expirySweepMs: 60 * 1000
+    },
+    bank: {
+        slotsPerTab: 30,
+        startingTabs: 1,
+        tabPrices: [10000, 50000, 150000, 500000],
+        maxGold: 2000000000,
+        interactionRange: 100
+    },
+    crafting: {
+        maxLevel: 50,
+        experienceTable: generateExperienceTable(50, 50),
+        maxBatch: 20,
+        interactionRange: 100
     }
 };
 
-function generateExperienceTable(maxLevel: number): number[] {
+function generateExperienceTable(maxLevel: number, baseExp: number = 100): number[] {
     const table: number[] = [0]; // Level 1 = 0 exp
     
     for (let level = 2; level <= maxLevel; level++) {
         // Exponential growth: base * level^2 + bonus
-        const baseExp = 100;
         const expForLevel = Math.floor(baseExp * Math.pow(level - 1, 1.8));
         table.push(table[level - 2] + expForLevel);
     }
@@ -134,6 +248,14 @@ export class GameUtils {
         return baseStats[characterClass as keyof typeof baseStats] || baseStats.Warrior;
     }
 
+    static getTownPoint(mapId: number): { x: number; y: number; mapId: number } {
+        const townPoint = gameConfig.townPoints[mapId];
+        if (!townPoint) {
+            return { x: 100, y: 100, mapId: 1 }; // Starting village
+        }
+        return { ...townPoint, mapId };
+    }
+
     static isValidPosition(x: number, y: number, mapId: number): boolean {
         const boundaries = gameConfig.mapBoundaries[mapId];
         if (!boundaries) return false;
@@ -168,7 +290,10 @@ export class GameUtils {
         strength: number;
         dexterity: number;
         intelligence: number;
-    }, weaponAttack: number = 0): {
+    }, weaponAttack: number = 0, critical?: {
+        chance: number; // percent
+        damage: number; // percent bonus on a critical hit
+    }): {
         damage: number;
         isCritical: boolean;
     } {
@@ -177,8 +302,8 @@ export class GameUtils {
         const levelDifference = attacker.level - target.level;
         const levelMultiplier = 1 + (levelDifference * 0.05); // 5% per level difference
 
-        // Critical hit chance based on dexterity
-        const criticalChance = Math.min(0.5, attacker.dexterity / 200); // Max 50% crit
+        // Critical hit chance based on dexterity unless the caller derived one
+        const criticalChance = critical ? critical.chance / 100 : Math.min(0.5, attacker.dexterity / 200); // Max 50% crit
         const isCritical = Math.random() < criticalChance;
         
         // Defense reduction based on target's strength
@@ -187,7 +312,7 @@ export class GameUtils {
         let finalDamage = Math.max(1, (baseDamage * levelMultiplier) - defense);
         
         if (isCritical) {
-            finalDamage *= 2;
+            finalDamage *= critical ? 1 + critical.damage / 100 : 2;
         }
 
         return {
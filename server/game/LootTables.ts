@@ -0,0 +1,181 @@
+import { ItemRarity, ItemType } from '../services/ItemService';
+
+export interface LootQuantity {
+    min: number;
+    max: number;
+}
+
+interface LootEntryBase {
+    weight: number;
+    minLevel?: number; // monster level gating
+    maxLevel?: number;
+}
+
+export interface ItemLootEntry extends LootEntryBase {
+    type: 'item';
+    itemId: string;
+    quantity?: LootQuantity;
+}
+
+export interface TableLootEntry extends LootEntryBase {
+    type: 'table';
+    tableId: string;
+}
+
+// Rolls a rarity tier, then picks a random item of that rarity the monster's level allows
+export interface RarityLootEntry extends LootEntryBase {
+    type: 'rarity';
+    tiers: { rarity: ItemRarity; weight: number }[];
+    itemTypes?: ItemType[];
+}
+
+export interface EmptyLootEntry extends LootEntryBase {
+    type: 'nothing';
+}
+
+export type LootEntry = ItemLootEntry | TableLootEntry | RarityLootEntry | EmptyLootEntry;
+
+export interface LootTable {
+    id: string;
+    rolls: number | LootQuantity;
+    guaranteed?: LootEntry[];
+    entries: LootEntry[];
+}
+
+export const MAX_LOOT_TABLE_DEPTH = 5;
+
+const tables: LootTable[] = [
+    // Shared sub-tables
+    {
+        id: 'potions',
+        rolls: 1,
+        entries: [
+            { type: 'item', itemId: 'health_potion', weight: 60, quantity: { min: 1, max: 2 } },
+            { type: 'item', itemId: 'mana_potion', weight: 40, quantity: { min: 1, max: 2 } }
+        ]
+    },
+    {
+        id: 'rare_equipment',
+        rolls: 1,
+        entries: [
+            { type: 'item', itemId: 'steel_dagger', weight: 1 },
+            { type: 'item', itemId: 'chainmail', weight: 1 },
+            { type: 'item', itemId: 'power_ring', weight: 1 }
+        ]
+    },
+    {
+        id: 'equipment_tier',
+        rolls: 1,
+        entries: [
+            {
+                type: 'rarity',
+                weight: 1,
+                itemTypes: ['weapon', 'armor', 'accessory'],
+                tiers: [
+                    { rarity: 'common', weight: 70 },
+                    { rarity: 'uncommon', weight: 22 },
+                    { rarity: 'rare', weight: 7 },
+                    { rarity: 'epic', weight: 1 }
+                ]
+            }
+        ]
+    },
+
+    // Used when no table is given, matches the original hardcoded drops
+    {
+        id: 'default',
+        rolls: 1,
+        guaranteed: [],
+        entries: [
+            { type: 'item', itemId: 'iron_ore', weight: 70, quantity: { min: 1, max: 3 } },
+            { type: 'table', tableId: 'potions', weight: 20 },
+            { type: 'table', tableId: 'rare_equipment', weight: 3, minLevel: 5 },
+            { type: 'nothing', weight: 7 }
+        ]
+    },
+
+    // Monster tables
+    {
+        id: 'goblin',
+        rolls: 2,
+        entries: [
+            { type: 'item', itemId: 'iron_ore', weight: 50, quantity: { min: 1, max: 3 } },
+            { type: 'table', tableId: 'potions', weight: 20 },
+            { type: 'item', itemId: 'iron_sword', weight: 2 },
+            { type: 'nothing', weight: 50 }
+        ]
+    },
+    {
+        id: 'wolf',
+        rolls: 2,
+        entries: [
+            { type: 'item', itemId: 'iron_ore', weight: 30, quantity: { min: 1, max: 2 } },
+            { type: 'table', tableId: 'potions', weight: 30 },
+            { type: 'item', itemId: 'leather_armor', weight: 4 },
+            { type: 'item', itemId: 'wooden_bow', weight: 3 },
+            { type: 'nothing', weight: 40 }
+        ]
+    },
+    {
+        id: 'orc',
+        rolls: 2,
+        entries: [
+            { type: 'item', itemId: 'iron_ore', weight: 40, quantity: { min: 2, max: 4 } },
+            { type: 'table', tableId: 'potions', weight: 30 },
+            { type: 'item', itemId: 'iron_helmet', weight: 5 },
+            { type: 'table', tableId: 'equipment_tier', weight: 8, minLevel: 8 },
+            { type: 'nothing', weight: 30 }
+        ]
+    },
+    {
+        id: 'skeleton',
+        rolls: { min: 2, max: 3 },
+        entries: [
+            { type: 'item', itemId: 'iron_ore', weight: 30, quantity: { min: 2, max: 5 } },
+            { type: 'item', itemId: 'magic_crystal', weight: 15, quantity: { min: 1, max: 2 } },
+            { type: 'table', tableId: 'potions', weight: 25 },
+            { type: 'table', tableId: 'equipment_tier', weight: 10 },
+            { type: 'nothing', weight: 30 }
+        ]
+    },
+    {
+        id: 'spider',
+        rolls: { min: 2, max: 3 },
+        entries: [
+            { type: 'item', itemId: 'magic_crystal', weight: 25, quantity: { min: 1, max: 3 } },
+            { type: 'table', tableId: 'potions', weight: 30 },
+            { type: 'item', itemId: 'steel_dagger', weight: 5 },
+            { type: 'table', tableId: 'equipment_tier', weight: 10 },
+            { type: 'nothing', weight: 30 }
+        ]
+    },
+    {
+        id: 'dragon',
+        rolls: 4,
+        guaranteed: [
+            { type: 'item', itemId: 'magic_crystal', weight: 1, quantity: { min: 5, max: 10 } },
+            { type: 'table', tableId: 'rare_equipment', weight: 1 }
+        ],
+        entries: [
+            { type: 'item', itemId: 'power_ring', weight: 10 },
+            { type: 'item', itemId: 'mana_necklace', weight: 10 },
+            { type: 'item', itemId: 'chainmail', weight: 10 },
+            {
+                type: 'rarity',
+                weight: 20,
+                itemTypes: ['weapon', 'armor', 'accessory'],
+                tiers: [
+                    { rarity: 'rare', weight: 70 },
+                    { rarity: 'epic', weight: 25 },
+                    { rarity: 'legendary', weight: 5 }
+                ]
+            },
+            { type: 'table', tableId: 'potions', weight: 30 }
+        ]
+    }
+];
+
+export const lootTables: { [tableId: string]: LootTable } = tables.reduce((map, table) => {
+    map[table.id] = table;
+    return map;
+}, {} as { [tableId: string]: LootTable });
@@ -0,0 +1,116 @@
+import { CraftingStationType } from './RecipeData';
+
+export interface ShopStockEntry {
+    itemId: string;
+    price?: number; // overrides Item.price
+    limit?: number; // limited stock, unlimited when unset
+    restockMs?: number; // time after the first sale until the stock refills to limit
+}
+
+export interface NpcBase {
+    id: string;
+    name: string;
+    mapId: number;
+    position: { x: number; y: number };
+}
+
+export interface NpcVendor extends NpcBase {
+    stock: ShopStockEntry[];
+}
+
+// Bankers only give access to the account bank
+export type NpcBanker = NpcBase;
+
+export interface CraftingStation extends NpcBase {
+    type: CraftingStationType;
+}
+
+const vendors: NpcVendor[] = [
+    // Starting village
+    {
+        id: 'village_general_store',
+        name: 'Marla the Grocer',
+        mapId: 1,
+        position: { x: 120, y: 90 },
+        stock: [
+            { itemId: 'health_potion' },
+            { itemId: 'mana_potion' },
+            { itemId: 'return_scroll' },
+            { itemId: 'strength_elixir', limit: 5, restockMs: 10 * 60 * 1000 }
+        ]
+    },
+    {
+        id: 'village_blacksmith',
+        name: 'Borin the Smith',
+        mapId: 1,
+        position: { x: 150, y: 130 },
+        stock: [
+            { itemId: 'iron_sword' },
+            { itemId: 'wooden_bow' },
+            { itemId: 'magic_staff' },
+            { itemId: 'leather_armor' },
+            { itemId: 'iron_helmet' },
+            { itemId: 'iron_ore' },
+            { itemId: 'magic_crystal', limit: 20, restockMs: 30 * 60 * 1000 },
+            { itemId: 'blessing_scroll', limit: 3, restockMs: 60 * 60 * 1000 },
+            { itemId: 'protection_scroll', limit: 2, restockMs: 60 * 60 * 1000 }
+        ]
+    },
+
+    // Forest
+    {
+        id: 'forest_ranger_camp',
+        name: 'Ranger Eldwin',
+        mapId: 2,
+        position: { x: 80, y: 760 },
+        stock: [
+            { itemId: 'health_potion' },
+            { itemId: 'mana_potion' },
+            { itemId: 'return_scroll' },
+            { itemId: 'wooden_bow' },
+            { itemId: 'steel_dagger', limit: 3, restockMs: 20 * 60 * 1000 }
+        ]
+    },
+
+    // Mountain
+    {
+        id: 'mountain_quartermaster',
+        name: 'Quartermaster Hild',
+        mapId: 3,
+        position: { x: 130, y: 1010 },
+        stock: [
+            { itemId: 'health_potion', price: 30 },
+            { itemId: 'mana_potion', price: 25 },
+            { itemId: 'return_scroll' },
+            { itemId: 'chainmail', limit: 2, restockMs: 30 * 60 * 1000 },
+            { itemId: 'magic_crystal', limit: 10, restockMs: 30 * 60 * 1000 }
+        ]
+    }
+];
+
+export const npcVendors: { [vendorId: string]: NpcVendor } = vendors.reduce((map, vendor) => {
+    map[vendor.id] = vendor;
+    return map;
+}, {} as { [vendorId: string]: NpcVendor });
+
+const bankers: NpcBanker[] = [
+    { id: 'village_banker', name: 'Banker Oswin', mapId: 1, position: { x: 100, y: 150 } },
+    { id: 'mountain_banker', name: 'Vault Keeper Dara', mapId: 3, position: { x: 160, y: 1040 } }
+];
+
+export const npcBankers: { [bankerId: string]: NpcBanker } = bankers.reduce((map, banker) => {
+    map[banker.id] = banker;
+    return map;
+}, {} as { [bankerId: string]: NpcBanker });
+
+const stations: CraftingStation[] = [
+    { id: 'village_forge', name: 'Village Forge', type: 'forge', mapId: 1, position: { x: 170, y: 140 } },
+    { id: 'village_alchemy_table', name: 'Alchemy Table', type: 'alchemy_table', mapId: 1, position: { x: 110, y: 110 } },
+    { id: 'forest_arcane_table', name: 'Druid\'s Arcane Table', type: 'arcane_table', mapId: 2, position: { x: 100, y: 780 } },
+    { id: 'mountain_forge', name: 'Dwarven Forge', type: 'forge', mapId: 3, position: { x: 150, y: 1000 } }
+];
+
+export const craftingStations: { [stationId: string]: CraftingStation } = stations.reduce((map, station) => {
+    map[station.id] = station;
+    return map;
+}, {} as { [stationId: string]: CraftingStation });
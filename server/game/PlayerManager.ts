@@ -0,0 +1,123 @@
+import { WebSocket } from 'ws';
+import { Character } from '../database/IDatabaseService';
+import { Logger } from '../utils/Logger';
+
+export interface GameMessage {
+    type: string;
+    data?: any;
+    timestamp?: string;
+}
+
+export interface PlayerSession {
+    ws: WebSocket;
+    userId: number;
+    token: string;
+    tokenExpiresAt?: number;
+    characterId?: number;
+    character?: Character;
+    lastActivity: Date;
+}
+
+/**
+ * Owns the live player sessions and is the single place messages are pushed
+ * to clients from, so every service reaches the same set of sockets.
+ */
+export class PlayerManager {
+    private logger: Logger;
+    private sessions: Map<WebSocket, PlayerSession> = new Map();
+
+    constructor() {
+        this.logger = new Logger();
+    }
+
+    public addSession(session: PlayerSession): void {
+        this.sessions.set(session.ws, session);
+    }
+
+    public removeSession(ws: WebSocket): PlayerSession | null {
+        const session = this.sessions.get(ws);
+        if (!session) {
+            return null;
+        }
+
+        this.sessions.delete(ws);
+        return session;
+    }
+
+    public getSession(ws: WebSocket): PlayerSession | null {
+        return this.sessions.get(ws) || null;
+    }
+
+    public hasSession(ws: WebSocket): boolean {
+        return this.sessions.has(ws);
+    }
+
+    public getSessions(): PlayerSession[] {
+        return Array.from(this.sessions.values());
+    }
+
+    public getOnlineCount(): number {
+        return this.sessions.size;
+    }
+
+    public getSessionByCharacterId(characterId: number): PlayerSession | null {
+        for (const session of this.sessions.values()) {
+            if (session.character && session.character.id === characterId) {
+                return session;
+            }
+        }
+        return null;
+    }
+
+    public getPlayersOnMap(mapId: number): PlayerSession[] {
+        return this.getSessions().filter(session =>
+            session.character !== undefined && session.character.map_id === mapId
+        );
+    }
+
+    public sendMessage(ws: WebSocket, message: GameMessage): void {
+        if (ws.readyState === WebSocket.OPEN) {
+            message.timestamp = new Date().toISOString();
+            ws.send(JSON.stringify(message));
+        }
+    }
+
+    public sendToCharacter(characterId: number, message: GameMessage): boolean {
+        const session = this.getSessionByCharacterId(characterId);
+        if (!session) {
+            return false;
+        }
+
+        this.sendMessage(session.ws, message);
+        return true;
+    }
+
+    public broadcast(message: GameMessage): void {
+        message.timestamp = new Date().toISOString();
+        const messageStr = JSON.stringify(message);
+
+        this.sessions.forEach((session) => {
+            if (session.ws.readyState === WebSocket.OPEN) {
+                session.ws.send(messageStr);
+            }
+        });
+    }
+
+    public broadcastToMap(mapId: number, message: GameMessage, excludeWs?: WebSocket): void {
+        message.timestamp = new Date().toISOString();
+        const messageStr = JSON.stringify(message);
+        let recipients = 0;
+
+        this.sessions.forEach((session) => {
+            if (session.ws !== excludeWs &&
+                session.character &&
+                session.character.map_id === mapId &&
+                session.ws.readyState === WebSocket.OPEN) {
+                session.ws.send(messageStr);
+                recipients++;
+            }
+        });
+
+        this.logger.debug(`Broadcast ${message.type} to ${recipients} player(s) on map ${mapId}`);
+    }
+}
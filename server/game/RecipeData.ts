@@ -0,0 +1,140 @@
+export type CraftingStationType = 'forge' | 'alchemy_table' | 'arcane_table';
+
+export interface RecipeInput {
+    itemId: string;
+    quantity: number;
+}
+
+export interface RecipeOutput {
+    itemId: string;
+    quantity: number;
+}
+
+export interface BonusOutput extends RecipeOutput {
+    chance: number; // percent, rolled separately for every craft
+}
+
+export interface Recipe {
+    id: string;
+    name: string;
+    station: CraftingStationType;
+    requiredLevel: number; // crafting skill level
+    inputs: RecipeInput[];
+    gold: number;
+    output: RecipeOutput;
+    bonusOutputs?: BonusOutput[];
+    experience: number; // crafting experience per craft
+}
+
+const recipeList: Recipe[] = [
+    // Forge
+    {
+        id: 'forge_iron_sword',
+        name: 'Forge Iron Sword',
+        station: 'forge',
+        requiredLevel: 1,
+        inputs: [{ itemId: 'iron_ore', quantity: 8 }],
+        gold: 20,
+        output: { itemId: 'iron_sword', quantity: 1 },
+        experience: 15
+    },
+    {
+        id: 'forge_iron_helmet',
+        name: 'Forge Iron Helmet',
+        station: 'forge',
+        requiredLevel: 3,
+        inputs: [{ itemId: 'iron_ore', quantity: 10 }],
+        gold: 40,
+        output: { itemId: 'iron_helmet', quantity: 1 },
+        bonusOutputs: [{ itemId: 'iron_ore', quantity: 2, chance: 25 }],
+        experience: 25
+    },
+    {
+        id: 'forge_steel_dagger',
+        name: 'Forge Steel Dagger',
+        station: 'forge',
+        requiredLevel: 8,
+        inputs: [
+            { itemId: 'iron_ore', quantity: 15 },
+            { itemId: 'magic_crystal', quantity: 2 }
+        ],
+        gold: 150,
+        output: { itemId: 'steel_dagger', quantity: 1 },
+        experience: 60
+    },
+    {
+        id: 'forge_chainmail',
+        name: 'Forge Chainmail Armor',
+        station: 'forge',
+        requiredLevel: 12,
+        inputs: [
+            { itemId: 'iron_ore', quantity: 30 },
+            { itemId: 'magic_crystal', quantity: 4 }
+        ],
+        gold: 300,
+        output: { itemId: 'chainmail', quantity: 1 },
+        bonusOutputs: [{ itemId: 'iron_ore', quantity: 5, chance: 20 }],
+        experience: 100
+    },
+
+    // Alchemy
+    {
+        id: 'brew_mana_potion',
+        name: 'Brew Mana Potions',
+        station: 'alchemy_table',
+        requiredLevel: 1,
+        inputs: [{ itemId: 'magic_crystal', quantity: 1 }],
+        gold: 10,
+        output: { itemId: 'mana_potion', quantity: 5 },
+        bonusOutputs: [{ itemId: 'mana_potion', quantity: 2, chance: 20 }],
+        experience: 10
+    },
+    {
+        id: 'brew_strength_elixir',
+        name: 'Brew Strength Elixir',
+        station: 'alchemy_table',
+        requiredLevel: 5,
+        inputs: [
+            { itemId: 'magic_crystal', quantity: 1 },
+            { itemId: 'health_potion', quantity: 2 }
+        ],
+        gold: 25,
+        output: { itemId: 'strength_elixir', quantity: 1 },
+        bonusOutputs: [{ itemId: 'strength_elixir', quantity: 1, chance: 10 }],
+        experience: 30
+    },
+
+    // Arcane
+    {
+        id: 'carve_apprentice_staff',
+        name: 'Carve Apprentice Staff',
+        station: 'arcane_table',
+        requiredLevel: 4,
+        inputs: [
+            { itemId: 'iron_ore', quantity: 4 },
+            { itemId: 'magic_crystal', quantity: 2 }
+        ],
+        gold: 30,
+        output: { itemId: 'magic_staff', quantity: 1 },
+        experience: 20
+    },
+    {
+        id: 'inscribe_blessing_scroll',
+        name: 'Inscribe Scroll of Blessing',
+        station: 'arcane_table',
+        requiredLevel: 10,
+        inputs: [
+            { itemId: 'magic_crystal', quantity: 5 },
+            { itemId: 'return_scroll', quantity: 1 }
+        ],
+        gold: 100,
+        output: { itemId: 'blessing_scroll', quantity: 1 },
+        bonusOutputs: [{ itemId: 'magic_crystal', quantity: 1, chance: 30 }],
+        experience: 80
+    }
+];
+
+export const recipes: { [recipeId: string]: Recipe } = recipeList.reduce((map, recipe) => {
+    map[recipe.id] = recipe;
+    return map;
+}, {} as { [recipeId: string]: Recipe });
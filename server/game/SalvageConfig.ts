@@ -0,0 +1,49 @@
+import { ItemRarity, ItemType } from '../services/ItemService';
+
+export interface SalvageYield {
+    itemId: string;
+    quantity: number;
+    perItemLevel?: number; // extra quantity per Item.level, rounded down
+    perEnhancementLevel?: number; // extra quantity per enhancement level of the instance
+    chance?: number; // percent, always yielded when unset
+}
+
+export interface SalvageConfig {
+    itemTypes: ItemType[]; // types that can be salvaged
+    maxBatch: number; // instances per request when picked one by one
+    yields: { [rarity in ItemRarity]: SalvageYield[] };
+}
+
+export const salvageConfig: SalvageConfig = {
+    itemTypes: ['weapon', 'armor', 'accessory'],
+    maxBatch: 30,
+    yields: {
+        common: [
+            { itemId: 'iron_ore', quantity: 2, perItemLevel: 0.5, perEnhancementLevel: 1 }
+        ],
+        uncommon: [
+            { itemId: 'iron_ore', quantity: 4, perItemLevel: 0.5, perEnhancementLevel: 1 },
+            { itemId: 'magic_crystal', quantity: 1, chance: 25 }
+        ],
+        rare: [
+            { itemId: 'iron_ore', quantity: 6, perItemLevel: 0.5, perEnhancementLevel: 2 },
+            { itemId: 'magic_crystal', quantity: 2, perItemLevel: 0.1, perEnhancementLevel: 1 },
+            { itemId: 'blessing_scroll', quantity: 1, chance: 10 }
+        ],
+        epic: [
+            { itemId: 'iron_ore', quantity: 10, perItemLevel: 0.5, perEnhancementLevel: 2 },
+            { itemId: 'magic_crystal', quantity: 4, perItemLevel: 0.2, perEnhancementLevel: 1 },
+            { itemId: 'blessing_scroll', quantity: 1, chance: 30 }
+        ],
+        legendary: [
+            { itemId: 'magic_crystal', quantity: 8, perItemLevel: 0.25, perEnhancementLevel: 2 },
+            { itemId: 'blessing_scroll', quantity: 1 },
+            { itemId: 'protection_scroll', quantity: 1, chance: 25 }
+        ],
+        mythic: [
+            { itemId: 'magic_crystal', quantity: 15, perItemLevel: 0.3, perEnhancementLevel: 3 },
+            { itemId: 'blessing_scroll', quantity: 2 },
+            { itemId: 'protection_scroll', quantity: 1, chance: 50 }
+        ]
+    }
+};
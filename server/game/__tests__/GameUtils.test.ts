@@ -0,0 +1,23 @@
+import { GameUtils } from '../GameUtils';
+
+describe('GameUtils.calculateCombatDamage', () => {
+    const attacker = { level: 10, strength: 20, dexterity: 100, intelligence: 0 };
+    const target = { level: 10, strength: 0, dexterity: 0, intelligence: 0 };
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('uses the derived critical chance and damage when given', () => {
+        jest.spyOn(Math, 'random').mockReturnValue(0.6);
+
+        expect(GameUtils.calculateCombatDamage(attacker, target, 10, { chance: 70, damage: 50 }))
+            .toEqual({ damage: 45, isCritical: true });
+        expect(GameUtils.calculateCombatDamage(attacker, target, 10, { chance: 50, damage: 50 }))
+            .toEqual({ damage: 30, isCritical: false });
+    });
+
+    it('falls back to dexterity scaling and double damage', () => {
+        jest.spyOn(Math, 'random').mockReturnValue(0.4);
+
+        expect(GameUtils.calculateCombatDamage(attacker, target, 10)).toEqual({ damage: 60, isCritical: true });
+    });
+});
@@ -1,7 +1,7 @@
 import * as dotenv from 'dotenv';
 import express from 'express';
 import cors from 'cors';
-import { createServer } from 'http';
+import { createServer, IncomingMessage } from 'http';
 import { WebSocketServer } from 'ws';
 import * as path from 'path';
 
@@ -9,13 +9,26 @@ import * as path from 'path';
 dotenv.config();
 
 // Import services
-import { AuthService } from './services/AuthService';
+import { AuthService, AuthenticatedRequest } from './services/AuthService';
 import { GameService } from './services/GameService';
 import { MonsterService } from './services/MonsterService';
-import { ItemService } from './services/ItemService';
+import { ItemService, InventoryResult, InventoryItem } from './services/ItemService';
+import { CombatService } from './services/CombatService';
+import { RewardService } from './services/RewardService';
+import { LootService } from './services/LootService';
+import { StatsService } from './services/StatsService';
+import { ConsumableService } from './services/ConsumableService';
+import { ShopService, ShopResult } from './services/ShopService';
+import { TradeService } from './services/TradeService';
+import { MarketService, MarketResult, MarketQuery } from './services/MarketService';
+import { MailService, MailResult } from './services/MailService';
+import { BankService, BankResult } from './services/BankService';
+import { CraftingService } from './services/CraftingService';
+import { SalvageService, SalvageResult } from './services/SalvageService';
 import { DatabaseService } from './database/DatabaseService';
 import { MockDatabaseService } from './database/MockDatabaseService';
 import { IDatabaseService } from './database/IDatabaseService';
+import { PlayerManager } from './game/PlayerManager';
 import { Logger } from './utils/Logger';
 
 class NightcrowsServer {
@@ -25,10 +38,23 @@ class NightcrowsServer {
     private port: number;
     
     // Services
+    private playerManager: PlayerManager;
     private authService: AuthService;
     private gameService: GameService;
     private monsterService: MonsterService;
     private itemService: ItemService;
+    private combatService: CombatService;
+    private rewardService: RewardService;
+    private lootService: LootService;
+    private statsService: StatsService;
+    private consumableService: ConsumableService;
+    private shopService: ShopService;
+    private tradeService: TradeService;
+    private marketService: MarketService;
+    private mailService: MailService;
+    private bankService: BankService;
+    private craftingService: CraftingService;
+    private salvageService: SalvageService;
     private dbService: IDatabaseService;
     private logger: Logger;
 
@@ -57,10 +83,52 @@ class NightcrowsServer {
             this.logger.info('Using MySQL database');
         }
         
+        this.playerManager = new PlayerManager();
         this.authService = new AuthService(this.dbService);
         this.itemService = new ItemService(this.dbService);
-        this.gameService = new GameService(this.dbService, this.wss, this.itemService);
-        this.monsterService = new MonsterService(this.dbService, this.wss);
+        this.statsService = new StatsService(this.dbService, this.itemService);
+        this.combatService = new CombatService(this.dbService, this.statsService, this.playerManager);
+        this.rewardService = new RewardService(this.dbService, this.itemService, this.statsService);
+        this.lootService = new LootService(this.itemService, this.playerManager);
+        this.consumableService = new ConsumableService(
+            this.dbService,
+            this.itemService,
+            this.statsService,
+            this.playerManager
+        );
+        this.shopService = new ShopService(this.dbService, this.itemService, this.playerManager);
+        this.tradeService = new TradeService(this.dbService, this.itemService, this.playerManager);
+        this.mailService = new MailService(this.dbService, this.itemService, this.playerManager);
+        this.bankService = new BankService(this.dbService, this.itemService, this.playerManager);
+        this.craftingService = new CraftingService(this.dbService, this.itemService, this.playerManager);
+        this.salvageService = new SalvageService(this.itemService);
+        this.marketService = new MarketService(this.dbService, this.itemService, this.playerManager, this.mailService);
+        this.monsterService = new MonsterService(
+            this.dbService,
+            this.wss,
+            this.playerManager,
+            this.combatService,
+            this.lootService
+        );
+        this.gameService = new GameService(
+            this.dbService,
+            this.wss,
+            this.playerManager,
+            this.itemService,
+            this.authService,
+            this.monsterService,
+            this.combatService,
+            this.statsService,
+            this.rewardService,
+            this.lootService,
+            this.consumableService,
+            this.shopService,
+            this.tradeService,
+            this.mailService,
+            this.bankService,
+            this.craftingService,
+            this.salvageService
+        );
         
         this.setupRoutes();
         this.setupWebSocket();
@@ -80,6 +148,11 @@ class NightcrowsServer {
     }
 
     private setupRoutes(): void {
+        // Route guards: signed-in user, owner of the requested character, GM
+        const auth = this.authService.verifyTokenMiddleware;
+        const owner = this.authService.requireCharacterOwnerMiddleware;
+        const gm = this.authService.requireGmMiddleware;
+
         // Health check
         this.app.get('/health', (req, res) => {
             res.json({ status: 'ok', timestamp: new Date().toISOString() });
@@ -89,27 +162,83 @@ class NightcrowsServer {
         this.app.post('/api/auth/register', this.authService.register.bind(this.authService));
         this.app.post('/api/auth/login', this.authService.login.bind(this.authService));
         this.app.post('/api/auth/verify', this.authService.verifyToken.bind(this.authService));
+        this.app.post('/api/auth/logout', this.authService.logout.bind(this.authService));
 
         // Game API routes
         this.app.get('/api/game/characters/:userId', this.gameService.getCharacters.bind(this.gameService));
         this.app.post('/api/game/character/create', this.gameService.createCharacter.bind(this.gameService));
         this.app.get('/api/game/world/status', this.gameService.getWorldStatus.bind(this.gameService));
+        this.app.get('/api/game/character/:characterId/stats', auth, owner, this.getCharacterStats.bind(this));
         
         // Monster API routes
         this.app.get('/api/game/monsters/:mapId?', this.getMonsters.bind(this));
-        this.app.post('/api/game/monster/attack', this.attackMonster.bind(this));
         this.app.get('/api/game/monsters/stats', this.getMonsterStats.bind(this));
         
         // Item API routes
         this.app.get('/api/items', this.getAllItems.bind(this));
         this.app.get('/api/items/type/:type', this.getItemsByType.bind(this));
-        this.app.get('/api/inventory/:characterId', this.getPlayerInventory.bind(this));
-        this.app.post('/api/inventory/add', this.addItemToInventory.bind(this));
-        this.app.post('/api/inventory/remove', this.removeItemFromInventory.bind(this));
-        this.app.post('/api/inventory/equip', this.equipItem.bind(this));
-        this.app.post('/api/inventory/enhance', this.enhanceItem.bind(this));
-        this.app.post('/api/inventory/gold', this.updatePlayerGold.bind(this));
-        this.app.get('/api/equipment/:characterId', this.getPlayerEquipment.bind(this));
+        this.app.get('/api/inventory/:characterId', auth, owner, this.getPlayerInventory.bind(this));
+        this.app.post('/api/inventory/remove', auth, owner, this.removeItemFromInventory.bind(this));
+        this.app.post('/api/inventory/equip', auth, owner, this.equipItem.bind(this));
+        this.app.post('/api/inventory/unequip', auth, owner, this.unequipItem.bind(this));
+        this.app.post('/api/inventory/move', auth, owner, this.moveItem.bind(this));
+        this.app.post('/api/inventory/swap', auth, owner, this.swapItems.bind(this));
+        this.app.post('/api/inventory/split', auth, owner, this.splitStack.bind(this));
+        this.app.post('/api/inventory/merge', auth, owner, this.mergeStack.bind(this));
+        this.app.post('/api/inventory/use', auth, owner, this.useItem.bind(this));
+        this.app.post('/api/inventory/enhance', auth, owner, this.enhanceItem.bind(this));
+        this.app.post('/api/inventory/enhance/bulk', auth, owner, this.bulkEnhanceItem.bind(this));
+        this.app.post('/api/inventory/enhance/preview', auth, owner, this.previewEnhancement.bind(this));
+        this.app.post('/api/inventory/reroll', auth, owner, this.rerollItem.bind(this));
+        this.app.post('/api/inventory/lock', auth, owner, this.lockItem.bind(this));
+        this.app.post('/api/inventory/salvage', auth, owner, this.salvageItems.bind(this));
+        this.app.post('/api/inventory/salvage/all', auth, owner, this.salvageAllItems.bind(this));
+        this.app.post('/api/inventory/salvage/preview', auth, owner, this.previewSalvage.bind(this));
+        this.app.get('/api/equipment/:characterId', auth, owner, this.getPlayerEquipment.bind(this));
+
+        // GM grants, these create items and gold out of nothing
+        this.app.post('/api/inventory/add', auth, gm, this.addItemToInventory.bind(this));
+        this.app.post('/api/inventory/gold', auth, gm, this.updatePlayerGold.bind(this));
+
+        // NPC shop routes
+        this.app.get('/api/npcs/:mapId', this.getNpcs.bind(this));
+        this.app.get('/api/shop/:vendorId', auth, owner, this.getShop.bind(this));
+        this.app.post('/api/shop/buy', auth, owner, this.buyFromShop.bind(this));
+        this.app.post('/api/shop/sell', auth, owner, this.sellToShop.bind(this));
+        this.app.post('/api/shop/buyback', auth, owner, this.buyBackFromShop.bind(this));
+
+        // Account bank, characters must stand near a banker
+        this.app.get('/api/bank/:characterId', auth, owner, this.getBank.bind(this));
+        this.app.post('/api/bank/deposit', auth, owner, this.depositToBank.bind(this));
+        this.app.post('/api/bank/withdraw', auth, owner, this.withdrawFromBank.bind(this));
+        this.app.post('/api/bank/gold/deposit', auth, owner, this.depositGoldToBank.bind(this));
+        this.app.post('/api/bank/gold/withdraw', auth, owner, this.withdrawGoldFromBank.bind(this));
+        this.app.post('/api/bank/tab', auth, owner, this.buyBankTab.bind(this));
+
+        // Crafting
+        this.app.get('/api/crafting/recipes', auth, this.getRecipes.bind(this));
+        this.app.get('/api/crafting/:characterId', auth, owner, this.getCraftingSkill.bind(this));
+        this.app.post('/api/crafting/craft', auth, owner, this.craftItem.bind(this));
+
+        // Trade audit log
+        this.app.get('/api/trades/:characterId', auth, gm, this.getTradeHistory.bind(this));
+
+        // Marketplace routes
+        this.app.get('/api/market', auth, this.searchMarket.bind(this));
+        this.app.get('/api/market/listings/:characterId', auth, owner, this.getMarketListings.bind(this));
+        this.app.post('/api/market/list', auth, owner, this.listMarketItem.bind(this));
+        this.app.post('/api/market/buy', auth, owner, this.buyMarketListing.bind(this));
+        this.app.post('/api/market/cancel', auth, owner, this.cancelMarketListing.bind(this));
+        this.app.post('/api/market/claim', auth, owner, this.claimMarketListing.bind(this));
+
+        // Mail routes
+        this.app.get('/api/mail/:characterId', auth, owner, this.getMailbox.bind(this));
+        this.app.post('/api/mail/send', auth, owner, this.sendMail.bind(this));
+        this.app.post('/api/mail/read', auth, owner, this.readMail.bind(this));
+        this.app.post('/api/mail/claim', auth, owner, this.claimMail.bind(this));
+        this.app.post('/api/mail/return', auth, owner, this.returnMail.bind(this));
+        this.app.post('/api/mail/delete', auth, owner, this.deleteMail.bind(this));
+        this.app.post('/api/mail/system', auth, gm, this.sendSystemMail.bind(this));
         
         // Test endpoint to manually spawn monsters
         this.app.post('/api/game/monsters/spawn/:mapId', (req, res) => {
@@ -133,6 +262,10 @@ class NightcrowsServer {
     private setupWebSocket(): void {
         this.wss.on('connection', (ws, req) => {
             this.logger.info(`New WebSocket connection from ${req.socket.remoteAddress}`);
+
+            // Token may come with the upgrade (?token=... or Authorization header)
+            // or later in the first 'authenticate' message
+            this.gameService.handleConnection(ws, this.getUpgradeToken(req));
             
             ws.on('message', (data) => {
                 try {
@@ -162,6 +295,17 @@ class NightcrowsServer {
         });
     }
 
+    private getUpgradeToken(req: IncomingMessage): string | undefined {
+        const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+        const queryToken = url.searchParams.get('token');
+        if (queryToken) {
+            return queryToken;
+        }
+
+        const authHeader = req.headers.authorization;
+        return authHeader ? authHeader.split(' ')[1] : undefined;
+    }
+
     public async start(): Promise<void> {
         try {
             // Initialize database
@@ -188,6 +332,9 @@ class NightcrowsServer {
         
         // Stop monster service
         this.monsterService.stop();
+        this.lootService.stop();
+        this.marketService.stop();
+        this.mailService.stop();
         
         // Close database connections
         await this.dbService.close();
@@ -198,6 +345,46 @@ class NightcrowsServer {
         this.logger.info('Server shutdown complete');
     }
 
+    // Character API methods
+    private async getCharacterStats(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const characterId = parseInt(req.params.characterId);
+            
+            if (isNaN(characterId)) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Invalid character ID'
+                });
+                return;
+            }
+
+            const stats = await this.statsService.getDerivedStats(characterId);
+            
+            if (!stats) {
+                res.status(404).json({
+                    success: false,
+                    message: 'Character not found'
+                });
+                return;
+            }
+
+            res.json({
+                success: true,
+                data: {
+                    characterId,
+                    stats,
+                    buffs: this.statsService.getActiveBuffs(characterId)
+                }
+            });
+        } catch (error) {
+            this.logger.error('Get character stats error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to retrieve character stats'
+            });
+        }
+    }
+
     // Monster API methods
     private async getMonsters(req: express.Request, res: express.Response): Promise<void> {
         try {
@@ -226,33 +413,6 @@ class NightcrowsServer {
         }
     }
 
-    private async attackMonster(req: express.Request, res: express.Response): Promise<void> {
-        try {
-            const { monsterId, damage, characterId } = req.body;
-            
-            if (!monsterId || !damage || !characterId) {
-                res.status(400).json({
-                    success: false,
-                    message: 'Monster ID, damage, and character ID are required'
-                });
-                return;
-            }
-            
-            const result = this.monsterService.damageMonster(monsterId, damage, characterId);
-            
-            res.json({
-                success: true,
-                data: result
-            });
-        } catch (error) {
-            this.logger.error('Attack monster error:', error);
-            res.status(500).json({
-                success: false,
-                message: 'Failed to attack monster'
-            });
-        }
-    }
-
     private async getMonsterStats(req: express.Request, res: express.Response): Promise<void> {
         try {
             const stats = this.monsterService.getStats();
@@ -348,6 +508,7 @@ class NightcrowsServer {
             const success = await this.itemService.addItemToInventory(characterId, itemId, quantity);
             
             if (success) {
+                this.logger.info(`GM ${(req as AuthenticatedRequest).user.username} granted ${quantity}x ${itemId} to character ${characterId}`);
                 res.json({
                     success: true,
                     message: 'Item added to inventory'
@@ -369,29 +530,25 @@ class NightcrowsServer {
 
     private async removeItemFromInventory(req: express.Request, res: express.Response): Promise<void> {
         try {
-            const { characterId, itemId, quantity = 1 } = req.body;
+            const { characterId, instanceId, quantity = 1 } = req.body;
             
-            if (!characterId || !itemId) {
+            if (!characterId || !instanceId) {
                 res.status(400).json({
                     success: false,
-                    message: 'Character ID and item ID are required'
+                    message: 'Character ID and instance ID are required'
                 });
                 return;
             }
 
-            const success = await this.itemService.removeItemFromInventory(characterId, itemId, quantity);
-            
-            if (success) {
-                res.json({
-                    success: true,
-                    message: 'Item removed from inventory'
-                });
-            } else {
+            if (!Number.isInteger(quantity) || quantity <= 0) {
                 res.status(400).json({
                     success: false,
-                    message: 'Failed to remove item from inventory'
+                    message: 'Quantity must be a positive integer'
                 });
+                return;
             }
+
+            this.sendInventoryResult(res, await this.itemService.discardItem(characterId, instanceId, quantity));
         } catch (error) {
             this.logger.error('Remove item from inventory error:', error);
             res.status(500).json({
@@ -403,27 +560,28 @@ class NightcrowsServer {
 
     private async equipItem(req: express.Request, res: express.Response): Promise<void> {
         try {
-            const { characterId, itemId, slot } = req.body;
+            const { characterId, instanceId, slot } = req.body;
             
-            if (!characterId || !itemId || !slot) {
+            if (!characterId || !instanceId || !slot) {
                 res.status(400).json({
                     success: false,
-                    message: 'Character ID, item ID, and slot are required'
+                    message: 'Character ID, instance ID, and slot are required'
                 });
                 return;
             }
 
-            const success = await this.itemService.equipItem(characterId, itemId, slot);
+            const result = await this.itemService.equipItem(characterId, instanceId, slot);
             
-            if (success) {
+            if (result.success) {
                 res.json({
                     success: true,
-                    message: 'Item equipped'
+                    message: result.message
                 });
             } else {
                 res.status(400).json({
                     success: false,
-                    message: 'Failed to equip item'
+                    reason: result.reason,
+                    message: result.message
                 });
             }
         } catch (error) {
@@ -435,31 +593,207 @@ class NightcrowsServer {
         }
     }
 
+    private async unequipItem(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const { characterId, instanceId } = req.body;
+            
+            if (!characterId || !instanceId) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Character ID and instance ID are required'
+                });
+                return;
+            }
+
+            this.sendInventoryResult(res, await this.itemService.unequipItem(characterId, instanceId));
+        } catch (error) {
+            this.logger.error('Unequip item error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to unequip item'
+            });
+        }
+    }
+
+    private async moveItem(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const { characterId, instanceId, position } = req.body;
+            
+            if (!characterId || !instanceId || position === undefined) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Character ID, instance ID, and position are required'
+                });
+                return;
+            }
+
+            this.sendInventoryResult(res, await this.itemService.moveItem(characterId, instanceId, position));
+        } catch (error) {
+            this.logger.error('Move item error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to move item'
+            });
+        }
+    }
+
+    private async swapItems(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const { characterId, instanceId, targetInstanceId } = req.body;
+            
+            if (!characterId || !instanceId || !targetInstanceId) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Character ID and both instance IDs are required'
+                });
+                return;
+            }
+
+            this.sendInventoryResult(res, await this.itemService.swapItems(characterId, instanceId, targetInstanceId));
+        } catch (error) {
+            this.logger.error('Swap items error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to swap items'
+            });
+        }
+    }
+
+    private async splitStack(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const { characterId, instanceId, quantity, position } = req.body;
+            
+            if (!characterId || !instanceId || quantity === undefined) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Character ID, instance ID, and quantity are required'
+                });
+                return;
+            }
+
+            this.sendInventoryResult(res, await this.itemService.splitStack(characterId, instanceId, quantity, position));
+        } catch (error) {
+            this.logger.error('Split stack error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to split stack'
+            });
+        }
+    }
+
+    private async mergeStack(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const { characterId, instanceId, targetInstanceId } = req.body;
+            
+            if (!characterId || !instanceId || !targetInstanceId) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Character ID and both instance IDs are required'
+                });
+                return;
+            }
+
+            this.sendInventoryResult(res, await this.itemService.mergeStack(characterId, instanceId, targetInstanceId));
+        } catch (error) {
+            this.logger.error('Merge stacks error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to merge stacks'
+            });
+        }
+    }
+
+    private sendInventoryResult(res: express.Response, result: InventoryResult): void {
+        if (result.success) {
+            res.json({
+                success: true,
+                message: result.message
+            });
+        } else {
+            res.status(400).json({
+                success: false,
+                reason: result.reason,
+                message: result.message
+            });
+        }
+    }
+
+    private async useItem(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const { characterId, instanceId } = req.body;
+            
+            if (!characterId || !instanceId) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Character ID and instance ID are required'
+                });
+                return;
+            }
+
+            const result = await this.consumableService.useItem(characterId, instanceId);
+            
+            if (result.success) {
+                // Teleport scrolls move the character
+                this.tradeService.handleMovement(characterId);
+
+                res.json({
+                    success: true,
+                    data: {
+                        itemId: result.itemId,
+                        cooldownUntil: result.cooldownUntil
+                    },
+                    message: result.message
+                });
+            } else {
+                res.status(result.reason === 'on_cooldown' ? 429 : 400).json({
+                    success: false,
+                    reason: result.reason,
+                    message: result.message,
+                    cooldownUntil: result.cooldownUntil
+                });
+            }
+        } catch (error) {
+            this.logger.error('Use item error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to use item'
+            });
+        }
+    }
+
     private async enhanceItem(req: express.Request, res: express.Response): Promise<void> {
         try {
-            const { characterId, itemId } = req.body;
+            const { characterId, instanceId, protection, blessing } = req.body;
             
-            if (!characterId || !itemId) {
+            if (!characterId || !instanceId) {
                 res.status(400).json({
                     success: false,
-                    message: 'Character ID and item ID are required'
+                    message: 'Character ID and instance ID are required'
                 });
                 return;
             }
 
-            const result = await this.itemService.enhanceItem(characterId, itemId);
+            const result = await this.itemService.enhanceItem(characterId, instanceId, {
+                protection: !!protection,
+                blessing: !!blessing
+            });
             
             if (result.success) {
                 res.json({
                     success: true,
                     data: {
+                        outcome: result.outcome,
                         newLevel: result.newLevel,
                         message: result.message
                     }
                 });
             } else {
+                // outcome is only set when an attempt was made and its costs paid
                 res.status(400).json({
                     success: false,
+                    reason: result.reason,
+                    outcome: result.outcome,
+                    newLevel: result.newLevel,
                     message: result.message
                 });
             }
@@ -472,63 +806,1037 @@ class NightcrowsServer {
         }
     }
 
-    private async updatePlayerGold(req: express.Request, res: express.Response): Promise<void> {
+    private async bulkEnhanceItem(req: express.Request, res: express.Response): Promise<void> {
         try {
-            const { characterId, amount } = req.body;
+            const { characterId, instanceId, targetLevel, protection, blessing } = req.body;
             
-            if (!characterId || amount === undefined) {
+            if (!characterId || !instanceId || typeof targetLevel !== 'number') {
                 res.status(400).json({
                     success: false,
-                    message: 'Character ID and amount are required'
+                    message: 'Character ID, instance ID, and target level are required'
                 });
                 return;
             }
 
-            const success = await this.itemService.updateGold(characterId, amount);
+            const result = await this.itemService.enhanceUntil(characterId, instanceId, targetLevel, {
+                protection: !!protection,
+                blessing: !!blessing
+            });
             
-            if (success) {
-                res.json({
-                    success: true,
-                    message: 'Gold updated successfully'
-                });
-            } else {
+            // Attempts may have been paid for even when the target wasn't reached
+            res.status(result.attempts.length > 0 || result.success ? 200 : 400).json({
+                success: result.success,
+                reason: result.reason,
+                data: {
+                    startLevel: result.startLevel,
+                    finalLevel: result.finalLevel,
+                    attempts: result.attempts
+                },
+                message: result.message
+            });
+        } catch (error) {
+            this.logger.error('Bulk enhance item error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to enhance item'
+            });
+        }
+    }
+
+    private async previewEnhancement(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const { characterId, instanceId, protection, blessing } = req.body;
+            
+            if (!characterId || !instanceId) {
                 res.status(400).json({
                     success: false,
-                    message: 'Failed to update gold'
+                    message: 'Character ID and instance ID are required'
+                });
+                return;
+            }
+
+            const preview = await this.itemService.previewEnhancement(characterId, instanceId, {
+                protection: !!protection,
+                blessing: !!blessing
+            });
+            
+            if (!preview) {
+                res.status(404).json({
+                    success: false,
+                    message: 'Enhanceable item not found in inventory'
                 });
+                return;
             }
+
+            res.json({
+                success: true,
+                data: preview
+            });
         } catch (error) {
-            this.logger.error('Update gold error:', error);
+            this.logger.error('Preview enhancement error:', error);
             res.status(500).json({
                 success: false,
-                message: 'Failed to update gold'
+                message: 'Failed to preview enhancement'
             });
         }
     }
 
-    private async getPlayerEquipment(req: express.Request, res: express.Response): Promise<void> {
+    private async rerollItem(req: express.Request, res: express.Response): Promise<void> {
         try {
-            const characterId = parseInt(req.params.characterId);
+            const { characterId, instanceId, target } = req.body;
             
-            if (isNaN(characterId)) {
+            if (!characterId || !instanceId || !target) {
                 res.status(400).json({
                     success: false,
-                    message: 'Invalid character ID'
+                    message: 'Character ID, instance ID and target are required'
                 });
                 return;
             }
 
-            const equipment = await this.itemService.getPlayerEquipment(characterId);
+            const result = await this.itemService.rerollItem(characterId, instanceId, target);
             
-            res.json({
-                success: true,
-                data: equipment
-            });
+            if (result.success) {
+                res.json({
+                    success: true,
+                    data: { item: result.item },
+                    message: result.message
+                });
+            } else {
+                res.status(result.reason === 'item_not_found' ? 404 : 400).json({
+                    success: false,
+                    reason: result.reason,
+                    message: result.message
+                });
+            }
         } catch (error) {
-            this.logger.error('Get player equipment error:', error);
+            this.logger.error('Reroll item error:', error);
             res.status(500).json({
                 success: false,
-                message: 'Failed to retrieve equipment'
+                message: 'Failed to reroll item'
+            });
+        }
+    }
+
+    private async lockItem(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const { characterId, instanceId, locked } = req.body;
+            
+            if (!characterId || !instanceId || typeof locked !== 'boolean') {
+                res.status(400).json({
+                    success: false,
+                    message: 'Character ID, instance ID and locked are required'
+                });
+                return;
+            }
+
+            this.sendInventoryResult(res, await this.itemService.setItemLocked(characterId, instanceId, locked));
+        } catch (error) {
+            this.logger.error('Lock item error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to lock item'
+            });
+        }
+    }
+
+    private async salvageItems(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const { characterId, instanceIds } = req.body;
+            
+            if (!characterId || !Array.isArray(instanceIds)) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Character ID and instance IDs are required'
+                });
+                return;
+            }
+
+            this.sendSalvageResult(res, await this.salvageService.salvage(characterId, instanceIds));
+        } catch (error) {
+            this.logger.error('Salvage error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to salvage items'
+            });
+        }
+    }
+
+    private async salvageAllItems(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const { characterId, rarity } = req.body;
+            
+            if (!characterId || !rarity) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Character ID and rarity are required'
+                });
+                return;
+            }
+
+            this.sendSalvageResult(res, await this.salvageService.salvageAll(characterId, rarity));
+        } catch (error) {
+            this.logger.error('Salvage all error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to salvage items'
+            });
+        }
+    }
+
+    private async previewSalvage(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const { characterId, instanceId } = req.body;
+            
+            if (!characterId || !instanceId) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Character ID and instance ID are required'
+                });
+                return;
+            }
+
+            const preview = await this.salvageService.previewSalvage(characterId, instanceId);
+            
+            if (!preview) {
+                res.status(404).json({
+                    success: false,
+                    message: 'Salvageable item not found in inventory'
+                });
+                return;
+            }
+
+            res.json({
+                success: true,
+                data: preview
+            });
+        } catch (error) {
+            this.logger.error('Preview salvage error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to preview salvage'
+            });
+        }
+    }
+
+    private sendSalvageResult(res: express.Response, result: SalvageResult): void {
+        if (result.success) {
+            res.json({
+                success: true,
+                data: { salvaged: result.salvaged, materials: result.materials },
+                message: result.message
+            });
+        } else {
+            res.status(400).json({
+                success: false,
+                reason: result.reason,
+                message: result.message
+            });
+        }
+    }
+
+    private async updatePlayerGold(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const { characterId, amount } = req.body;
+            
+            if (!characterId || amount === undefined) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Character ID and amount are required'
+                });
+                return;
+            }
+
+            const success = await this.itemService.updateGold(characterId, amount);
+            
+            if (success) {
+                this.logger.info(`GM ${(req as AuthenticatedRequest).user.username} changed gold of character ${characterId} by ${amount}`);
+                res.json({
+                    success: true,
+                    message: 'Gold updated successfully'
+                });
+            } else {
+                res.status(400).json({
+                    success: false,
+                    message: 'Failed to update gold'
+                });
+            }
+        } catch (error) {
+            this.logger.error('Update gold error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to update gold'
+            });
+        }
+    }
+
+    private async getPlayerEquipment(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const characterId = parseInt(req.params.characterId);
+            
+            if (isNaN(characterId)) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Invalid character ID'
+                });
+                return;
+            }
+
+            const equipment = await this.itemService.getPlayerEquipment(characterId);
+            
+            res.json({
+                success: true,
+                data: equipment
+            });
+        } catch (error) {
+            this.logger.error('Get player equipment error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to retrieve equipment'
+            });
+        }
+    }
+
+    // NPC shop API methods
+    private async getNpcs(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const mapId = parseInt(req.params.mapId);
+            
+            if (isNaN(mapId)) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Invalid map ID'
+                });
+                return;
+            }
+
+            res.json({
+                success: true,
+                data: {
+                    vendors: this.shopService.getVendorsOnMap(mapId).map(vendor => this.shopService.getVendorPublicData(vendor)),
+                    bankers: this.bankService.getBankersOnMap(mapId).map(banker => this.bankService.getBankerPublicData(banker)),
+                    craftingStations: this.craftingService.getStationsOnMap(mapId).map(station => this.craftingService.getStationPublicData(station))
+                }
+            });
+        } catch (error) {
+            this.logger.error('Get NPCs error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to retrieve NPCs'
+            });
+        }
+    }
+
+    private async getShop(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const characterId = parseInt(req.query.characterId as string);
+            
+            if (isNaN(characterId)) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Invalid character ID'
+                });
+                return;
+            }
+
+            const shop = this.shopService.getShopView(req.params.vendorId, characterId);
+            
+            if (!shop) {
+                res.status(404).json({
+                    success: false,
+                    message: 'Vendor not found'
+                });
+                return;
+            }
+
+            res.json({
+                success: true,
+                data: shop
+            });
+        } catch (error) {
+            this.logger.error('Get shop error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to retrieve shop'
+            });
+        }
+    }
+
+    private async buyFromShop(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const { characterId, vendorId, itemId, quantity } = req.body;
+            
+            if (!characterId || !vendorId || !itemId) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Character ID, vendor ID and item ID are required'
+                });
+                return;
+            }
+
+            this.sendShopResult(res, await this.shopService.buyItem(characterId, vendorId, itemId, quantity ?? 1));
+        } catch (error) {
+            this.logger.error('Shop buy error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to buy item'
+            });
+        }
+    }
+
+    private async sellToShop(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const { characterId, vendorId, instanceId, quantity } = req.body;
+            
+            if (!characterId || !vendorId || !instanceId) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Character ID, vendor ID and instance ID are required'
+                });
+                return;
+            }
+
+            this.sendShopResult(res, await this.shopService.sellItem(characterId, vendorId, instanceId, quantity ?? 1));
+        } catch (error) {
+            this.logger.error('Shop sell error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to sell item'
+            });
+        }
+    }
+
+    private async buyBackFromShop(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const { characterId, vendorId, buybackId } = req.body;
+            
+            if (!characterId || !vendorId || !buybackId) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Character ID, vendor ID and buyback ID are required'
+                });
+                return;
+            }
+
+            this.sendShopResult(res, await this.shopService.buyBack(characterId, vendorId, buybackId));
+        } catch (error) {
+            this.logger.error('Shop buyback error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to buy back item'
+            });
+        }
+    }
+
+    private sendShopResult(res: express.Response, result: ShopResult): void {
+        if (result.success) {
+            res.json({
+                success: true,
+                data: { gold: result.gold },
+                message: result.message
+            });
+        } else {
+            res.status(result.reason === 'vendor_not_found' ? 404 : 400).json({
+                success: false,
+                reason: result.reason,
+                message: result.message
+            });
+        }
+    }
+
+    // Bank API methods
+    private async getBank(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const characterId = parseInt(req.params.characterId);
+            const bankerId = req.query.bankerId as string;
+            
+            if (isNaN(characterId) || !bankerId) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Character ID and banker ID are required'
+                });
+                return;
+            }
+
+            this.sendBankResult(res, await this.bankService.openBank(characterId, bankerId));
+        } catch (error) {
+            this.logger.error('Get bank error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to retrieve bank'
+            });
+        }
+    }
+
+    private async depositToBank(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const { characterId, bankerId, instanceId, quantity, tab } = req.body;
+            
+            if (!characterId || !bankerId || !instanceId) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Character ID, banker ID and instance ID are required'
+                });
+                return;
+            }
+
+            this.sendBankResult(res, await this.bankService.deposit(characterId, bankerId, instanceId, quantity ?? 1, tab ?? undefined));
+        } catch (error) {
+            this.logger.error('Bank deposit error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to deposit item'
+            });
+        }
+    }
+
+    private async withdrawFromBank(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const { characterId, bankerId, instanceId, quantity } = req.body;
+            
+            if (!characterId || !bankerId || !instanceId) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Character ID, banker ID and instance ID are required'
+                });
+                return;
+            }
+
+            this.sendBankResult(res, await this.bankService.withdraw(characterId, bankerId, instanceId, quantity ?? 1));
+        } catch (error) {
+            this.logger.error('Bank withdraw error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to withdraw item'
+            });
+        }
+    }
+
+    private async depositGoldToBank(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const { characterId, bankerId, amount } = req.body;
+            
+            if (!characterId || !bankerId || amount === undefined) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Character ID, banker ID and amount are required'
+                });
+                return;
+            }
+
+            this.sendBankResult(res, await this.bankService.depositGold(characterId, bankerId, amount));
+        } catch (error) {
+            this.logger.error('Bank gold deposit error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to deposit gold'
+            });
+        }
+    }
+
+    private async withdrawGoldFromBank(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const { characterId, bankerId, amount } = req.body;
+            
+            if (!characterId || !bankerId || amount === undefined) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Character ID, banker ID and amount are required'
+                });
+                return;
+            }
+
+            this.sendBankResult(res, await this.bankService.withdrawGold(characterId, bankerId, amount));
+        } catch (error) {
+            this.logger.error('Bank gold withdraw error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to withdraw gold'
+            });
+        }
+    }
+
+    private async buyBankTab(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const { characterId, bankerId } = req.body;
+            
+            if (!characterId || !bankerId) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Character ID and banker ID are required'
+                });
+                return;
+            }
+
+            this.sendBankResult(res, await this.bankService.buyTab(characterId, bankerId));
+        } catch (error) {
+            this.logger.error('Bank tab purchase error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to buy bank tab'
+            });
+        }
+    }
+
+    private sendBankResult(res: express.Response, result: BankResult): void {
+        if (result.success) {
+            res.json({
+                success: true,
+                data: { bank: result.bank, gold: result.gold },
+                message: result.message
+            });
+        } else {
+            res.status(result.reason === 'banker_not_found' ? 404 : 400).json({
+                success: false,
+                reason: result.reason,
+                message: result.message
+            });
+        }
+    }
+
+    // Crafting API methods
+    private async getRecipes(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            res.json({
+                success: true,
+                data: this.craftingService.getRecipes()
+            });
+        } catch (error) {
+            this.logger.error('Get recipes error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to retrieve recipes'
+            });
+        }
+    }
+
+    private async getCraftingSkill(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const characterId = parseInt(req.params.characterId);
+            const character = await this.dbService.getCharacterById(characterId);
+            
+            if (!character) {
+                res.status(404).json({
+                    success: false,
+                    message: 'Character not found'
+                });
+                return;
+            }
+
+            res.json({
+                success: true,
+                data: this.craftingService.getSkill(character)
+            });
+        } catch (error) {
+            this.logger.error('Get crafting skill error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to retrieve crafting skill'
+            });
+        }
+    }
+
+    private async craftItem(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const { characterId, stationId, recipeId, count } = req.body;
+            
+            if (!characterId || !stationId || !recipeId) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Character ID, station ID and recipe ID are required'
+                });
+                return;
+            }
+
+            const result = await this.craftingService.craft(characterId, stationId, recipeId, count ?? 1);
+
+            if (result.success) {
+                res.json({
+                    success: true,
+                    data: {
+                        crafted: result.crafted,
+                        experienceGained: result.experienceGained,
+                        skill: result.skill,
+                        gold: result.gold
+                    },
+                    message: result.message
+                });
+            } else {
+                res.status(result.reason === 'station_not_found' || result.reason === 'recipe_not_found' ? 404 : 400).json({
+                    success: false,
+                    reason: result.reason,
+                    message: result.message
+                });
+            }
+        } catch (error) {
+            this.logger.error('Craft error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to craft item'
+            });
+        }
+    }
+
+    // Trade API methods
+    private async getTradeHistory(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const characterId = parseInt(req.params.characterId);
+            
+            if (isNaN(characterId)) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Invalid character ID'
+                });
+                return;
+            }
+
+            const trades = await this.tradeService.getTradeHistory(characterId);
+            
+            res.json({
+                success: true,
+                data: trades.map(trade => ({
+                    ...trade,
+                    items_a: JSON.parse(trade.items_a),
+                    items_b: JSON.parse(trade.items_b)
+                }))
+            });
+        } catch (error) {
+            this.logger.error('Get trade history error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to retrieve trade history'
+            });
+        }
+    }
+
+    // Marketplace API methods
+    private async searchMarket(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const number = (value: unknown) => value === undefined || value === '' ? undefined : Number(value);
+            const query: MarketQuery = {
+                name: req.query.name as string | undefined,
+                type: req.query.type as MarketQuery['type'],
+                rarity: req.query.rarity as MarketQuery['rarity'],
+                minLevel: number(req.query.minLevel),
+                maxLevel: number(req.query.maxLevel),
+                minEnhancement: number(req.query.minEnhancement),
+                maxEnhancement: number(req.query.maxEnhancement),
+                sort: req.query.sort as MarketQuery['sort'],
+                order: req.query.order as MarketQuery['order'],
+                page: number(req.query.page),
+                pageSize: number(req.query.pageSize)
+            };
+
+            res.json({
+                success: true,
+                data: await this.marketService.searchListings(query)
+            });
+        } catch (error) {
+            this.logger.error('Search market error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to search the market'
+            });
+        }
+    }
+
+    private async getMarketListings(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const characterId = parseInt(req.params.characterId);
+
+            res.json({
+                success: true,
+                data: await this.marketService.getSellerListings(characterId)
+            });
+        } catch (error) {
+            this.logger.error('Get market listings error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to retrieve listings'
+            });
+        }
+    }
+
+    private async listMarketItem(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const { characterId, instanceId, quantity, price, durationHours } = req.body;
+            
+            if (!characterId || !instanceId || price === undefined || durationHours === undefined) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Character ID, instance ID, price and duration are required'
+                });
+                return;
+            }
+
+            this.sendMarketResult(res, await this.marketService.listItem(characterId, instanceId, quantity ?? 1, price, durationHours));
+        } catch (error) {
+            this.logger.error('Market list error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to list item'
+            });
+        }
+    }
+
+    private async buyMarketListing(req: express.Request, res: express.Response): Promise<void> {
+        await this.handleMarketListingAction(req, res, 'buy', listing => this.marketService.buyListing(req.body.characterId, listing));
+    }
+
+    private async cancelMarketListing(req: express.Request, res: express.Response): Promise<void> {
+        await this.handleMarketListingAction(req, res, 'cancel', listing => this.marketService.cancelListing(req.body.characterId, listing));
+    }
+
+    private async claimMarketListing(req: express.Request, res: express.Response): Promise<void> {
+        await this.handleMarketListingAction(req, res, 'claim', listing => this.marketService.claimListing(req.body.characterId, listing));
+    }
+
+    private async handleMarketListingAction(
+        req: express.Request,
+        res: express.Response,
+        action: string,
+        run: (listingId: number) => Promise<MarketResult>
+    ): Promise<void> {
+        try {
+            const listingId = parseInt(req.body.listingId);
+            
+            if (!req.body.characterId || isNaN(listingId)) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Character ID and listing ID are required'
+                });
+                return;
+            }
+
+            this.sendMarketResult(res, await run(listingId));
+        } catch (error) {
+            this.logger.error(`Market ${action} error:`, error);
+            res.status(500).json({
+                success: false,
+                message: `Failed to ${action} listing`
+            });
+        }
+    }
+
+    private sendMarketResult(res: express.Response, result: MarketResult): void {
+        if (result.success) {
+            res.json({
+                success: true,
+                data: { listingId: result.listingId, gold: result.gold },
+                message: result.message
+            });
+        } else {
+            res.status(result.reason === 'listing_not_found' ? 404 : 400).json({
+                success: false,
+                reason: result.reason,
+                message: result.message
+            });
+        }
+    }
+
+    // Mail API methods
+    private async getMailbox(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const characterId = parseInt(req.params.characterId);
+
+            res.json({
+                success: true,
+                data: await this.mailService.getMailbox(characterId)
+            });
+        } catch (error) {
+            this.logger.error('Get mailbox error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to retrieve mail'
+            });
+        }
+    }
+
+    private async sendMail(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const { characterId, recipientName, subject, body, attachments, gold, codAmount } = req.body;
+            
+            if (!characterId || !recipientName || !subject) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Character ID, recipient and subject are required'
+                });
+                return;
+            }
+
+            if (attachments !== undefined && !Array.isArray(attachments)) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Attachments must be a list'
+                });
+                return;
+            }
+
+            this.sendMailResult(res, await this.mailService.sendMail(characterId, {
+                recipientName, subject, body, attachments, gold, codAmount
+            }));
+        } catch (error) {
+            this.logger.error('Send mail error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to send mail'
+            });
+        }
+    }
+
+    private async readMail(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const { characterId } = req.body;
+            const mailId = parseInt(req.body.mailId);
+            
+            if (!characterId || isNaN(mailId)) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Character ID and mail ID are required'
+                });
+                return;
+            }
+
+            const mail = await this.mailService.readMail(characterId, mailId);
+            
+            if (!mail) {
+                res.status(404).json({
+                    success: false,
+                    message: 'Mail not found'
+                });
+                return;
+            }
+
+            res.json({
+                success: true,
+                data: mail
+            });
+        } catch (error) {
+            this.logger.error('Read mail error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to read mail'
+            });
+        }
+    }
+
+    private async claimMail(req: express.Request, res: express.Response): Promise<void> {
+        await this.handleMailAction(req, res, 'claim', mailId => this.mailService.claimAttachments(req.body.characterId, mailId));
+    }
+
+    private async returnMail(req: express.Request, res: express.Response): Promise<void> {
+        await this.handleMailAction(req, res, 'return', mailId => this.mailService.returnMail(req.body.characterId, mailId));
+    }
+
+    private async deleteMail(req: express.Request, res: express.Response): Promise<void> {
+        await this.handleMailAction(req, res, 'delete', mailId => this.mailService.deleteMail(req.body.characterId, mailId));
+    }
+
+    private async handleMailAction(
+        req: express.Request,
+        res: express.Response,
+        action: string,
+        run: (mailId: number) => Promise<MailResult>
+    ): Promise<void> {
+        try {
+            const mailId = parseInt(req.body.mailId);
+            
+            if (!req.body.characterId || isNaN(mailId)) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Character ID and mail ID are required'
+                });
+                return;
+            }
+
+            this.sendMailResult(res, await run(mailId));
+        } catch (error) {
+            this.logger.error(`Mail ${action} error:`, error);
+            res.status(500).json({
+                success: false,
+                message: `Failed to ${action} mail`
+            });
+        }
+    }
+
+    // GM compensation: fresh items and gold from nowhere
+    private async sendSystemMail(req: express.Request, res: express.Response): Promise<void> {
+        try {
+            const { recipientId, subject, body, items = [], gold = 0 } = req.body;
+            
+            if (!recipientId || !subject || !Array.isArray(items)) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Recipient ID and subject are required'
+                });
+                return;
+            }
+
+            if (!Number.isInteger(gold) || gold < 0) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Invalid gold amount'
+                });
+                return;
+            }
+
+            if (!await this.dbService.getCharacterById(recipientId)) {
+                res.status(404).json({
+                    success: false,
+                    message: 'Character not found'
+                });
+                return;
+            }
+
+            const instances: InventoryItem[] = [];
+            for (const { itemId, quantity = 1 } of items) {
+                const created = this.itemService.createInstances(itemId, quantity);
+                if (!created) {
+                    res.status(400).json({
+                        success: false,
+                        message: `Invalid item ${itemId}`
+                    });
+                    return;
+                }
+                instances.push(...created);
+            }
+
+            const mailId = await this.mailService.sendSystemMail({
+                recipientId,
+                senderName: 'Game Master',
+                subject,
+                body,
+                items: instances,
+                gold
+            });
+
+            this.logger.info(`GM ${(req as AuthenticatedRequest).user.username} mailed ${instances.length} item stacks and ${gold} gold to character ${recipientId}`);
+
+            res.json({
+                success: true,
+                data: { mailId },
+                message: 'System mail sent'
+            });
+        } catch (error) {
+            this.logger.error('Send system mail error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to send system mail'
+            });
+        }
+    }
+
+    private sendMailResult(res: express.Response, result: MailResult): void {
+        if (result.success) {
+            res.json({
+                success: true,
+                data: { mailId: result.mailId, gold: result.gold },
+                message: result.message
+            });
+        } else {
+            res.status(result.reason === 'mail_not_found' || result.reason === 'recipient_not_found' ? 404 : 400).json({
+                success: false,
+                reason: result.reason,
+                message: result.message
             });
         }
     }
@@ -1,7 +1,7 @@
 import { Request, Response } from 'express';
 import * as bcrypt from 'bcrypt';
 import jwt, { SignOptions } from 'jsonwebtoken';
-import { IDatabaseService } from '../database/IDatabaseService';
+import { IDatabaseService, UserRole } from '../database/IDatabaseService';
 import { Logger } from '../utils/Logger';
 
 export interface JWTPayload {
@@ -11,10 +11,37 @@ export interface JWTPayload {
     exp?: number;
 }
 
+// Attached to req.user by verifyTokenMiddleware
+export interface AuthenticatedUser {
+    id: number;
+    username: string;
+    email: string;
+    role: UserRole;
+}
+
+// Request type for handlers that run after verifyTokenMiddleware
+export interface AuthenticatedRequest extends Request {
+    user: AuthenticatedUser;
+}
+
+export type AuthFailureReason =
+    | 'missing_token'
+    | 'invalid_token'
+    | 'token_expired'
+    | 'token_revoked'
+    | 'user_mismatch'
+    | 'user_not_found'
+    | 'not_authenticated';
+
+export type TokenAuthResult =
+    | { success: true; payload: JWTPayload }
+    | { success: false; reason: AuthFailureReason; message: string };
+
 export class AuthService {
     private db: IDatabaseService;
     private logger: Logger;
     private jwtSecret: string;
+    private revokedTokens: Map<string, number> = new Map(); // token -> expiry (ms)
 
     constructor(databaseService: IDatabaseService) {
         this.db = databaseService;
@@ -212,6 +239,46 @@ export class AuthService {
         }
     }
 
+    public async logout(req: Request, res: Response): Promise<void> {
+        try {
+            const authHeader = req.headers.authorization;
+            const token = authHeader && authHeader.split(' ')[1];
+
+            if (!token) {
+                res.status(401).json({ 
+                    success: false, 
+                    message: 'Access token required' 
+                });
+                return;
+            }
+
+            const result = await this.authenticateToken(token);
+            if (!result.success) {
+                res.status(401).json({ 
+                    success: false, 
+                    reason: result.reason,
+                    message: result.message 
+                });
+                return;
+            }
+
+            this.revokeToken(token);
+            this.logger.info(`User logged out: ${result.payload.username} (ID: ${result.payload.userId})`);
+
+            res.json({
+                success: true,
+                message: 'Logged out successfully'
+            });
+
+        } catch (error) {
+            this.logger.error('Logout error:', error);
+            res.status(500).json({ 
+                success: false, 
+                message: 'Internal server error during logout' 
+            });
+        }
+    }
+
     public verifyTokenMiddleware = async (req: any, res: Response, next: any): Promise<void> => {
         try {
             const authHeader = req.headers.authorization;
@@ -225,6 +292,14 @@ export class AuthService {
                 return;
             }
 
+            if (this.isTokenRevoked(token)) {
+                res.status(401).json({ 
+                    success: false, 
+                    message: 'Token has been revoked' 
+                });
+                return;
+            }
+
             const decoded = jwt.verify(token, this.jwtSecret) as JWTPayload;
             const user = await this.db.getUserById(decoded.userId);
             
@@ -240,8 +315,9 @@ export class AuthService {
             req.user = {
                 id: user.id,
                 username: user.username,
-                email: user.email
-            };
+                email: user.email,
+                role: user.role || 'player'
+            } as AuthenticatedUser;
 
             next();
 
@@ -262,6 +338,86 @@ export class AuthService {
         }
     };
 
+    // Must run after verifyTokenMiddleware
+    public requireGmMiddleware = (req: any, res: Response, next: any): void => {
+        const user = req.user as AuthenticatedUser | undefined;
+
+        if (!user || user.role !== 'gm') {
+            res.status(403).json({ 
+                success: false, 
+                message: 'GM access required' 
+            });
+            return;
+        }
+
+        next();
+    };
+
+    /**
+     * Must run after verifyTokenMiddleware. Rejects requests for characters
+     * that don't belong to req.user; the character ID is read from the route
+     * params, then the body, then the query string, and written back there as
+     * a number so handlers act on the character that was checked. GMs may act
+     * on any character.
+     */
+    public requireCharacterOwnerMiddleware = async (req: any, res: Response, next: any): Promise<void> => {
+        try {
+            const user = req.user as AuthenticatedUser | undefined;
+            if (!user) {
+                res.status(401).json({ 
+                    success: false, 
+                    message: 'Access token required' 
+                });
+                return;
+            }
+
+            const source = [req.params, req.body, req.query].find(values => values?.characterId != null);
+            // Only plain digits, so "5e1" can't pass as 5 here and act on character 50 in MySQL
+            if (!source || !/^\d+$/.test(String(source.characterId))) {
+                res.status(400).json({ 
+                    success: false, 
+                    message: 'Invalid character ID' 
+                });
+                return;
+            }
+
+            const characterId = parseInt(source.characterId, 10);
+            source.characterId = characterId;
+
+            if (user.role === 'gm') {
+                next();
+                return;
+            }
+
+            const character = await this.db.getCharacterById(characterId);
+            if (!character) {
+                res.status(404).json({ 
+                    success: false, 
+                    message: 'Character not found' 
+                });
+                return;
+            }
+
+            if (character.user_id !== user.id) {
+                this.logger.warn(`User ${user.username} (ID: ${user.id}) tried to access character ${characterId}`);
+                res.status(403).json({ 
+                    success: false, 
+                    message: 'Character does not belong to you' 
+                });
+                return;
+            }
+
+            next();
+
+        } catch (error) {
+            this.logger.error('Character ownership check error:', error);
+            res.status(500).json({ 
+                success: false, 
+                message: 'Internal server error' 
+            });
+        }
+    };
+
     private generateToken(userId: number, username: string): string {
         const payload = { userId, username };
         return jwt.sign(payload, this.jwtSecret, { expiresIn: '24h' });
@@ -274,4 +430,68 @@ export class AuthService {
             return null;
         }
     }
+
+    /**
+     * Full validation used by the WebSocket handshake: signature, expiry,
+     * revocation, the optional claimed user ID and that the user still exists.
+     */
+    public async authenticateToken(token: string | undefined, expectedUserId?: number): Promise<TokenAuthResult> {
+        if (!token) {
+            return { success: false, reason: 'missing_token', message: 'Access token required' };
+        }
+
+        if (this.isTokenRevoked(token)) {
+            return { success: false, reason: 'token_revoked', message: 'Token has been revoked' };
+        }
+
+        const payload = this.decodeToken(token);
+        if (!payload) {
+            if (this.isTokenExpired(token)) {
+                return { success: false, reason: 'token_expired', message: 'Token has expired' };
+            }
+            return { success: false, reason: 'invalid_token', message: 'Invalid token' };
+        }
+
+        if (expectedUserId !== undefined && Number(expectedUserId) !== payload.userId) {
+            return { success: false, reason: 'user_mismatch', message: 'Token does not belong to this user' };
+        }
+
+        const user = await this.db.getUserById(payload.userId);
+        if (!user) {
+            return { success: false, reason: 'user_not_found', message: 'Invalid token - user not found' };
+        }
+
+        return { success: true, payload };
+    }
+
+    public revokeToken(token: string): void {
+        const decoded = jwt.decode(token) as JWTPayload | null;
+        const expiresAt = decoded?.exp ? decoded.exp * 1000 : Date.now() + 24 * 60 * 60 * 1000;
+        this.revokedTokens.set(token, expiresAt);
+        this.pruneRevokedTokens();
+    }
+
+    public isTokenRevoked(token: string): boolean {
+        return this.revokedTokens.has(token);
+    }
+
+    private isTokenExpired(token: string): boolean {
+        try {
+            // Signature must still be valid, otherwise the token is simply invalid
+            const decoded = jwt.verify(token, this.jwtSecret, { ignoreExpiration: true }) as JWTPayload;
+            return decoded.exp !== undefined && decoded.exp * 1000 <= Date.now();
+        } catch (error) {
+            return false;
+        }
+    }
+
+    private pruneRevokedTokens(): void {
+        // Expired tokens are rejected anyway, no need to remember them
+        const now = Date.now();
+        this.revokedTokens.forEach((expiresAt, token) => {
+            if (expiresAt <= now) {
+                this.revokedTokens.delete(token);
+            }
+        });
+    }
 }
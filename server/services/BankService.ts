@@ -0,0 +1,385 @@
+import { IDatabaseService, BankStore, Character } from '../database/IDatabaseService';
+import { Logger } from '../utils/Logger';
+import { GameUtils, gameConfig } from '../game/GameUtils';
+import { PlayerManager } from '../game/PlayerManager';
+import { npcBankers, NpcBanker } from '../game/NpcData';
+import { ItemService, InventoryItem, ItemContainer, PlayerInventory } from './ItemService';
+
+export type BankFailureReason =
+    | 'character_not_found'
+    | 'character_dead'
+    | 'banker_not_found'
+    | 'wrong_map'
+    | 'out_of_range'
+    | 'item_not_found'
+    | 'item_equipped'
+    | 'not_storable'
+    | 'invalid_quantity'
+    | 'invalid_tab'
+    | 'invalid_amount'
+    | 'insufficient_gold'
+    | 'bank_gold_full'
+    | 'bank_full'
+    | 'inventory_full'
+    | 'max_tabs';
+
+export interface BankView {
+    tabs: number;
+    slotsPerTab: number;
+    capacity: number;
+    gold: number;
+    items: InventoryItem[]; // tab is floor(position / slotsPerTab)
+    nextTabPrice: number | null; // null once every tab is bought
+}
+
+export interface BankResult {
+    success: boolean;
+    reason?: BankFailureReason;
+    message: string;
+    bank?: BankView;
+    gold?: number; // character's gold afterwards
+}
+
+// A loaded account bank; capacity covers every tab
+interface AccountBank extends ItemContainer {
+    userId: number;
+    tabs: number;
+    gold: number;
+}
+
+export class BankService {
+    private db: IDatabaseService;
+    private itemService: ItemService;
+    private playerManager: PlayerManager;
+    private logger: Logger;
+
+    constructor(databaseService: IDatabaseService, itemService: ItemService, playerManager: PlayerManager) {
+        this.db = databaseService;
+        this.itemService = itemService;
+        this.playerManager = playerManager;
+        this.logger = new Logger();
+
+        this.validateBankers();
+    }
+
+    public getBankersOnMap(mapId: number): NpcBanker[] {
+        return Object.values(npcBankers).filter(banker => banker.mapId === mapId);
+    }
+
+    public getBankerPublicData(banker: NpcBanker) {
+        return {
+            id: banker.id,
+            name: banker.name,
+            mapId: banker.mapId,
+            position: banker.position
+        };
+    }
+
+    public async openBank(characterId: number, bankerId: string): Promise<BankResult> {
+        const check = await this.checkBankerAccess(characterId, bankerId);
+        if (!('character' in check)) {
+            return check;
+        }
+
+        return this.mutateBank(check.character, (bank, inventory) => ({
+            success: true,
+            message: 'Bank opened',
+            bank: this.getBankView(bank),
+            gold: inventory.gold
+        }));
+    }
+
+    /**
+     * Moves quantity of an inventory instance into the bank, into the given
+     * tab if one is set. The instance keeps its enhancements.
+     */
+    public async deposit(characterId: number, bankerId: string, instanceId: string, quantity: number = 1, tab?: number): Promise<BankResult> {
+        const check = await this.checkBankerAccess(characterId, bankerId);
+        if (!('character' in check)) {
+            return check;
+        }
+
+        return this.mutateBank(check.character, (bank, inventory) => {
+            const inventoryItem = inventory.items.find(inv => inv.instanceId === instanceId);
+            const item = inventoryItem ? this.itemService.getItemById(inventoryItem.itemId) : null;
+            if (!inventoryItem || !item) {
+                return { success: false, reason: 'item_not_found', message: 'Item is not in your inventory' };
+            }
+
+            if (inventoryItem.equipped) {
+                return { success: false, reason: 'item_equipped', message: 'Unequip the item first' };
+            }
+
+            // The bank is shared between characters, quest items stay with theirs
+            if (item.type === 'quest') {
+                return { success: false, reason: 'not_storable', message: `${item.name} can't be stored` };
+            }
+
+            if (tab !== undefined && (!Number.isInteger(tab) || tab < 0 || tab >= bank.tabs)) {
+                return { success: false, reason: 'invalid_tab', message: 'Invalid bank tab' };
+            }
+
+            // Take from a copy so a full bank leaves the inventory untouched
+            const source: ItemContainer = { ...inventory, items: inventory.items.map(inv => ({ ...inv })) };
+            const taken = this.itemService.takeInstance(source, instanceId, quantity);
+            if (!taken) {
+                return { success: false, reason: 'invalid_quantity', message: 'Invalid quantity' };
+            }
+
+            if (!this.insertIntoBank(bank, taken, tab)) {
+                return { success: false, reason: 'bank_full', message: tab === undefined ? 'Your bank is full' : 'That bank tab is full' };
+            }
+
+            inventory.items = source.items;
+            return {
+                success: true,
+                message: `Deposited ${quantity}x ${item.name}`,
+                bank: this.getBankView(bank),
+                gold: inventory.gold
+            };
+        });
+    }
+
+    public async withdraw(characterId: number, bankerId: string, instanceId: string, quantity: number = 1): Promise<BankResult> {
+        const check = await this.checkBankerAccess(characterId, bankerId);
+        if (!('character' in check)) {
+            return check;
+        }
+
+        return this.mutateBank(check.character, (bank, inventory) => {
+            const bankItem = bank.items.find(inv => inv.instanceId === instanceId);
+            const item = bankItem ? this.itemService.getItemById(bankItem.itemId) : null;
+            if (!bankItem || !item) {
+                return { success: false, reason: 'item_not_found', message: 'Item is not in your bank' };
+            }
+
+            const source: ItemContainer = { ...bank, items: bank.items.map(inv => ({ ...inv })) };
+            const taken = this.itemService.takeInstance(source, instanceId, quantity);
+            if (!taken) {
+                return { success: false, reason: 'invalid_quantity', message: 'Invalid quantity' };
+            }
+
+            if (!this.itemService.insertInstance(inventory, taken)) {
+                return { success: false, reason: 'inventory_full', message: 'Not enough inventory space' };
+            }
+
+            bank.items = source.items;
+            return {
+                success: true,
+                message: `Withdrew ${quantity}x ${item.name}`,
+                bank: this.getBankView(bank),
+                gold: inventory.gold
+            };
+        });
+    }
+
+    public async depositGold(characterId: number, bankerId: string, amount: number): Promise<BankResult> {
+        const check = await this.checkBankerAccess(characterId, bankerId);
+        if (!('character' in check)) {
+            return check;
+        }
+
+        if (!Number.isInteger(amount) || amount <= 0) {
+            return { success: false, reason: 'invalid_amount', message: 'Invalid amount' };
+        }
+
+        return this.mutateBank(check.character, (bank, inventory) => {
+            if (inventory.gold < amount) {
+                return { success: false, reason: 'insufficient_gold', message: `You only have ${inventory.gold} gold` };
+            }
+
+            if (bank.gold + amount > gameConfig.bank.maxGold) {
+                return { success: false, reason: 'bank_gold_full', message: 'Your bank can\'t hold that much gold' };
+            }
+
+            inventory.gold -= amount;
+            bank.gold += amount;
+            return { success: true, message: `Deposited ${amount} gold`, bank: this.getBankView(bank), gold: inventory.gold };
+        });
+    }
+
+    public async withdrawGold(characterId: number, bankerId: string, amount: number): Promise<BankResult> {
+        const check = await this.checkBankerAccess(characterId, bankerId);
+        if (!('character' in check)) {
+            return check;
+        }
+
+        if (!Number.isInteger(amount) || amount <= 0) {
+            return { success: false, reason: 'invalid_amount', message: 'Invalid amount' };
+        }
+
+        return this.mutateBank(check.character, (bank, inventory) => {
+            if (bank.gold < amount) {
+                return { success: false, reason: 'insufficient_gold', message: `Your bank only holds ${bank.gold} gold` };
+            }
+
+            bank.gold -= amount;
+            inventory.gold += amount;
+            return { success: true, message: `Withdrew ${amount} gold`, bank: this.getBankView(bank), gold: inventory.gold };
+        });
+    }
+
+    // Unlocks the next tab, paid from the character's gold
+    public async buyTab(characterId: number, bankerId: string): Promise<BankResult> {
+        const check = await this.checkBankerAccess(characterId, bankerId);
+        if (!('character' in check)) {
+            return check;
+        }
+
+        return this.mutateBank(check.character, (bank, inventory) => {
+            const price = this.getNextTabPrice(bank.tabs);
+            if (price === null) {
+                return { success: false, reason: 'max_tabs', message: 'Your bank has every tab already' };
+            }
+
+            if (inventory.gold < price) {
+                return { success: false, reason: 'insufficient_gold', message: `You need ${price} gold` };
+            }
+
+            inventory.gold -= price;
+            bank.tabs += 1;
+            bank.capacity = bank.tabs * gameConfig.bank.slotsPerTab;
+
+            this.logger.info(`User ${bank.userId} bought bank tab ${bank.tabs} for ${price} gold`);
+            return { success: true, message: `Bank tab ${bank.tabs} unlocked`, bank: this.getBankView(bank), gold: inventory.gold };
+        });
+    }
+
+    /**
+     * Loads the account bank and the character's inventory in one bank
+     * transaction and runs work on them. Like ItemService.mutateInventories,
+     * changes are saved once work returns, so work must validate before it mutates.
+     */
+    private async mutateBank(character: Character, work: (bank: AccountBank, inventory: PlayerInventory) => BankResult): Promise<BankResult> {
+        const userId = character.user_id;
+
+        return this.db.runBankTransaction(userId, [character.id], store =>
+            this.itemService.mutateInventoriesInTransaction(store, [character.id], async ([inventory]) => {
+                const bank = await this.loadBank(store, userId);
+                const snapshot = { items: JSON.stringify(bank.items), gold: bank.gold, tabs: bank.tabs };
+
+                const result = work(bank, inventory);
+
+                const items = JSON.stringify(bank.items);
+                if (items !== snapshot.items) {
+                    await store.updateBankItems(userId, items);
+                }
+                if (bank.gold !== snapshot.gold) {
+                    await store.updateBankGold(userId, bank.gold);
+                }
+                if (bank.tabs !== snapshot.tabs) {
+                    await store.updateBankTabs(userId, bank.tabs);
+                }
+
+                return result;
+            })
+        );
+    }
+
+    private async loadBank(store: BankStore, userId: number): Promise<AccountBank> {
+        let bank = await store.getBank(userId);
+        if (!bank) {
+            await store.createBank(userId, gameConfig.bank.startingTabs);
+            bank = { userId, items: '[]', tabs: gameConfig.bank.startingTabs, gold: 0 };
+        }
+
+        return {
+            userId,
+            items: JSON.parse(bank.items || '[]'),
+            tabs: bank.tabs,
+            capacity: bank.tabs * gameConfig.bank.slotsPerTab,
+            gold: bank.gold
+        };
+    }
+
+    /**
+     * insertInstance into the whole bank, or into one tab by inserting into a
+     * view of that tab and shifting its positions back.
+     */
+    private insertIntoBank(bank: AccountBank, inventoryItem: InventoryItem, tab?: number): boolean {
+        if (tab === undefined) {
+            return this.itemService.insertInstance(bank, inventoryItem);
+        }
+
+        const { slotsPerTab } = gameConfig.bank;
+        const offset = tab * slotsPerTab;
+        const inTab = (inv: InventoryItem) => inv.position !== undefined && inv.position >= offset && inv.position < offset + slotsPerTab;
+
+        const view: ItemContainer = {
+            items: bank.items.filter(inTab).map(inv => ({ ...inv, position: inv.position! - offset })),
+            capacity: slotsPerTab
+        };
+        if (!this.itemService.insertInstance(view, inventoryItem)) {
+            return false;
+        }
+
+        bank.items = [
+            ...bank.items.filter(inv => !inTab(inv)),
+            ...view.items.map(inv => ({ ...inv, position: inv.position! + offset }))
+        ];
+        return true;
+    }
+
+    private getBankView(bank: AccountBank): BankView {
+        return {
+            tabs: bank.tabs,
+            slotsPerTab: gameConfig.bank.slotsPerTab,
+            capacity: bank.capacity,
+            gold: bank.gold,
+            items: bank.items,
+            nextTabPrice: this.getNextTabPrice(bank.tabs)
+        };
+    }
+
+    private getNextTabPrice(tabs: number): number | null {
+        return gameConfig.bank.tabPrices[tabs - gameConfig.bank.startingTabs] ?? null;
+    }
+
+    private async checkBankerAccess(characterId: number, bankerId: string): Promise<BankResult | { character: Character }> {
+        const banker = npcBankers[bankerId];
+        if (!banker) {
+            return { success: false, reason: 'banker_not_found', message: 'Banker not found' };
+        }
+
+        // Prefer the live session copy, it may be ahead of the database
+        const character: Character | null = this.playerManager.getSessionByCharacterId(characterId)?.character ||
+            await this.db.getCharacterById(characterId);
+        if (!character) {
+            return { success: false, reason: 'character_not_found', message: 'Character not found' };
+        }
+
+        if (character.current_hp <= 0) {
+            return { success: false, reason: 'character_dead', message: 'You are dead' };
+        }
+
+        if (character.map_id !== banker.mapId) {
+            return { success: false, reason: 'wrong_map', message: `${banker.name} is on a different map` };
+        }
+
+        const distance = GameUtils.getDistance(
+            character.x_position, character.y_position,
+            banker.position.x, banker.position.y
+        );
+        if (distance > gameConfig.bank.interactionRange) {
+            return { success: false, reason: 'out_of_range', message: `You are too far from ${banker.name}` };
+        }
+
+        return { character };
+    }
+
+    private validateBankers(): void {
+        const errors: string[] = [];
+
+        Object.values(npcBankers).forEach(banker => {
+            if (!GameUtils.isValidPosition(banker.position.x, banker.position.y, banker.mapId)) {
+                errors.push(`banker ${banker.id} is outside map ${banker.mapId}`);
+            }
+        });
+
+        if (errors.length > 0) {
+            throw new Error(`Invalid NPC bankers: ${errors.join('; ')}`);
+        }
+
+        this.logger.info(`Loaded ${Object.keys(npcBankers).length} NPC bankers`);
+    }
+}
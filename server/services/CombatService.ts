@@ -0,0 +1,284 @@
+import { IDatabaseService, Character } from '../database/IDatabaseService';
+import { Logger } from '../utils/Logger';
+import { GameUtils, gameConfig, GAME_EVENTS } from '../game/GameUtils';
+import { PlayerManager } from '../game/PlayerManager';
+import { StatsService } from './StatsService';
+import { Monster } from './MonsterService';
+
+export type AttackFailureReason =
+    | 'character_not_found'
+    | 'attacker_dead'
+    | 'monster_not_found'
+    | 'monster_dead'
+    | 'wrong_map'
+    | 'out_of_range'
+    | 'on_cooldown';
+
+export interface PlayerAttack {
+    success: boolean;
+    reason?: AttackFailureReason;
+    message?: string;
+    damage?: number;
+    isCritical?: boolean;
+}
+
+export interface MonsterHit {
+    damage: number;
+    currentHp: number;
+    maxHp: number;
+    killed: boolean;
+}
+
+export interface RespawnResult {
+    success: boolean;
+    message: string;
+    experienceLost?: number;
+    position?: { x: number; y: number; mapId: number };
+    invulnerableUntil?: number;
+}
+
+export class CombatService {
+    private db: IDatabaseService;
+    private statsService: StatsService;
+    private playerManager: PlayerManager;
+    private logger: Logger;
+    private lastAttackTimes: Map<number, number> = new Map();
+    private invulnerableUntil: Map<number, number> = new Map();
+
+    // Maximum distance between character and monster for an attack to land
+    private readonly ATTACK_RANGE: { [characterClass: string]: number } = {
+        Warrior: 60,
+        Assassin: 50,
+        Archer: 200,
+        Mage: 180
+    };
+    private readonly DEFAULT_ATTACK_RANGE = 60;
+    private readonly ATTACK_COOLDOWN_MS = 1000;
+
+    constructor(databaseService: IDatabaseService, statsService: StatsService, playerManager: PlayerManager) {
+        this.db = databaseService;
+        this.statsService = statsService;
+        this.playerManager = playerManager;
+        this.logger = new Logger();
+    }
+
+    /**
+     * Validates an attack and calculates its damage entirely from server-side
+     * state: derived character stats (level, equipment, buffs) and positions.
+     */
+    public async calculatePlayerAttack(characterId: number, monster: Monster | null): Promise<PlayerAttack> {
+        if (!monster) {
+            return { success: false, reason: 'monster_not_found', message: 'Monster not found' };
+        }
+
+        if (monster.state === 'dead' || monster.hp <= 0) {
+            return { success: false, reason: 'monster_dead', message: 'Monster is already dead' };
+        }
+
+        const now = Date.now();
+        const lastAttack = this.lastAttackTimes.get(characterId) || 0;
+        if (now - lastAttack < this.ATTACK_COOLDOWN_MS) {
+            return { success: false, reason: 'on_cooldown', message: 'Attack is on cooldown' };
+        }
+
+        const character = await this.db.getCharacterById(characterId);
+        if (!character) {
+            return { success: false, reason: 'character_not_found', message: 'Character not found' };
+        }
+
+        if (character.current_hp <= 0) {
+            return { success: false, reason: 'attacker_dead', message: 'You are dead' };
+        }
+
+        if (character.map_id !== monster.position.mapId) {
+            return { success: false, reason: 'wrong_map', message: 'Monster is on a different map' };
+        }
+
+        const distance = GameUtils.getDistance(
+            character.x_position, character.y_position,
+            monster.position.x, monster.position.y
+        );
+        if (distance > this.getAttackRange(character)) {
+            return { success: false, reason: 'out_of_range', message: 'Monster is out of range' };
+        }
+
+        const stats = await this.statsService.getDerivedStats(characterId);
+        if (!stats) {
+            return { success: false, reason: 'character_not_found', message: 'Character not found' };
+        }
+
+        // Monster defense is applied by MonsterService.damageMonster
+        const { damage, isCritical } = GameUtils.calculateCombatDamage(
+            {
+                level: character.level,
+                strength: stats.strength,
+                dexterity: stats.agility,
+                intelligence: stats.intelligence
+            },
+            { level: monster.level, strength: 0, dexterity: 0, intelligence: 0 },
+            stats.attack - stats.strength, // attack from gear and buffs
+            { chance: stats.criticalChance, damage: stats.criticalDamage }
+        );
+
+        this.lastAttackTimes.set(characterId, now);
+        // Attacking ends the post-respawn protection
+        this.invulnerableUntil.delete(characterId);
+
+        this.logger.debug(`Character ${characterId} attacks ${monster.name} for ${damage}${isCritical ? ' (critical)' : ''}`);
+
+        return { success: true, damage, isCritical };
+    }
+
+    /**
+     * Applies a monster hit to an online character, reduced by the defense of
+     * everything they have equipped. Returns null if the hit was ignored.
+     */
+    public async applyMonsterAttack(characterId: number, monster: Monster, rawDamage: number): Promise<MonsterHit | null> {
+        if (this.isInvulnerable(characterId)) {
+            return null;
+        }
+
+        const stats = await this.statsService.getDerivedStats(characterId);
+
+        // Read the live copy after the await so concurrent hits stack correctly
+        const character = this.playerManager.getSessionByCharacterId(characterId)?.character;
+        if (!stats || !character || character.current_hp <= 0) {
+            return null;
+        }
+
+        const damage = Math.max(1, rawDamage - stats.defense);
+        character.current_hp = Math.max(0, Math.min(character.current_hp, stats.maxHp) - damage);
+
+        await this.db.updateCharacterStats(characterId, { current_hp: character.current_hp });
+
+        const killed = character.current_hp <= 0;
+        if (killed) {
+            this.handlePlayerDeath(character, monster);
+        }
+
+        return {
+            damage,
+            currentHp: character.current_hp,
+            maxHp: stats.maxHp,
+            killed
+        };
+    }
+
+    /**
+     * Revives a dead character at the town point of their current map,
+     * applying the configured experience penalty and a short invulnerability.
+     */
+    public async respawnCharacter(characterId: number): Promise<RespawnResult> {
+        const character = await this.db.getCharacterById(characterId);
+        if (!character) {
+            return { success: false, message: 'Character not found' };
+        }
+
+        if (character.current_hp > 0) {
+            return { success: false, message: 'Character is not dead' };
+        }
+
+        const stats = await this.statsService.getDerivedStats(characterId);
+        const maxHp = stats ? stats.maxHp : character.hp;
+        const maxMp = stats ? stats.maxMp : character.mp;
+
+        const experience = Number(character.experience) || 0;
+        const experienceLost = experience - this.applyDeathPenalty(character.level, experience);
+        const position = GameUtils.getTownPoint(character.map_id);
+        const invulnerableUntil = Date.now() + gameConfig.death.invulnerabilityMs;
+
+        const updates: Partial<Character> = {
+            current_hp: maxHp,
+            current_mp: maxMp,
+            experience: experience - experienceLost
+        };
+
+        await this.db.updateCharacterStats(characterId, updates);
+        await this.db.updateCharacterPosition(characterId, position.x, position.y, position.mapId);
+
+        this.invulnerableUntil.set(characterId, invulnerableUntil);
+
+        const session = this.playerManager.getSessionByCharacterId(characterId);
+        if (session?.character) {
+            Object.assign(session.character, updates, {
+                x_position: position.x,
+                y_position: position.y,
+                map_id: position.mapId
+            });
+        }
+
+        this.logger.info(`${character.name} respawned at map ${position.mapId} (lost ${experienceLost} EXP)`);
+
+        this.playerManager.broadcastToMap(position.mapId, {
+            type: 'player_respawned',
+            data: {
+                characterId,
+                name: character.name,
+                position,
+                currentHp: maxHp,
+                maxHp,
+                invulnerableUntil
+            }
+        });
+
+        return {
+            success: true,
+            message: 'Respawned',
+            experienceLost,
+            position,
+            invulnerableUntil
+        };
+    }
+
+    public isInvulnerable(characterId: number): boolean {
+        const until = this.invulnerableUntil.get(characterId);
+        if (until === undefined) {
+            return false;
+        }
+
+        if (until <= Date.now()) {
+            this.invulnerableUntil.delete(characterId);
+            return false;
+        }
+
+        return true;
+    }
+
+    public clearCharacter(characterId: number): void {
+        this.lastAttackTimes.delete(characterId);
+        this.invulnerableUntil.delete(characterId);
+    }
+
+    private handlePlayerDeath(character: Character, monster: Monster): void {
+        this.logger.info(`${character.name} was killed by ${monster.name}`);
+
+        this.playerManager.broadcastToMap(character.map_id, {
+            type: GAME_EVENTS.PLAYER_DIED,
+            data: {
+                characterId: character.id,
+                name: character.name,
+                killer: { type: 'monster', id: monster.id, name: monster.name },
+                position: { x: character.x_position, y: character.y_position }
+            }
+        });
+    }
+
+    // Loses a share of the current level's experience span, never de-leveling
+    private applyDeathPenalty(level: number, experience: number): number {
+        const penalty = gameConfig.death.experiencePenalty;
+        if (penalty <= 0) {
+            return experience;
+        }
+
+        const levelFloor = GameUtils.getRequiredExperience(level);
+        const nextLevel = level >= gameConfig.maxLevel ? level : level + 1;
+        const span = GameUtils.getRequiredExperience(nextLevel) - levelFloor ||
+            levelFloor - GameUtils.getRequiredExperience(level - 1);
+
+        return Math.max(levelFloor, experience - Math.floor(span * penalty));
+    }
+
+    private getAttackRange(character: Character): number {
+        return this.ATTACK_RANGE[character.class] || this.DEFAULT_ATTACK_RANGE;
+    }
+}
@@ -0,0 +1,245 @@
+import { IDatabaseService, Character } from '../database/IDatabaseService';
+import { Logger } from '../utils/Logger';
+import { GameUtils, gameConfig } from '../game/GameUtils';
+import { PlayerManager } from '../game/PlayerManager';
+import { ItemService, Item, ItemUseEffect } from './ItemService';
+import { StatsService } from './StatsService';
+
+export type UseItemFailureReason =
+    | 'character_not_found'
+    | 'character_dead'
+    | 'item_not_found'
+    | 'not_usable'
+    | 'requirements_not_met'
+    | 'on_cooldown'
+    | 'no_effect';
+
+export interface UseItemResult {
+    success: boolean;
+    reason?: UseItemFailureReason;
+    message: string;
+    itemId?: string;
+    cooldownUntil?: number;
+}
+
+// Changes an effect makes to the character, applied only after the item is consumed
+interface EffectOutcome {
+    restore?: { hp: number; mp: number; maxHp: number; maxMp: number }; // added to whatever HP/MP the character has by then
+    position?: { x: number; y: number; mapId: number };
+    apply?: () => void;
+}
+
+export class ConsumableService {
+    private db: IDatabaseService;
+    private itemService: ItemService;
+    private statsService: StatsService;
+    private playerManager: PlayerManager;
+    private logger: Logger;
+    private cooldowns: Map<number, Map<string, number>> = new Map();
+
+    private readonly DEFAULT_COOLDOWN_MS = 1000;
+
+    constructor(
+        databaseService: IDatabaseService,
+        itemService: ItemService,
+        statsService: StatsService,
+        playerManager: PlayerManager
+    ) {
+        this.db = databaseService;
+        this.itemService = itemService;
+        this.statsService = statsService;
+        this.playerManager = playerManager;
+        this.logger = new Logger();
+    }
+
+    /**
+     * Uses one item from an inventory stack. The effect is resolved before the
+     * item is consumed so a use that would do nothing costs nothing, then
+     * pushes a character_updated message to the character if they are online.
+     */
+    public async useItem(characterId: number, instanceId: string): Promise<UseItemResult> {
+        // Prefer the live session copy, it may be ahead of the database
+        const character = this.playerManager.getSessionByCharacterId(characterId)?.character ||
+            await this.db.getCharacterById(characterId);
+        if (!character) {
+            return { success: false, reason: 'character_not_found', message: 'Character not found' };
+        }
+
+        if (character.current_hp <= 0) {
+            return { success: false, reason: 'character_dead', message: 'You are dead' };
+        }
+
+        const inventoryItem = await this.itemService.getInventoryItem(characterId, instanceId);
+        const item = inventoryItem ? this.itemService.getItemById(inventoryItem.itemId) : null;
+        if (!inventoryItem || !item) {
+            return { success: false, reason: 'item_not_found', message: 'Item not found in inventory' };
+        }
+
+        if (!item.use) {
+            return { success: false, reason: 'not_usable', message: `${item.name} cannot be used` };
+        }
+
+        const unmet = this.itemService.checkRequirements(item, character);
+        if (unmet) {
+            return { success: false, reason: 'requirements_not_met', message: unmet.message };
+        }
+
+        const category = item.use.category;
+        const readyAt = this.getCooldownEnd(characterId, category);
+        if (readyAt > Date.now()) {
+            return {
+                success: false,
+                reason: 'on_cooldown',
+                message: `${item.name} is on cooldown`,
+                itemId: item.id,
+                cooldownUntil: readyAt
+            };
+        }
+
+        // Start the cooldown before the next await so a second use can't slip in,
+        // every failure below hands it back
+        const cooldownUntil = Date.now() + (gameConfig.itemCooldowns[category] ?? this.DEFAULT_COOLDOWN_MS);
+        this.setCooldownEnd(characterId, category, cooldownUntil);
+
+        let outcome: EffectOutcome | null;
+        try {
+            outcome = await this.resolveEffect(character, item, item.use.effect);
+            if (!outcome) {
+                this.setCooldownEnd(characterId, category, readyAt);
+                return { success: false, reason: 'no_effect', message: `${item.name} would have no effect` };
+            }
+
+            const consumed = await this.itemService.removeItemFromInventory(characterId, instanceId, 1);
+            if (!consumed) {
+                this.setCooldownEnd(characterId, category, readyAt);
+                return { success: false, reason: 'item_not_found', message: 'Item not found in inventory' };
+            }
+        } catch (error) {
+            this.setCooldownEnd(characterId, category, readyAt);
+            throw error;
+        }
+
+        await this.applyOutcome(character, outcome);
+
+        this.logger.debug(`Character ${characterId} used ${item.name}`);
+
+        await this.sendCharacterUpdate(character);
+
+        return { success: true, message: `Used ${item.name}`, itemId: item.id, cooldownUntil };
+    }
+
+    public getCooldowns(characterId: number): { [category: string]: number } {
+        const now = Date.now();
+        const cooldowns: { [category: string]: number } = {};
+
+        this.cooldowns.get(characterId)?.forEach((until, category) => {
+            if (until > now) {
+                cooldowns[category] = until;
+            }
+        });
+
+        return cooldowns;
+    }
+
+    private async resolveEffect(character: Character, item: Item, effect: ItemUseEffect): Promise<EffectOutcome | null> {
+        switch (effect.type) {
+            case 'restore': {
+                const stats = await this.statsService.getDerivedStats(character.id);
+                const maxHp = stats ? stats.maxHp : character.hp;
+                const maxMp = stats ? stats.maxMp : character.mp;
+
+                const hp = item.stats.hp || 0;
+                const mp = item.stats.mp || 0;
+
+                if ((hp <= 0 || character.current_hp >= maxHp) && (mp <= 0 || character.current_mp >= maxMp)) {
+                    return null;
+                }
+                return { restore: { hp, mp, maxHp, maxMp } };
+            }
+
+            case 'buff':
+                return {
+                    apply: () => this.statsService.addBuff(character.id, {
+                        id: `item:${item.id}`,
+                        source: item.id,
+                        stats: item.stats,
+                        expiresAt: Date.now() + effect.durationMs
+                    })
+                };
+
+            case 'teleport': {
+                const destination = effect.destination === 'town'
+                    ? GameUtils.getTownPoint(character.map_id)
+                    : effect.destination;
+                return { position: destination };
+            }
+        }
+    }
+
+    private async applyOutcome(character: Character, outcome: EffectOutcome): Promise<void> {
+        // The character may have taken damage while the item was consumed, so the
+        // restore is added to the current values rather than written over them
+        if (outcome.restore && character.current_hp > 0) {
+            const { hp, mp, maxHp, maxMp } = outcome.restore;
+            const stats: Partial<Character> = {
+                current_hp: Math.max(character.current_hp, Math.min(maxHp, character.current_hp + hp)),
+                current_mp: Math.max(character.current_mp, Math.min(maxMp, character.current_mp + mp))
+            };
+            await this.db.updateCharacterStats(character.id, stats);
+            Object.assign(character, stats);
+        }
+
+        if (outcome.position) {
+            const { x, y, mapId } = outcome.position;
+            const previousMapId = character.map_id;
+
+            await this.db.updateCharacterPosition(character.id, x, y, mapId);
+            Object.assign(character, { x_position: x, y_position: y, map_id: mapId });
+
+            const message = {
+                type: 'player_teleported',
+                data: { characterId: character.id, name: character.name, position: { x, y, mapId } }
+            };
+            this.playerManager.broadcastToMap(mapId, message);
+            if (previousMapId !== mapId) {
+                this.playerManager.broadcastToMap(previousMapId, message);
+            }
+        }
+
+        if (outcome.apply) {
+            outcome.apply();
+        }
+    }
+
+    private async sendCharacterUpdate(character: Character): Promise<void> {
+        const stats = await this.statsService.getDerivedStats(character.id);
+
+        this.playerManager.sendToCharacter(character.id, {
+            type: 'character_updated',
+            data: {
+                characterId: character.id,
+                currentHp: character.current_hp,
+                currentMp: character.current_mp,
+                maxHp: stats ? stats.maxHp : character.hp,
+                maxMp: stats ? stats.maxMp : character.mp,
+                position: { x: character.x_position, y: character.y_position, mapId: character.map_id },
+                stats,
+                buffs: this.statsService.getActiveBuffs(character.id),
+                cooldowns: this.getCooldowns(character.id)
+            }
+        });
+    }
+
+    private getCooldownEnd(characterId: number, category: string): number {
+        return this.cooldowns.get(characterId)?.get(category) || 0;
+    }
+
+    private setCooldownEnd(characterId: number, category: string, until: number): void {
+        let cooldowns = this.cooldowns.get(characterId);
+        if (!cooldowns) {
+            cooldowns = new Map();
+            this.cooldowns.set(characterId, cooldowns);
+        }
+        cooldowns.set(category, until);
+    }
+}
@@ -0,0 +1,268 @@
+import { IDatabaseService, Character } from '../database/IDatabaseService';
+import { Logger } from '../utils/Logger';
+import { KeyedMutex } from '../utils/Mutex';
+import { GameUtils, gameConfig } from '../game/GameUtils';
+import { PlayerManager } from '../game/PlayerManager';
+import { craftingStations, CraftingStation } from '../game/NpcData';
+import { recipes, Recipe, RecipeOutput } from '../game/RecipeData';
+import { ItemService, InventoryItem, ItemContainer } from './ItemService';
+
+export type CraftFailureReason =
+    | 'character_not_found'
+    | 'character_dead'
+    | 'station_not_found'
+    | 'wrong_map'
+    | 'out_of_range'
+    | 'recipe_not_found'
+    | 'wrong_station'
+    | 'level_too_low'
+    | 'invalid_quantity'
+    | 'insufficient_gold'
+    | 'insufficient_materials'
+    | 'inventory_full';
+
+export interface CraftResult {
+    success: boolean;
+    reason?: CraftFailureReason;
+    message: string;
+    crafted?: RecipeOutput[]; // everything produced, bonus outputs included
+    experienceGained?: number;
+    skill?: CraftingSkill;
+    gold?: number; // character's gold afterwards
+}
+
+export interface CraftingSkill {
+    level: number;
+    experience: number;
+    nextLevelExperience: number | null; // null at the max level
+}
+
+export class CraftingService {
+    private db: IDatabaseService;
+    private itemService: ItemService;
+    private playerManager: PlayerManager;
+    private logger: Logger;
+    // Crafts of one character run one at a time so skill experience isn't lost between them
+    private craftLocks: KeyedMutex<number> = new KeyedMutex();
+
+    constructor(databaseService: IDatabaseService, itemService: ItemService, playerManager: PlayerManager) {
+        this.db = databaseService;
+        this.itemService = itemService;
+        this.playerManager = playerManager;
+        this.logger = new Logger();
+
+        this.validateRecipes();
+    }
+
+    public getRecipes(): Recipe[] {
+        return Object.values(recipes);
+    }
+
+    public getStationsOnMap(mapId: number): CraftingStation[] {
+        return Object.values(craftingStations).filter(station => station.mapId === mapId);
+    }
+
+    public getStationPublicData(station: CraftingStation) {
+        return {
+            id: station.id,
+            name: station.name,
+            type: station.type,
+            mapId: station.mapId,
+            position: station.position
+        };
+    }
+
+    public getSkill(character: Character): CraftingSkill {
+        const level = Number(character.crafting_level) || 1;
+        return {
+            level,
+            experience: Number(character.crafting_experience) || 0,
+            nextLevelExperience: level < gameConfig.crafting.maxLevel ? gameConfig.crafting.experienceTable[level] : null
+        };
+    }
+
+    /**
+     * Crafts a recipe count times at a station. Inputs and gold for every
+     * craft are taken and all outputs added in one inventory mutation, so a
+     * craft that can't fit its outputs consumes nothing.
+     */
+    public async craft(characterId: number, stationId: string, recipeId: string, count: number = 1): Promise<CraftResult> {
+        return this.craftLocks.runExclusive([characterId], async () => {
+            const check = await this.checkStationAccess(characterId, stationId);
+            if (!('character' in check)) {
+                return check;
+            }
+            const { character, station } = check;
+
+            const recipe = recipes[recipeId];
+            if (!recipe) {
+                return { success: false, reason: 'recipe_not_found', message: 'Recipe not found' };
+            }
+
+            if (recipe.station !== station.type) {
+                return { success: false, reason: 'wrong_station', message: `${recipe.name} can't be crafted at the ${station.name}` };
+            }
+
+            const skill = this.getSkill(character);
+            if (skill.level < recipe.requiredLevel) {
+                return { success: false, reason: 'level_too_low', message: `Requires crafting level ${recipe.requiredLevel}` };
+            }
+
+            if (!Number.isInteger(count) || count <= 0 || count > gameConfig.crafting.maxBatch) {
+                return { success: false, reason: 'invalid_quantity', message: 'Invalid quantity' };
+            }
+
+            const crafted = this.rollOutputs(recipe, count);
+            const instances: InventoryItem[] = [];
+            crafted.forEach(output => instances.push(...this.itemService.createInstances(output.itemId, output.quantity)!));
+
+            const gold = recipe.gold * count;
+            const result = await this.itemService.mutateInventory<CraftResult>(characterId, inventory => {
+                if (inventory.gold < gold) {
+                    return { success: false, reason: 'insufficient_gold', message: `You need ${gold} gold` };
+                }
+
+                const missing = recipe.inputs.find(input => this.itemService.countItems(inventory, input.itemId) < input.quantity * count);
+                if (missing) {
+                    const name = this.itemService.getItemById(missing.itemId)?.name || missing.itemId;
+                    return { success: false, reason: 'insufficient_materials', message: `Insufficient materials (${missing.quantity * count}x ${name} required)` };
+                }
+
+                // Work on a copy so running out of space leaves the inputs in place;
+                // taking the inputs first lets the outputs use the slots they free
+                const working: ItemContainer = { ...inventory, items: inventory.items.map(inv => ({ ...inv })) };
+                recipe.inputs.forEach(input => this.itemService.takeItems(working, input.itemId, input.quantity * count));
+                if (!this.itemService.insertInstances(working, instances)) {
+                    return { success: false, reason: 'inventory_full', message: 'Not enough inventory space' };
+                }
+
+                inventory.items = working.items;
+                inventory.gold -= gold;
+                return { success: true, message: `Crafted ${count}x ${recipe.name}`, crafted, gold: inventory.gold };
+            });
+
+            if (!result.success) {
+                return result;
+            }
+
+            const progress = await this.grantExperience(character, recipe.experience * count);
+            return { ...result, ...progress };
+        });
+    }
+
+    private rollOutputs(recipe: Recipe, count: number): RecipeOutput[] {
+        const totals = new Map<string, number>();
+        const add = (output: RecipeOutput) => totals.set(output.itemId, (totals.get(output.itemId) || 0) + output.quantity);
+
+        for (let i = 0; i < count; i++) {
+            add(recipe.output);
+            (recipe.bonusOutputs || []).forEach(bonus => {
+                if (Math.random() * 100 < bonus.chance) {
+                    add(bonus);
+                }
+            });
+        }
+
+        return Array.from(totals.entries()).map(([itemId, quantity]) => ({ itemId, quantity }));
+    }
+
+    // Stops gaining experience once gameConfig.crafting.maxLevel is reached
+    private async grantExperience(character: Character, experience: number): Promise<{ experienceGained: number; skill: CraftingSkill }> {
+        const { maxLevel, experienceTable } = gameConfig.crafting;
+        const previous = this.getSkill(character);
+        const totalExperience = Math.min(previous.experience + experience, experienceTable[maxLevel - 1]);
+
+        let level = previous.level;
+        while (level < maxLevel && totalExperience >= experienceTable[level]) {
+            level++;
+        }
+
+        const updates: Partial<Character> = { crafting_level: level, crafting_experience: totalExperience };
+        await this.db.updateCharacterStats(character.id, updates);
+
+        const session = this.playerManager.getSessionByCharacterId(character.id);
+        if (session?.character) {
+            Object.assign(session.character, updates);
+        }
+
+        if (level > previous.level) {
+            this.logger.info(`${character.name} reached crafting level ${level} (was ${previous.level})`);
+        }
+
+        return {
+            experienceGained: totalExperience - previous.experience,
+            skill: this.getSkill({ ...character, ...updates })
+        };
+    }
+
+    private async checkStationAccess(characterId: number, stationId: string): Promise<CraftResult | { character: Character; station: CraftingStation }> {
+        const station = craftingStations[stationId];
+        if (!station) {
+            return { success: false, reason: 'station_not_found', message: 'Crafting station not found' };
+        }
+
+        // Prefer the live session copy, it may be ahead of the database
+        const character: Character | null = this.playerManager.getSessionByCharacterId(characterId)?.character ||
+            await this.db.getCharacterById(characterId);
+        if (!character) {
+            return { success: false, reason: 'character_not_found', message: 'Character not found' };
+        }
+
+        if (character.current_hp <= 0) {
+            return { success: false, reason: 'character_dead', message: 'You are dead' };
+        }
+
+        if (character.map_id !== station.mapId) {
+            return { success: false, reason: 'wrong_map', message: `The ${station.name} is on a different map` };
+        }
+
+        const distance = GameUtils.getDistance(
+            character.x_position, character.y_position,
+            station.position.x, station.position.y
+        );
+        if (distance > gameConfig.crafting.interactionRange) {
+            return { success: false, reason: 'out_of_range', message: `You are too far from the ${station.name}` };
+        }
+
+        return { character, station };
+    }
+
+    private validateRecipes(): void {
+        const errors: string[] = [];
+
+        Object.values(recipes).forEach(recipe => {
+            const outputs = [recipe.output, ...(recipe.bonusOutputs || [])];
+            [...recipe.inputs, ...outputs].forEach(entry => {
+                if (!this.itemService.getItemById(entry.itemId)) {
+                    errors.push(`recipe ${recipe.id} uses unknown item ${entry.itemId}`);
+                } else if (!Number.isInteger(entry.quantity) || entry.quantity <= 0) {
+                    errors.push(`recipe ${recipe.id} has an invalid quantity of ${entry.itemId}`);
+                }
+            });
+
+            if (new Set(recipe.inputs.map(input => input.itemId)).size !== recipe.inputs.length) {
+                errors.push(`recipe ${recipe.id} lists an input twice`);
+            }
+
+            if (recipe.requiredLevel < 1 || recipe.requiredLevel > gameConfig.crafting.maxLevel) {
+                errors.push(`recipe ${recipe.id} requires an unreachable crafting level`);
+            }
+
+            if (!Object.values(craftingStations).some(station => station.type === recipe.station)) {
+                errors.push(`recipe ${recipe.id} needs a ${recipe.station} but none is placed`);
+            }
+        });
+
+        Object.values(craftingStations).forEach(station => {
+            if (!GameUtils.isValidPosition(station.position.x, station.position.y, station.mapId)) {
+                errors.push(`station ${station.id} is outside map ${station.mapId}`);
+            }
+        });
+
+        if (errors.length > 0) {
+            throw new Error(`Invalid crafting recipes: ${errors.join('; ')}`);
+        }
+
+        this.logger.info(`Loaded ${Object.keys(recipes).length} crafting recipes and ${Object.keys(craftingStations).length} stations`);
+    }
+}
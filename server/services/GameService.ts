@@ -2,21 +2,22 @@ import { Request, Response } from 'express';
 import { WebSocketServer, WebSocket } from 'ws';
 import { IDatabaseService, Character } from '../database/IDatabaseService';
 import { Logger } from '../utils/Logger';
-import { ItemService } from './ItemService';
-
-export interface GameMessage {
-    type: string;
-    data?: any;
-    timestamp?: string;
-}
-
-export interface PlayerSession {
-    ws: WebSocket;
-    userId: number;
-    characterId?: number;
-    character?: Character;
-    lastActivity: Date;
-}
+import { ItemService, InventoryResult } from './ItemService';
+import { AuthService, AuthFailureReason } from './AuthService';
+import { MonsterService } from './MonsterService';
+import { CombatService } from './CombatService';
+import { StatsService } from './StatsService';
+import { RewardService, KillRewardResult } from './RewardService';
+import { LootService } from './LootService';
+import { ConsumableService } from './ConsumableService';
+import { ShopService, ShopResult } from './ShopService';
+import { TradeService, TradeResult } from './TradeService';
+import { MailService } from './MailService';
+import { BankService, BankResult } from './BankService';
+import { CraftingService } from './CraftingService';
+import { SalvageService, SalvageResult } from './SalvageService';
+import { GAME_EVENTS } from '../game/GameUtils';
+import { PlayerManager, PlayerSession, GameMessage } from '../game/PlayerManager';
 
 export interface WorldStatus {
     playersOnline: number;
@@ -29,8 +30,22 @@ export class GameService {
     private db: IDatabaseService;
     private wss: WebSocketServer;
     private itemService: ItemService;
+    private authService: AuthService;
+    private monsterService: MonsterService;
+    private combatService: CombatService;
+    private statsService: StatsService;
+    private lootService: LootService;
+    private rewardService: RewardService;
+    private consumableService: ConsumableService;
+    private shopService: ShopService;
+    private tradeService: TradeService;
+    private mailService: MailService;
+    private bankService: BankService;
+    private craftingService: CraftingService;
+    private salvageService: SalvageService;
+    private playerManager: PlayerManager;
     private logger: Logger;
-    private activeSessions: Map<WebSocket, PlayerSession>;
+    private pendingAuthentications: Map<WebSocket, Promise<void>> = new Map();
     private serverStartTime: Date;
 
     // Game constants
@@ -43,12 +58,47 @@ export class GameService {
 
     private readonly STARTING_POSITION = { x: 100, y: 100, mapId: 1 };
 
-    constructor(databaseService: IDatabaseService, webSocketServer: WebSocketServer, itemService: ItemService) {
+    // Sockets that have not authenticated within this window are closed
+    private readonly AUTH_TIMEOUT_MS = 10 * 1000;
+    private readonly AUTH_FAILED_CLOSE_CODE = 4001;
+
+    constructor(
+        databaseService: IDatabaseService,
+        webSocketServer: WebSocketServer,
+        playerManager: PlayerManager,
+        itemService: ItemService,
+        authService: AuthService,
+        monsterService: MonsterService,
+        combatService: CombatService,
+        statsService: StatsService,
+        rewardService: RewardService,
+        lootService: LootService,
+        consumableService: ConsumableService,
+        shopService: ShopService,
+        tradeService: TradeService,
+        mailService: MailService,
+        bankService: BankService,
+        craftingService: CraftingService,
+        salvageService: SalvageService
+    ) {
         this.db = databaseService;
         this.wss = webSocketServer;
+        this.playerManager = playerManager;
         this.itemService = itemService;
+        this.authService = authService;
+        this.monsterService = monsterService;
+        this.combatService = combatService;
+        this.statsService = statsService;
+        this.rewardService = rewardService;
+        this.lootService = lootService;
+        this.consumableService = consumableService;
+        this.shopService = shopService;
+        this.tradeService = tradeService;
+        this.mailService = mailService;
+        this.bankService = bankService;
+        this.craftingService = craftingService;
+        this.salvageService = salvageService;
         this.logger = new Logger();
-        this.activeSessions = new Map();
         this.serverStartTime = new Date();
 
         // Clean up inactive sessions every 5 minutes
@@ -82,6 +132,8 @@ export class GameService {
                     experience: char.experience,
                     hp: char.hp,
                     mp: char.mp,
+                    currentHp: char.current_hp,
+                    currentMp: char.current_mp,
                     strength: char.strength,
                     dexterity: char.dexterity,
                     intelligence: char.intelligence,
@@ -146,9 +198,13 @@ export class GameService {
                 level: 1,
                 experience: 0,
                 ...startingStats,
+                current_hp: startingStats.hp,
+                current_mp: startingStats.mp,
                 x_position: this.STARTING_POSITION.x,
                 y_position: this.STARTING_POSITION.y,
-                map_id: this.STARTING_POSITION.mapId
+                map_id: this.STARTING_POSITION.mapId,
+                crafting_level: 1,
+                crafting_experience: 0
             };
 
             const characterId = await this.db.createCharacter(characterData);
@@ -179,7 +235,7 @@ export class GameService {
     public async getWorldStatus(req: Request, res: Response): Promise<void> {
         try {
             const status: WorldStatus = {
-                playersOnline: this.activeSessions.size,
+                playersOnline: this.playerManager.getOnlineCount(),
                 totalCharacters: 0, // Would need a count query
                 serverUptime: Date.now() - this.serverStartTime.getTime(),
                 mapInstances: 1 // Simplified for now
@@ -200,9 +256,42 @@ export class GameService {
     }
 
     // WebSocket Game Message Handlers
+    public handleConnection(ws: WebSocket, token?: string): void {
+        if (token) {
+            // Token supplied with the upgrade request; messages wait for this to settle
+            const pending = this.authenticateSession(ws, token)
+                .finally(() => this.pendingAuthentications.delete(ws));
+            this.pendingAuthentications.set(ws, pending);
+            return;
+        }
+
+        setTimeout(() => {
+            if (!this.playerManager.hasSession(ws) && ws.readyState === WebSocket.OPEN) {
+                this.rejectAuthentication(ws, 'not_authenticated', 'Authentication timed out');
+            }
+        }, this.AUTH_TIMEOUT_MS);
+    }
+
     public async handleGameMessage(ws: WebSocket, message: GameMessage): Promise<void> {
         try {
-            const session = this.activeSessions.get(ws);
+            const pending = this.pendingAuthentications.get(ws);
+            if (pending) {
+                await pending;
+            }
+
+            const session = this.playerManager.getSession(ws);
+
+            if (!session && message.type !== 'authenticate' && message.type !== 'ping') {
+                this.rejectAuthentication(ws, 'not_authenticated', 'Authenticate before sending game messages');
+                return;
+            }
+
+            if (session && !this.isSessionTokenValid(session)) {
+                this.rejectAuthentication(ws, 
+                    this.authService.isTokenRevoked(session.token) ? 'token_revoked' : 'token_expired',
+                    'Session token is no longer valid');
+                return;
+            }
             
             switch (message.type) {
                 case 'authenticate':
@@ -221,6 +310,70 @@ export class GameService {
                     await this.handleChat(ws, message.data);
                     break;
                     
+                case 'attack':
+                    await this.handleAttack(ws, message.data);
+                    break;
+                    
+                case 'respawn':
+                    await this.handleRespawn(ws);
+                    break;
+                    
+                case 'pickup':
+                    await this.handlePickup(ws, message.data);
+                    break;
+                    
+                case 'use_item':
+                    await this.handleUseItem(ws, message.data);
+                    break;
+                    
+                case 'unequip':
+                case 'move_item':
+                case 'swap_items':
+                case 'split_stack':
+                case 'merge_stack':
+                case 'lock_item':
+                    await this.handleInventoryAction(ws, message.type, message.data);
+                    break;
+                    
+                case 'salvage':
+                case 'salvage_all':
+                    await this.handleSalvage(ws, message.type, message.data);
+                    break;
+                    
+                case 'shop_open':
+                    await this.handleShopOpen(ws, message.data);
+                    break;
+                    
+                case 'shop_buy':
+                case 'shop_sell':
+                case 'shop_buyback':
+                    await this.handleShopAction(ws, message.type, message.data);
+                    break;
+                    
+                case 'bank_open':
+                case 'bank_deposit':
+                case 'bank_withdraw':
+                case 'bank_deposit_gold':
+                case 'bank_withdraw_gold':
+                case 'bank_buy_tab':
+                    await this.handleBankAction(ws, message.type, message.data);
+                    break;
+                    
+                case 'craft':
+                    await this.handleCraft(ws, message.data);
+                    break;
+                    
+                case 'trade_request':
+                case 'trade_respond':
+                case 'trade_add_item':
+                case 'trade_remove_item':
+                case 'trade_set_gold':
+                case 'trade_lock':
+                case 'trade_confirm':
+                case 'trade_cancel':
+                    await this.handleTradeAction(ws, message.type, message.data);
+                    break;
+                    
                 case 'ping':
                     this.sendMessage(ws, { type: 'pong', timestamp: new Date().toISOString() });
                     break;
@@ -248,24 +401,37 @@ export class GameService {
     }
 
     private async handleAuthentication(ws: WebSocket, data: any): Promise<void> {
-        const { userId } = data;
-        
-        if (!userId) {
+        if (this.playerManager.hasSession(ws)) {
             this.sendMessage(ws, { 
-                type: 'auth_failed', 
-                data: { message: 'User ID required' } 
+                type: 'error', 
+                data: { message: 'Already authenticated' } 
             });
             return;
         }
 
-        // Create or update session
+        const { token, userId } = data || {};
+        await this.authenticateSession(ws, token, userId);
+    }
+
+    private async authenticateSession(ws: WebSocket, token: string | undefined, claimedUserId?: number): Promise<void> {
+        const result = await this.authService.authenticateToken(token, claimedUserId);
+
+        if (!result.success) {
+            this.rejectAuthentication(ws, result.reason, result.message);
+            return;
+        }
+
+        const { userId, exp } = result.payload;
+
         const session: PlayerSession = {
             ws,
             userId,
+            token: token as string,
+            tokenExpiresAt: exp ? exp * 1000 : undefined,
             lastActivity: new Date()
         };
 
-        this.activeSessions.set(ws, session);
+        this.playerManager.addSession(session);
         
         this.logger.info(`Player authenticated: User ${userId}`);
         
@@ -275,8 +441,27 @@ export class GameService {
         });
     }
 
+    private rejectAuthentication(ws: WebSocket, reason: AuthFailureReason, message: string): void {
+        this.logger.warn(`WebSocket authentication rejected: ${reason}`);
+
+        this.sendMessage(ws, { 
+            type: 'auth_failed', 
+            data: { reason, message } 
+        });
+
+        this.handleDisconnection(ws);
+        ws.close(this.AUTH_FAILED_CLOSE_CODE, reason);
+    }
+
+    private isSessionTokenValid(session: PlayerSession): boolean {
+        if (this.authService.isTokenRevoked(session.token)) {
+            return false;
+        }
+        return session.tokenExpiresAt === undefined || session.tokenExpiresAt > Date.now();
+    }
+
     private async handleCharacterSelection(ws: WebSocket, data: any): Promise<void> {
-        const session = this.activeSessions.get(ws);
+        const session = this.playerManager.getSession(ws);
         if (!session) {
             this.sendMessage(ws, { 
                 type: 'error', 
@@ -299,6 +484,11 @@ export class GameService {
         session.characterId = characterId;
         session.character = character;
 
+        // Characters that logged out dead come back at the town point
+        if (character.current_hp <= 0) {
+            await this.combatService.respawnCharacter(character.id);
+        }
+
         this.logger.info(`Character selected: ${character.name} (ID: ${characterId})`);
 
         this.sendMessage(ws, { 
@@ -309,6 +499,10 @@ export class GameService {
                     name: character.name,
                     class: character.class,
                     level: character.level,
+                    hp: character.hp,
+                    mp: character.mp,
+                    currentHp: character.current_hp,
+                    currentMp: character.current_mp,
                     position: {
                         x: character.x_position,
                         y: character.y_position,
@@ -318,6 +512,31 @@ export class GameService {
             }
         });
 
+        this.sendMessage(ws, { 
+            type: 'ground_items', 
+            data: {
+                drops: this.lootService.getDropsOnMap(character.map_id)
+                    .map(drop => this.lootService.getDropPublicData(drop))
+            }
+        });
+
+        this.sendMessage(ws, { 
+            type: 'npcs', 
+            data: {
+                vendors: this.shopService.getVendorsOnMap(character.map_id)
+                    .map(vendor => this.shopService.getVendorPublicData(vendor)),
+                bankers: this.bankService.getBankersOnMap(character.map_id)
+                    .map(banker => this.bankService.getBankerPublicData(banker)),
+                craftingStations: this.craftingService.getStationsOnMap(character.map_id)
+                    .map(station => this.craftingService.getStationPublicData(station))
+            }
+        });
+
+        this.sendMessage(ws, { 
+            type: 'mail_status', 
+            data: { unread: await this.mailService.getUnreadCount(character.id) }
+        });
+
         // Broadcast to other players that this character entered the world
         this.broadcastToMap(character.map_id, {
             type: 'player_entered',
@@ -333,7 +552,7 @@ export class GameService {
     }
 
     private async handleMovement(ws: WebSocket, data: any): Promise<void> {
-        const session = this.activeSessions.get(ws);
+        const session = this.playerManager.getSession(ws);
         if (!session || !session.character) {
             this.sendMessage(ws, { 
                 type: 'error', 
@@ -342,6 +561,14 @@ export class GameService {
             return;
         }
 
+        if (session.character.current_hp <= 0) {
+            this.sendMessage(ws, { 
+                type: 'error', 
+                data: { message: 'You are dead' } 
+            });
+            return;
+        }
+
         const { x, y, mapId } = data;
         
         // Basic validation (in a real game, you'd validate movement properly)
@@ -359,6 +586,8 @@ export class GameService {
             session.character.map_id = mapId;
         }
 
+        this.tradeService.handleMovement(session.character.id);
+
         // Broadcast movement to other players on the same map
         this.broadcastToMap(session.character.map_id, {
             type: 'player_moved',
@@ -370,7 +599,7 @@ export class GameService {
     }
 
     private async handleChat(ws: WebSocket, data: any): Promise<void> {
-        const session = this.activeSessions.get(ws);
+        const session = this.playerManager.getSession(ws);
         if (!session || !session.character) {
             return;
         }
@@ -404,14 +633,472 @@ export class GameService {
         }
     }
 
+    private async handleAttack(ws: WebSocket, data: any): Promise<void> {
+        const session = this.playerManager.getSession(ws);
+        if (!session || !session.character) {
+            this.sendMessage(ws, { 
+                type: 'error', 
+                data: { message: 'No character selected' } 
+            });
+            return;
+        }
+
+        const { monsterId } = data || {};
+        const monster = typeof monsterId === 'string' ? this.monsterService.getMonsterById(monsterId) : null;
+
+        const attack = await this.combatService.calculatePlayerAttack(session.character.id, monster);
+        if (!attack.success || !monster) {
+            this.sendMessage(ws, { 
+                type: 'attack_failed', 
+                data: { monsterId, reason: attack.reason, message: attack.message } 
+            });
+            return;
+        }
+
+        const result = this.monsterService.damageMonster(monster.id, attack.damage || 0, session.character.id);
+
+        this.sendMessage(ws, { 
+            type: 'attack_result', 
+            data: {
+                monsterId: monster.id,
+                damage: result.damage,
+                isCritical: attack.isCritical,
+                killed: result.killed,
+                experience: result.experience,
+                gold: result.gold
+            } 
+        });
+
+        if (result.killed) {
+            const reward = await this.rewardService.grantKillRewards(session.character.id, result.experience, result.gold);
+            if (reward) {
+                this.applyReward(session, monster.id, reward);
+            }
+        }
+    }
+
+    private applyReward(session: PlayerSession, monsterId: string, reward: KillRewardResult): void {
+        if (session.character) {
+            Object.assign(session.character, reward.stats, {
+                experience: reward.totalExperience,
+                level: reward.newLevel
+            });
+        }
+
+        this.sendMessage(session.ws, { 
+            type: 'reward', 
+            data: {
+                source: { type: 'monster_kill', monsterId },
+                experience: reward.experienceGained,
+                gold: reward.goldGained,
+                totalExperience: reward.totalExperience,
+                level: reward.newLevel
+            } 
+        });
+
+        if (reward.levelsGained > 0) {
+            this.sendMessage(session.ws, { 
+                type: GAME_EVENTS.PLAYER_LEVEL_UP, 
+                data: {
+                    characterId: reward.characterId,
+                    previousLevel: reward.previousLevel,
+                    newLevel: reward.newLevel,
+                    levelsGained: reward.levelsGained,
+                    stats: reward.stats
+                } 
+            });
+        }
+    }
+
+    private async handleRespawn(ws: WebSocket): Promise<void> {
+        const session = this.playerManager.getSession(ws);
+        if (!session || !session.character) {
+            this.sendMessage(ws, { 
+                type: 'error', 
+                data: { message: 'No character selected' } 
+            });
+            return;
+        }
+
+        const result = await this.combatService.respawnCharacter(session.character.id);
+        if (!result.success) {
+            this.sendMessage(ws, { 
+                type: 'respawn_failed', 
+                data: { message: result.message } 
+            });
+            return;
+        }
+
+        this.tradeService.handleMovement(session.character.id);
+    }
+
+    private async handlePickup(ws: WebSocket, data: any): Promise<void> {
+        const session = this.playerManager.getSession(ws);
+        if (!session || !session.character) {
+            this.sendMessage(ws, { 
+                type: 'error', 
+                data: { message: 'No character selected' } 
+            });
+            return;
+        }
+
+        const { dropId } = data || {};
+        const result = await this.lootService.pickupDrop(session.character, dropId);
+
+        if (!result.success) {
+            this.sendMessage(ws, { 
+                type: 'pickup_failed', 
+                data: { dropId, reason: result.reason, message: result.message } 
+            });
+        }
+    }
+
+    private async handleUseItem(ws: WebSocket, data: any): Promise<void> {
+        const session = this.playerManager.getSession(ws);
+        if (!session || !session.character) {
+            this.sendMessage(ws, { 
+                type: 'error', 
+                data: { message: 'No character selected' } 
+            });
+            return;
+        }
+
+        const { instanceId } = data || {};
+        const result = await this.consumableService.useItem(session.character.id, instanceId);
+
+        // Teleport scrolls move the character
+        if (result.success) {
+            this.tradeService.handleMovement(session.character.id);
+        }
+
+        // HP/MP, position and buff changes arrive separately as character_updated
+        this.sendMessage(ws, { 
+            type: result.success ? 'item_used' : 'use_item_failed', 
+            data: { 
+                instanceId,
+                itemId: result.itemId,
+                reason: result.reason,
+                message: result.message,
+                cooldownUntil: result.cooldownUntil
+            } 
+        });
+    }
+
+    private async handleInventoryAction(ws: WebSocket, action: string, data: any): Promise<void> {
+        const session = this.playerManager.getSession(ws);
+        if (!session || !session.character) {
+            this.sendMessage(ws, { 
+                type: 'error', 
+                data: { message: 'No character selected' } 
+            });
+            return;
+        }
+
+        const characterId = session.character.id;
+        const params = data || {};
+        let result: InventoryResult;
+
+        switch (action) {
+            case 'unequip':
+                result = await this.itemService.unequipItem(characterId, params.instanceId);
+                break;
+            case 'move_item':
+                result = await this.itemService.moveItem(characterId, params.instanceId, params.position);
+                break;
+            case 'swap_items':
+                result = await this.itemService.swapItems(characterId, params.instanceId, params.targetInstanceId);
+                break;
+            case 'split_stack':
+                result = await this.itemService.splitStack(characterId, params.instanceId, params.quantity, params.position);
+                break;
+            case 'lock_item':
+                result = await this.itemService.setItemLocked(characterId, params.instanceId, !!params.locked);
+                break;
+            default:
+                result = await this.itemService.mergeStack(characterId, params.instanceId, params.targetInstanceId);
+        }
+
+        if (!result.success) {
+            this.sendMessage(ws, { 
+                type: 'inventory_failed', 
+                data: { action, reason: result.reason, message: result.message } 
+            });
+            return;
+        }
+
+        this.sendMessage(ws, { 
+            type: 'inventory_updated', 
+            data: { 
+                action,
+                message: result.message,
+                inventory: await this.itemService.getPlayerInventory(characterId)
+            } 
+        });
+    }
+
+    private async handleSalvage(ws: WebSocket, action: string, data: any): Promise<void> {
+        const session = this.playerManager.getSession(ws);
+        if (!session || !session.character) {
+            this.sendMessage(ws, { 
+                type: 'error', 
+                data: { message: 'No character selected' } 
+            });
+            return;
+        }
+
+        const characterId = session.character.id;
+        const params = data || {};
+        const result: SalvageResult = action === 'salvage_all'
+            ? await this.salvageService.salvageAll(characterId, params.rarity)
+            : await this.salvageService.salvage(characterId, Array.isArray(params.instanceIds) ? params.instanceIds : []);
+
+        if (!result.success) {
+            this.sendMessage(ws, { 
+                type: 'salvage_failed', 
+                data: { action, reason: result.reason, message: result.message } 
+            });
+            return;
+        }
+
+        this.sendMessage(ws, { 
+            type: 'salvage_result', 
+            data: { 
+                action,
+                message: result.message,
+                salvaged: result.salvaged,
+                materials: result.materials,
+                inventory: await this.itemService.getPlayerInventory(characterId)
+            } 
+        });
+    }
+
+    private async handleShopOpen(ws: WebSocket, data: any): Promise<void> {
+        const session = this.playerManager.getSession(ws);
+        if (!session || !session.character) {
+            this.sendMessage(ws, { 
+                type: 'error', 
+                data: { message: 'No character selected' } 
+            });
+            return;
+        }
+
+        const { vendorId } = data || {};
+        const shop = this.shopService.getShopView(vendorId, session.character.id);
+
+        if (!shop) {
+            this.sendMessage(ws, { 
+                type: 'shop_failed', 
+                data: { action: 'shop_open', vendorId, reason: 'vendor_not_found', message: 'Vendor not found' } 
+            });
+            return;
+        }
+
+        this.sendMessage(ws, { type: 'shop_opened', data: { shop } });
+    }
+
+    private async handleShopAction(ws: WebSocket, action: string, data: any): Promise<void> {
+        const session = this.playerManager.getSession(ws);
+        if (!session || !session.character) {
+            this.sendMessage(ws, { 
+                type: 'error', 
+                data: { message: 'No character selected' } 
+            });
+            return;
+        }
+
+        const characterId = session.character.id;
+        const params = data || {};
+        let result: ShopResult;
+
+        switch (action) {
+            case 'shop_buy':
+                result = await this.shopService.buyItem(characterId, params.vendorId, params.itemId, params.quantity ?? 1);
+                break;
+            case 'shop_sell':
+                result = await this.shopService.sellItem(characterId, params.vendorId, params.instanceId, params.quantity ?? 1);
+                break;
+            default:
+                result = await this.shopService.buyBack(characterId, params.vendorId, params.buybackId);
+        }
+
+        if (!result.success) {
+            this.sendMessage(ws, { 
+                type: 'shop_failed', 
+                data: { action, vendorId: params.vendorId, reason: result.reason, message: result.message } 
+            });
+            return;
+        }
+
+        this.sendMessage(ws, { 
+            type: 'shop_updated', 
+            data: { 
+                action,
+                message: result.message,
+                gold: result.gold,
+                shop: this.shopService.getShopView(params.vendorId, characterId),
+                inventory: await this.itemService.getPlayerInventory(characterId)
+            } 
+        });
+    }
+
+    private async handleBankAction(ws: WebSocket, action: string, data: any): Promise<void> {
+        const session = this.playerManager.getSession(ws);
+        if (!session || !session.character) {
+            this.sendMessage(ws, { 
+                type: 'error', 
+                data: { message: 'No character selected' } 
+            });
+            return;
+        }
+
+        const characterId = session.character.id;
+        const params = data || {};
+        let result: BankResult;
+
+        switch (action) {
+            case 'bank_open':
+                result = await this.bankService.openBank(characterId, params.bankerId);
+                break;
+            case 'bank_deposit':
+                result = await this.bankService.deposit(characterId, params.bankerId, params.instanceId, params.quantity ?? 1, params.tab);
+                break;
+            case 'bank_withdraw':
+                result = await this.bankService.withdraw(characterId, params.bankerId, params.instanceId, params.quantity ?? 1);
+                break;
+            case 'bank_deposit_gold':
+                result = await this.bankService.depositGold(characterId, params.bankerId, params.amount);
+                break;
+            case 'bank_withdraw_gold':
+                result = await this.bankService.withdrawGold(characterId, params.bankerId, params.amount);
+                break;
+            default:
+                result = await this.bankService.buyTab(characterId, params.bankerId);
+        }
+
+        if (!result.success) {
+            this.sendMessage(ws, { 
+                type: 'bank_failed', 
+                data: { action, bankerId: params.bankerId, reason: result.reason, message: result.message } 
+            });
+            return;
+        }
+
+        this.sendMessage(ws, { 
+            type: action === 'bank_open' ? 'bank_opened' : 'bank_updated', 
+            data: { 
+                action,
+                message: result.message,
+                gold: result.gold,
+                bank: result.bank,
+                inventory: await this.itemService.getPlayerInventory(characterId)
+            } 
+        });
+    }
+
+    private async handleCraft(ws: WebSocket, data: any): Promise<void> {
+        const session = this.playerManager.getSession(ws);
+        if (!session || !session.character) {
+            this.sendMessage(ws, { 
+                type: 'error', 
+                data: { message: 'No character selected' } 
+            });
+            return;
+        }
+
+        const characterId = session.character.id;
+        const { stationId, recipeId, count } = data || {};
+        const result = await this.craftingService.craft(characterId, stationId, recipeId, count ?? 1);
+
+        if (!result.success) {
+            this.sendMessage(ws, { 
+                type: 'craft_failed', 
+                data: { stationId, recipeId, reason: result.reason, message: result.message } 
+            });
+            return;
+        }
+
+        this.sendMessage(ws, { 
+            type: 'craft_result', 
+            data: { 
+                recipeId,
+                message: result.message,
+                crafted: result.crafted,
+                experienceGained: result.experienceGained,
+                skill: result.skill,
+                gold: result.gold,
+                inventory: await this.itemService.getPlayerInventory(characterId)
+            } 
+        });
+    }
+
+    private async handleTradeAction(ws: WebSocket, action: string, data: any): Promise<void> {
+        const session = this.playerManager.getSession(ws);
+        if (!session || !session.character) {
+            this.sendMessage(ws, { 
+                type: 'error', 
+                data: { message: 'No character selected' } 
+            });
+            return;
+        }
+
+        const characterId = session.character.id;
+        const params = data || {};
+        let result: TradeResult;
+
+        // Trade state changes reach both players as trade_opened/updated/cancelled/completed
+        switch (action) {
+            case 'trade_request':
+                result = await this.tradeService.requestTrade(characterId, params.targetCharacterId);
+                break;
+            case 'trade_respond':
+                result = await this.tradeService.respondToRequest(characterId, params.fromCharacterId, !!params.accept);
+                break;
+            case 'trade_add_item':
+                result = await this.tradeService.addItem(characterId, params.instanceId, params.quantity ?? 1);
+                break;
+            case 'trade_remove_item':
+                result = await this.tradeService.removeItem(characterId, params.instanceId);
+                break;
+            case 'trade_set_gold':
+                result = await this.tradeService.setGold(characterId, params.amount);
+                break;
+            case 'trade_lock':
+                result = await this.tradeService.lock(characterId);
+                break;
+            case 'trade_confirm':
+                result = await this.tradeService.confirm(characterId);
+                break;
+            default:
+                result = this.tradeService.cancel(characterId)
+                    ? { success: true, message: 'Trade cancelled' }
+                    : { success: false, reason: 'no_trade', message: 'You are not trading' };
+        }
+
+        if (!result.success) {
+            this.sendMessage(ws, { 
+                type: 'trade_failed', 
+                data: { action, reason: result.reason, message: result.message } 
+            });
+        } else if (action === 'trade_request') {
+            this.sendMessage(ws, { 
+                type: 'trade_request_sent', 
+                data: { targetCharacterId: params.targetCharacterId, message: result.message } 
+            });
+        }
+    }
+
     public handleDisconnection(ws: WebSocket): void {
-        const session = this.activeSessions.get(ws);
+        const session = this.playerManager.removeSession(ws);
         
         if (session) {
             this.logger.info(`Player disconnected: User ${session.userId}${session.character ? ` (${session.character.name})` : ''}`);
             
             // Broadcast to other players if character was in world
             if (session.character) {
+                this.combatService.clearCharacter(session.character.id);
+                this.statsService.clearCharacter(session.character.id);
+                this.tradeService.handleDisconnect(session.character.id);
+
                 this.broadcastToMap(session.character.map_id, {
                     type: 'player_left',
                     data: {
@@ -420,52 +1107,38 @@ export class GameService {
                     }
                 }, ws);
             }
-            
-            this.activeSessions.delete(ws);
         }
+
+        this.pendingAuthentications.delete(ws);
     }
 
     private sendMessage(ws: WebSocket, message: GameMessage): void {
-        if (ws.readyState === WebSocket.OPEN) {
-            message.timestamp = new Date().toISOString();
-            ws.send(JSON.stringify(message));
-        }
+        this.playerManager.sendMessage(ws, message);
     }
 
     private broadcast(message: GameMessage): void {
-        message.timestamp = new Date().toISOString();
-        const messageStr = JSON.stringify(message);
-        
-        this.activeSessions.forEach((session) => {
-            if (session.ws.readyState === WebSocket.OPEN) {
-                session.ws.send(messageStr);
-            }
-        });
+        this.playerManager.broadcast(message);
     }
 
     private broadcastToMap(mapId: number, message: GameMessage, excludeWs?: WebSocket): void {
-        message.timestamp = new Date().toISOString();
-        const messageStr = JSON.stringify(message);
-        
-        this.activeSessions.forEach((session) => {
-            if (session.ws !== excludeWs && 
-                session.character && 
-                session.character.map_id === mapId &&
-                session.ws.readyState === WebSocket.OPEN) {
-                session.ws.send(messageStr);
-            }
-        });
+        this.playerManager.broadcastToMap(mapId, message, excludeWs);
     }
 
     private cleanupInactiveSessions(): void {
         const now = new Date();
         const timeout = 10 * 60 * 1000; // 10 minutes
 
-        this.activeSessions.forEach((session, ws) => {
+        this.playerManager.getSessions().forEach((session) => {
+            const ws = session.ws;
             if (now.getTime() - session.lastActivity.getTime() > timeout) {
                 this.logger.info(`Cleaning up inactive session for user ${session.userId}`);
                 ws.close();
-                this.activeSessions.delete(ws);
+                this.handleDisconnection(ws);
+            } else if (!this.isSessionTokenValid(session)) {
+                this.logger.info(`Closing session with invalid token for user ${session.userId}`);
+                this.rejectAuthentication(ws, 
+                    this.authService.isTokenRevoked(session.token) ? 'token_revoked' : 'token_expired',
+                    'Session token is no longer valid');
             }
         });
     }
@@ -1,5 +1,9 @@
-import { IDatabaseService } from '../database/IDatabaseService';
+import { randomUUID } from 'crypto';
+import { IDatabaseService, InventoryStore, Character } from '../database/IDatabaseService';
 import { Logger } from '../utils/Logger';
+import { lootTables, LootEntry, LootQuantity, LootTable, MAX_LOOT_TABLE_DEPTH } from '../game/LootTables';
+import { enhancementConfig, EnhancementTier } from '../game/EnhancementConfig';
+import { affixConfig, AffixKind, RerollCost, StatRange } from '../game/AffixConfig';
 
 export interface Item {
     id: string;
@@ -14,6 +18,8 @@ export interface Item {
     maxStack: number;
     icon: string;
     requirements?: ItemRequirements;
+    slots?: EquipmentSlot[]; // Slots an equippable item may go into
+    use?: ItemUse; // Present on items that can be used from the inventory
 }
 
 export interface ItemStats {
@@ -28,6 +34,16 @@ export interface ItemStats {
     criticalDamage?: number;
 }
 
+export interface ItemUse {
+    category: string; // Items in the same category share a cooldown (gameConfig.itemCooldowns)
+    effect: ItemUseEffect;
+}
+
+export type ItemUseEffect =
+    | { type: 'restore' } // Restores the item's stats.hp / stats.mp
+    | { type: 'buff'; durationMs: number } // Applies the item's stats as a timed buff
+    | { type: 'teleport'; destination: 'town' | { mapId: number; x: number; y: number } };
+
 export interface ItemRequirements {
     level?: number;
     class?: string[];
@@ -37,21 +53,149 @@ export interface ItemRequirements {
 }
 
 export interface InventoryItem {
+    instanceId: string; // Unique per inventory entry, stable across saves
     itemId: string;
     quantity: number;
     equipped: boolean;
     slot?: EquipmentSlot;
+    position?: number; // Grid index in the inventory, unset while equipped
     enhancementLevel?: number;
     enhancementAttempts?: number;
+    enhancementFailStack?: number; // Consecutive failures, raises the next attempt's rate
+    enhancementHistory?: EnhancementRecord[];
+    locked?: boolean; // Set by the player, keeps the instance from being salvaged or sold
+    rolledStats?: ItemStats; // Rolled when dropped, used instead of Item.stats
+    affixes?: ItemAffix[];
 }
 
-export interface PlayerInventory {
-    characterId: number;
+export interface ItemAffix {
+    affixId: string;
+    name: string;
+    kind: AffixKind;
+    stats: ItemStats; // rolled values, added on top of the enhanced base stats
+}
+
+export type EnhanceOutcome = 'success' | 'failed' | 'downgraded' | 'destroyed';
+
+export interface EnhancementRecord {
+    timestamp: string;
+    fromLevel: number;
+    toLevel: number;
+    outcome: EnhanceOutcome;
+    successRate: number;
+    protection: boolean;
+    blessing: boolean;
+}
+
+export interface EnhanceOptions {
+    protection?: boolean; // consume a protection scroll to keep the level on failure
+    blessing?: boolean; // consume a blessing scroll for a higher success rate
+}
+
+export type EnhanceFailureReason =
+    | 'item_not_found'
+    | 'not_enhanceable'
+    | 'max_level'
+    | 'insufficient_gold'
+    | 'insufficient_materials'
+    | 'missing_scroll';
+
+export interface EnhanceResult {
+    success: boolean;
+    reason?: EnhanceFailureReason; // set when no attempt was made
+    outcome?: EnhanceOutcome; // set when an attempt was made
+    newLevel?: number;
+    message: string;
+}
+
+export type RerollTarget = 'stats' | 'affixes';
+
+export type RerollFailureReason =
+    | 'item_not_found'
+    | 'not_rerollable'
+    | 'invalid_target'
+    | 'insufficient_gold'
+    | 'insufficient_materials';
+
+export interface RerollResult {
+    success: boolean;
+    reason?: RerollFailureReason;
+    message: string;
+    item?: InventoryItem; // the instance with its new rolls
+}
+
+export interface BulkEnhanceResult {
+    success: boolean; // target level reached
+    reason?: EnhanceFailureReason; // why the run stopped early without a destroy
+    startLevel: number;
+    finalLevel?: number; // unset if the item was destroyed
+    attempts: EnhanceOutcome[];
+    message: string;
+}
+
+export interface EnhancePreview {
+    instanceId: string;
+    itemId: string;
+    currentLevel: number;
+    nextLevel: number;
+    cost: { gold: number; materials: { itemId: string; quantity: number }[] };
+    successRate: number;
+    destroyChance: number; // of a failure, before protection
+    downgradeChance: number;
+    canAfford: boolean;
+    currentStats: ItemStats;
+    nextStats: ItemStats;
+    statsDiff: ItemStats;
+}
+
+// A grid of item instances, the inventory helpers below work on any of them
+export interface ItemContainer {
     items: InventoryItem[];
     capacity: number;
+}
+
+export interface PlayerInventory extends ItemContainer {
+    characterId: number;
     gold: number;
 }
 
+export type EquipFailureReason =
+    | 'character_not_found'
+    | 'item_not_found'
+    | 'not_in_inventory'
+    | 'not_equippable'
+    | 'invalid_slot'
+    | 'level_too_low'
+    | 'class_not_allowed'
+    | 'insufficient_strength'
+    | 'insufficient_agility'
+    | 'insufficient_intelligence';
+
+export interface EquipResult {
+    success: boolean;
+    reason?: EquipFailureReason;
+    message: string;
+}
+
+export type InventoryFailureReason =
+    | 'item_not_found'
+    | 'item_equipped'
+    | 'not_equipped'
+    | 'inventory_full'
+    | 'invalid_position'
+    | 'position_occupied'
+    | 'not_stackable'
+    | 'different_items'
+    | 'stack_full'
+    | 'invalid_quantity'
+    | 'item_locked';
+
+export interface InventoryResult {
+    success: boolean;
+    reason?: InventoryFailureReason;
+    message: string;
+}
+
 export type ItemType = 
     | 'weapon' 
     | 'armor' 
@@ -82,11 +226,18 @@ export class ItemService {
     private database: IDatabaseService;
     private logger: Logger;
     private itemTemplates: Map<string, Item> = new Map();
+    private equipmentListeners: ((characterId: number) => void)[] = [];
+
+    // Upper bound on attempts made by one enhanceUntil call
+    private readonly MAX_BULK_ENHANCE_ATTEMPTS = 100;
 
     constructor(databaseService: IDatabaseService) {
         this.database = databaseService;
         this.logger = new Logger();
         this.initializeItemTemplates();
+        this.validateLootTables();
+        this.validateEnhancementConfig();
+        this.validateAffixConfig();
     }
 
     private initializeItemTemplates(): void {
@@ -104,7 +255,8 @@ export class ItemService {
                 stackable: false,
                 maxStack: 1,
                 icon: '⚔️',
-                requirements: { level: 1, class: ['warrior', 'assassin'] }
+                requirements: { level: 1, class: ['Warrior', 'Assassin'] },
+                slots: ['weapon']
             },
             {
                 id: 'wooden_bow',
@@ -118,7 +270,8 @@ export class ItemService {
                 stackable: false,
                 maxStack: 1,
                 icon: '🏹',
-                requirements: { level: 1, class: ['archer'] }
+                requirements: { level: 1, class: ['Archer'] },
+                slots: ['weapon']
             },
             {
                 id: 'magic_staff',
@@ -132,7 +285,8 @@ export class ItemService {
                 stackable: false,
                 maxStack: 1,
                 icon: '🔮',
-                requirements: { level: 1, class: ['mage'] }
+                requirements: { level: 1, class: ['Mage'] },
+                slots: ['weapon']
             },
             {
                 id: 'steel_dagger',
@@ -146,7 +300,8 @@ export class ItemService {
                 stackable: false,
                 maxStack: 1,
                 icon: '🗡️',
-                requirements: { level: 5, class: ['assassin'] }
+                requirements: { level: 5, class: ['Assassin'] },
+                slots: ['weapon']
             },
 
             // Armor
@@ -162,7 +317,8 @@ export class ItemService {
                 stackable: false,
                 maxStack: 1,
                 icon: '🥼',
-                requirements: { level: 1 }
+                requirements: { level: 1 },
+                slots: ['chest']
             },
             {
                 id: 'iron_helmet',
@@ -176,7 +332,8 @@ export class ItemService {
                 stackable: false,
                 maxStack: 1,
                 icon: '⛑️',
-                requirements: { level: 3 }
+                requirements: { level: 3 },
+                slots: ['helmet']
             },
             {
                 id: 'chainmail',
@@ -190,7 +347,8 @@ export class ItemService {
                 stackable: false,
                 maxStack: 1,
                 icon: '🛡️',
-                requirements: { level: 8, strength: 15 }
+                requirements: { level: 8, strength: 15 },
+                slots: ['chest']
             },
 
             // Accessories
@@ -206,7 +364,8 @@ export class ItemService {
                 stackable: false,
                 maxStack: 1,
                 icon: '💍',
-                requirements: { level: 10 }
+                requirements: { level: 10 },
+                slots: ['ring']
             },
             {
                 id: 'mana_necklace',
@@ -220,7 +379,8 @@ export class ItemService {
                 stackable: false,
                 maxStack: 1,
                 icon: '📿',
-                requirements: { level: 12, class: ['mage'] }
+                requirements: { level: 12, class: ['Mage'] },
+                slots: ['necklace']
             },
 
             // Consumables
@@ -236,7 +396,8 @@ export class ItemService {
                 stackable: true,
                 maxStack: 99,
                 icon: '🧪',
-                requirements: { level: 1 }
+                requirements: { level: 1 },
+                use: { category: 'hp_potion', effect: { type: 'restore' } }
             },
             {
                 id: 'mana_potion',
@@ -250,7 +411,38 @@ export class ItemService {
                 stackable: true,
                 maxStack: 99,
                 icon: '🔵',
-                requirements: { level: 1 }
+                requirements: { level: 1 },
+                use: { category: 'mp_potion', effect: { type: 'restore' } }
+            },
+            {
+                id: 'strength_elixir',
+                name: 'Strength Elixir',
+                description: 'Grants +10 strength and +5 attack for 5 minutes.',
+                type: 'consumable',
+                rarity: 'uncommon',
+                level: 5,
+                stats: { strength: 10, attack: 5 },
+                price: 150,
+                stackable: true,
+                maxStack: 20,
+                icon: '⚗️',
+                requirements: { level: 5 },
+                use: { category: 'elixir', effect: { type: 'buff', durationMs: 5 * 60 * 1000 } }
+            },
+            {
+                id: 'return_scroll',
+                name: 'Scroll of Return',
+                description: 'Teleports you to the town of your current map.',
+                type: 'consumable',
+                rarity: 'common',
+                level: 1,
+                stats: {},
+                price: 50,
+                stackable: true,
+                maxStack: 20,
+                icon: '📜',
+                requirements: { level: 1 },
+                use: { category: 'scroll', effect: { type: 'teleport', destination: 'town' } }
             },
 
             // Materials
@@ -281,6 +473,34 @@ export class ItemService {
                 maxStack: 99,
                 icon: '💎',
                 requirements: {}
+            },
+            {
+                id: 'protection_scroll',
+                name: 'Scroll of Protection',
+                description: 'Keeps an item from losing levels or breaking when an enhancement fails.',
+                type: 'material',
+                rarity: 'rare',
+                level: 1,
+                stats: {},
+                price: 500,
+                stackable: true,
+                maxStack: 99,
+                icon: '🛡️',
+                requirements: {}
+            },
+            {
+                id: 'blessing_scroll',
+                name: 'Scroll of Blessing',
+                description: 'Raises the success rate of an enhancement attempt.',
+                type: 'material',
+                rarity: 'uncommon',
+                level: 1,
+                stats: {},
+                price: 300,
+                stackable: true,
+                maxStack: 99,
+                icon: '✨',
+                requirements: {}
             }
         ];
 
@@ -292,6 +512,18 @@ export class ItemService {
         this.logger.info(`Loaded ${items.length} item templates`);
     }
 
+    /**
+     * Registers a callback for whenever a character's equipped gear, its
+     * enhancement or its rolled stats change.
+     */
+    public onEquipmentChanged(listener: (characterId: number) => void): void {
+        this.equipmentListeners.push(listener);
+    }
+
+    private notifyEquipmentChanged(characterId: number): void {
+        this.equipmentListeners.forEach(listener => listener(characterId));
+    }
+
     public getAllItems(): Item[] {
         return Array.from(this.itemTemplates.values());
     }
@@ -322,353 +554,1478 @@ export class ItemService {
 
     public async getPlayerInventory(characterId: number): Promise<PlayerInventory> {
         try {
-            const inventory = await this.database.getInventory(characterId);
-
-            if (!inventory) {
-                // Create new inventory
-                const newInventory: PlayerInventory = {
-                    characterId,
-                    items: [],
-                    capacity: 30,
-                    gold: 0
-                };
-
-                await this.database.createInventory(characterId);
-                return newInventory;
-            }
-
-            return {
-                characterId: inventory.characterId,
-                items: JSON.parse(inventory.items || '[]'),
-                capacity: inventory.capacity || 30,
-                gold: inventory.gold || 0
-            };
+            return await this.loadInventory(this.database, characterId);
         } catch (error) {
             this.logger.error('Error getting player inventory:', error);
             throw error;
         }
     }
 
-    public async addItemToInventory(characterId: number, itemId: string, quantity: number = 1): Promise<boolean> {
-        try {
-            const inventory = await this.getPlayerInventory(characterId);
-            const item = this.getItemById(itemId);
+    /**
+     * Loads the inventories of the given characters inside one inventory
+     * transaction and runs work on them. Whatever work changed, items or gold,
+     * is saved together once it returns and nothing is saved if it throws, so
+     * work must validate before it mutates.
+     */
+    public async mutateInventories<T>(characterIds: number[], work: (inventories: PlayerInventory[]) => Promise<T> | T): Promise<T> {
+        return this.database.runInventoryTransaction(characterIds, store =>
+            this.mutateInventoriesInTransaction(store, characterIds, work)
+        );
+    }
 
-            if (!item) {
-                this.logger.error(`Item not found: ${itemId}`);
-                return false;
-            }
+    /**
+     * mutateInventories against a transaction the caller already holds, for
+     * transactions that also cover more than inventories (the account bank).
+     * The characters must be locked by that transaction.
+     */
+    public async mutateInventoriesInTransaction<T>(
+        store: InventoryStore,
+        characterIds: number[],
+        work: (inventories: PlayerInventory[]) => Promise<T> | T
+    ): Promise<T> {
+        const inventories: PlayerInventory[] = [];
+        for (const characterId of characterIds) {
+            inventories.push(await this.loadInventory(store, characterId));
+        }
 
-            // Check if item is stackable and already exists
-            if (item.stackable) {
-                const existingItem = inventory.items.find(inv => inv.itemId === itemId);
-                if (existingItem) {
-                    const newQuantity = existingItem.quantity + quantity;
-                    if (newQuantity <= item.maxStack) {
-                        existingItem.quantity = newQuantity;
-                    } else {
-                        this.logger.error(`Cannot add ${quantity} ${item.name}, would exceed max stack`);
-                        return false;
-                    }
-                } else {
-                    inventory.items.push({
-                        itemId,
-                        quantity: Math.min(quantity, item.maxStack),
-                        equipped: false
-                    });
-                }
-            } else {
-                // Non-stackable items
-                for (let i = 0; i < quantity; i++) {
-                    if (inventory.items.length >= inventory.capacity) {
-                        this.logger.error('Inventory is full');
-                        return false;
-                    }
-                    inventory.items.push({
-                        itemId,
-                        quantity: 1,
-                        equipped: false
-                    });
-                }
-            }
+        const snapshots = inventories.map(inventory => ({
+            items: JSON.stringify(inventory.items),
+            gold: inventory.gold
+        }));
 
-            // Save to database
-            await this.database.updateInventoryItems(characterId, JSON.stringify(inventory.items));
+        const result = await work(inventories);
 
-            this.logger.info(`Added ${quantity}x ${item.name} to character ${characterId}'s inventory`);
-            return true;
-        } catch (error) {
-            this.logger.error('Error adding item to inventory:', error);
-            return false;
+        const changedItems = inventories
+            .map((inventory, i) => ({ inventory, items: JSON.stringify(inventory.items), snapshot: snapshots[i] }))
+            .filter(entry => entry.items !== entry.snapshot.items);
+
+        // Instance ids are unique across all inventory rows, so when instances
+        // move between characters every old row has to go before any new one
+        if (changedItems.length > 1) {
+            for (const { inventory } of changedItems) {
+                await store.updateInventoryItems(inventory.characterId, '[]');
+            }
         }
-    }
 
-    public async removeItemFromInventory(characterId: number, itemId: string, quantity: number = 1): Promise<boolean> {
-        try {
-            const inventory = await this.getPlayerInventory(characterId);
-            const itemIndex = inventory.items.findIndex(inv => inv.itemId === itemId);
+        for (const { inventory, items } of changedItems) {
+            await store.updateInventoryItems(inventory.characterId, items);
+        }
 
-            if (itemIndex === -1) {
-                this.logger.error(`Item ${itemId} not found in inventory`);
-                return false;
+        for (let i = 0; i < inventories.length; i++) {
+            if (inventories[i].gold !== snapshots[i].gold) {
+                await store.updateInventoryGold(inventories[i].characterId, inventories[i].gold);
             }
+        }
 
-            const inventoryItem = inventory.items[itemIndex];
-            if (inventoryItem.quantity < quantity) {
-                this.logger.error(`Not enough ${itemId} in inventory`);
-                return false;
-            }
+        return result;
+    }
 
-            if (inventoryItem.quantity === quantity) {
-                inventory.items.splice(itemIndex, 1);
-            } else {
-                inventoryItem.quantity -= quantity;
-            }
+    public async mutateInventory<T>(characterId: number, work: (inventory: PlayerInventory) => Promise<T> | T): Promise<T> {
+        return this.mutateInventories([characterId], ([inventory]) => work(inventory));
+    }
 
-            // Save to database
-            await this.database.updateInventoryItems(characterId, JSON.stringify(inventory.items));
+    private async loadInventory(store: InventoryStore, characterId: number): Promise<PlayerInventory> {
+        const inventory = await store.getInventory(characterId);
 
-            return true;
-        } catch (error) {
-            this.logger.error('Error removing item from inventory:', error);
-            return false;
+        if (!inventory) {
+            // Create new inventory
+            const newInventory: PlayerInventory = {
+                characterId,
+                items: [],
+                capacity: 30,
+                gold: 0
+            };
+
+            await store.createInventory(characterId);
+            return newInventory;
+        }
+
+        const { items, migrated } = this.migrateInventoryItems(JSON.parse(inventory.items || '[]'));
+        const capacity = inventory.capacity || 30;
+        const positioned = this.assignPositions(items, capacity);
+        if (migrated || positioned) {
+            await store.updateInventoryItems(characterId, JSON.stringify(items));
+            this.logger.info(`Migrated inventory of character ${characterId} to item instances`);
         }
+
+        return {
+            characterId,
+            items,
+            capacity,
+            gold: inventory.gold || 0
+        };
     }
 
-    public async equipItem(characterId: number, itemId: string, slot: EquipmentSlot): Promise<boolean> {
-        try {
-            const inventory = await this.getPlayerInventory(characterId);
-            const item = this.getItemById(itemId);
+    public async getInventoryItem(characterId: number, instanceId: string): Promise<InventoryItem | null> {
+        const inventory = await this.getPlayerInventory(characterId);
+        return inventory.items.find(inv => inv.instanceId === instanceId) || null;
+    }
 
-            if (!item) {
-                return false;
+    /**
+     * Inventories saved before item instances existed have no instanceId and
+     * may hold several non-stackable items in one entry; give every entry its
+     * own instance.
+     */
+    private migrateInventoryItems(rawItems: any[]): { items: InventoryItem[]; migrated: boolean } {
+        const items: InventoryItem[] = [];
+        let migrated = false;
+
+        rawItems.forEach(raw => {
+            const item = this.getItemById(raw.itemId);
+            const quantity = raw.quantity || 1;
+
+            if (raw.instanceId && (!item || item.stackable || quantity === 1)) {
+                items.push(raw as InventoryItem);
+                return;
             }
 
-            // Find the item in inventory
-            const inventoryItem = inventory.items.find(inv => inv.itemId === itemId && !inv.equipped);
-            if (!inventoryItem) {
-                return false;
+            migrated = true;
+            if (item && !item.stackable) {
+                for (let i = 0; i < quantity; i++) {
+                    // Only the first copy keeps the equipped slot
+                    items.push({
+                        ...raw,
+                        instanceId: i === 0 && raw.instanceId ? raw.instanceId : randomUUID(),
+                        quantity: 1,
+                        equipped: i === 0 ? !!raw.equipped : false,
+                        slot: i === 0 ? raw.slot : undefined
+                    });
+                }
+            } else {
+                items.push({ ...raw, instanceId: randomUUID() });
             }
+        });
 
-            // Unequip any item in the same slot
-            inventory.items.forEach(inv => {
-                if (inv.slot === slot) {
-                    inv.equipped = false;
-                    inv.slot = undefined;
+        return { items, migrated };
+    }
+
+    /**
+     * Gives every unequipped item a unique grid position within capacity and
+     * clears positions from equipped items. Returns true if anything changed.
+     */
+    private assignPositions(items: InventoryItem[], capacity: number): boolean {
+        const taken = new Set<number>();
+        const unplaced: InventoryItem[] = [];
+        let changed = false;
+
+        items.forEach(inv => {
+            if (inv.equipped) {
+                if (inv.position !== undefined) {
+                    inv.position = undefined;
+                    changed = true;
                 }
-            });
+                return;
+            }
 
-            // Equip the new item
-            inventoryItem.equipped = true;
-            inventoryItem.slot = slot;
+            const position = inv.position;
+            if (position === undefined || position < 0 || position >= capacity || taken.has(position)) {
+                unplaced.push(inv);
+            } else {
+                taken.add(position);
+            }
+        });
 
-            // Save to database
-            await this.database.updateInventoryItems(characterId, JSON.stringify(inventory.items));
+        let next = 0;
+        unplaced.forEach(inv => {
+            while (taken.has(next)) next++;
+            // Legacy inventories over capacity keep their extra items unplaced
+            inv.position = next < capacity ? next : undefined;
+            taken.add(next);
+            changed = true;
+        });
 
-            this.logger.info(`Equipped ${item.name} to ${slot} for character ${characterId}`);
-            return true;
-        } catch (error) {
-            this.logger.error('Error equipping item:', error);
-            return false;
-        }
+        return changed;
     }
 
-    public async updateGold(characterId: number, amount: number): Promise<boolean> {
-        try {
-            const inventory = await this.getPlayerInventory(characterId);
-            inventory.gold = Math.max(0, inventory.gold + amount);
+    private findFreePosition(inventory: ItemContainer): number | null {
+        const [position] = this.findFreePositions(inventory, 1);
+        return position ?? null;
+    }
 
-            await this.database.updateInventoryGold(characterId, inventory.gold);
+    private findFreePositions(inventory: ItemContainer, count: number): number[] {
+        const taken = new Set(
+            inventory.items.filter(inv => !inv.equipped).map(inv => inv.position)
+        );
 
-            return true;
-        } catch (error) {
-            this.logger.error('Error updating gold:', error);
-            return false;
+        const free: number[] = [];
+        for (let position = 0; position < inventory.capacity && free.length < count; position++) {
+            if (!taken.has(position)) {
+                free.push(position);
+            }
         }
+        return free;
     }
 
-    public generateRandomLoot(monsterLevel: number): { itemId: string; quantity: number }[] {
-        const loot: { itemId: string; quantity: number }[] = [];
-        
-        // 70% chance for materials
-        if (Math.random() < 0.7) {
-            loot.push({
-                itemId: 'iron_ore',
-                quantity: Math.floor(Math.random() * 3) + 1
-            });
+    /**
+     * Adds items to a loaded inventory, stacking where possible. Space is
+     * checked up front so a failed add leaves the inventory untouched.
+     */
+    public addItems(inventory: ItemContainer, item: Item, quantity: number): boolean {
+        if (item.stackable) {
+            const existingItem = inventory.items.find(inv => inv.itemId === item.id);
+            if (existingItem) {
+                if (existingItem.quantity + quantity > item.maxStack) {
+                    this.logger.error(`Cannot add ${quantity} ${item.name}, would exceed max stack`);
+                    return false;
+                }
+                existingItem.quantity += quantity;
+                return true;
+            }
+
+            const position = this.findFreePosition(inventory);
+            if (position === null) {
+                this.logger.error('Inventory is full');
+                return false;
+            }
+            inventory.items.push(this.createInventoryItem(item.id, Math.min(quantity, item.maxStack), position));
+            return true;
         }
 
-        // 30% chance for consumables
-        if (Math.random() < 0.3) {
-            loot.push({
-                itemId: Math.random() < 0.6 ? 'health_potion' : 'mana_potion',
-                quantity: Math.floor(Math.random() * 2) + 1
-            });
+        // Non-stackable items each take their own grid position
+        const positions = this.findFreePositions(inventory, quantity);
+        if (positions.length < quantity) {
+            this.logger.error('Inventory is full');
+            return false;
         }
+        positions.forEach(position => inventory.items.push(this.createInventoryItem(item.id, 1, position)));
+        return true;
+    }
 
-        // Rare equipment drops based on monster level
-        if (monsterLevel >= 5 && Math.random() < 0.1) {
-            const rareItems = ['steel_dagger', 'chainmail', 'power_ring'];
-            loot.push({
-                itemId: rareItems[Math.floor(Math.random() * rareItems.length)],
-                quantity: 1
-            });
+    /**
+     * Takes quantity out of one unequipped instance of a loaded inventory and
+     * returns it detached: the whole entry, or a new instance for part of a
+     * stack. Returns null, leaving the inventory untouched, if it can't.
+     */
+    public takeInstance(inventory: ItemContainer, instanceId: string, quantity: number): InventoryItem | null {
+        const inventoryItem = inventory.items.find(inv => inv.instanceId === instanceId);
+        if (!inventoryItem || inventoryItem.equipped ||
+            !Number.isInteger(quantity) || quantity <= 0 || quantity > inventoryItem.quantity) {
+            return null;
         }
 
-        return loot;
-    }
+        if (quantity === inventoryItem.quantity) {
+            inventory.items = inventory.items.filter(inv => inv !== inventoryItem);
+            return { ...inventoryItem, position: undefined };
+        }
 
-    public async enhanceItem(characterId: number, itemId: string): Promise<{ success: boolean; newLevel?: number; message: string }> {
-        try {
-            const inventory = await this.getPlayerInventory(characterId);
-            const item = this.getItemById(itemId);
+        inventoryItem.quantity -= quantity;
+        return { ...inventoryItem, instanceId: randomUUID(), quantity, position: undefined };
+    }
 
-            if (!item) {
-                return { success: false, message: 'Item not found' };
+    /**
+     * Puts a detached instance into a loaded inventory, keeping its instance
+     * data. Stackables join an existing stack when it has room.
+     */
+    public insertInstance(inventory: ItemContainer, inventoryItem: InventoryItem): boolean {
+        const item = this.getItemById(inventoryItem.itemId);
+        if (item?.stackable) {
+            const stack = inventory.items.find(inv =>
+                inv.itemId === item.id && !inv.equipped && inv.quantity + inventoryItem.quantity <= item.maxStack
+            );
+            if (stack) {
+                stack.quantity += inventoryItem.quantity;
+                return true;
             }
+        }
 
-            // Find the equipped item
-            const inventoryItem = inventory.items.find(inv => 
-                inv.itemId === itemId && inv.equipped
-            );
+        const position = this.findFreePosition(inventory);
+        if (position === null) {
+            return false;
+        }
 
-            if (!inventoryItem) {
-                return { success: false, message: 'Item must be equipped to enhance' };
-            }
+        inventory.items.push({ ...inventoryItem, equipped: false, slot: undefined, position });
+        return true;
+    }
 
-            const currentLevel = inventoryItem.enhancementLevel || 0;
-            const maxLevel = 15; // Maximum enhancement level
+    // takeInstance for several instances at once, all or nothing
+    public takeInstances(inventory: ItemContainer, requests: { instanceId: string; quantity: number }[]): InventoryItem[] | null {
+        const copy: ItemContainer = { ...inventory, items: inventory.items.map(inv => ({ ...inv })) };
+        const taken: InventoryItem[] = [];
 
-            if (currentLevel >= maxLevel) {
-                return { success: false, message: 'Item is already at maximum enhancement level' };
+        for (const request of requests) {
+            const item = this.takeInstance(copy, request.instanceId, request.quantity);
+            if (!item) {
+                return null;
             }
+            taken.push(item);
+        }
 
-            // Calculate enhancement cost and success rate
-            const cost = this.calculateEnhancementCost(currentLevel);
-            const successRate = this.calculateSuccessRate(currentLevel);
+        inventory.items = copy.items;
+        return taken;
+    }
 
-            // Check if player has enough gold
-            if (inventory.gold < cost.gold) {
-                return { success: false, message: 'Insufficient gold' };
-            }
+    // insertInstance for several instances at once, all or nothing
+    public insertInstances(inventory: ItemContainer, inventoryItems: InventoryItem[]): boolean {
+        const copy: ItemContainer = { ...inventory, items: inventory.items.map(inv => ({ ...inv })) };
 
-            // Check for enhancement materials
-            const materialItem = inventory.items.find(inv => 
-                inv.itemId === 'iron_ore' && inv.quantity >= cost.materials
-            );
+        if (!inventoryItems.every(inventoryItem => this.insertInstance(copy, { ...inventoryItem }))) {
+            return false;
+        }
 
-            if (!materialItem) {
-                return { success: false, message: 'Insufficient materials (Iron Ore required)' };
-            }
+        inventory.items = copy.items;
+        return true;
+    }
 
-            // Deduct cost
-            await this.updateGold(characterId, -cost.gold);
-            await this.removeItemFromInventory(characterId, 'iron_ore', cost.materials);
-
-            // Enhancement attempt
-            const isSuccess = Math.random() * 100 < successRate;
-            inventoryItem.enhancementAttempts = (inventoryItem.enhancementAttempts || 0) + 1;
-
-            if (isSuccess) {
-                inventoryItem.enhancementLevel = currentLevel + 1;
-                
-                // Save updated inventory
-                await this.database.updateInventoryItems(characterId, JSON.stringify(inventory.items));
-
-                this.logger.info(`Enhancement successful: ${item.name} +${inventoryItem.enhancementLevel} for character ${characterId}`);
-                
-                return { 
-                    success: true, 
-                    newLevel: inventoryItem.enhancementLevel,
-                    message: `Enhancement successful! ${item.name} is now +${inventoryItem.enhancementLevel}` 
-                };
-            } else {
-                // Enhancement failed, but item is safe
-                await this.database.updateInventoryItems(characterId, JSON.stringify(inventory.items));
-
-                this.logger.info(`Enhancement failed for character ${characterId}: ${item.name} +${currentLevel}`);
-                
-                return { 
-                    success: false, 
-                    message: 'Enhancement failed! Gold and materials consumed, but item is safe.' 
-                };
-            }
-        } catch (error) {
-            this.logger.error('Error enhancing item:', error);
-            return { success: false, message: 'Enhancement failed due to server error' };
+    /**
+     * Fresh detached instances of a template, split into full stacks, for
+     * handing out items that don't come from an inventory (mail, rewards).
+     */
+    public createInstances(itemId: string, quantity: number): InventoryItem[] | null {
+        const item = this.getItemById(itemId);
+        if (!item || !Number.isInteger(quantity) || quantity <= 0) {
+            return null;
+        }
+
+        const stackSize = item.stackable ? item.maxStack : 1;
+        const instances: InventoryItem[] = [];
+        for (let remaining = quantity; remaining > 0; remaining -= stackSize) {
+            instances.push({
+                instanceId: randomUUID(),
+                itemId,
+                quantity: Math.min(stackSize, remaining),
+                equipped: false
+            });
         }
+        return instances;
     }
 
-    public calculateEnhancementCost(level: number): { gold: number; materials: number } {
-        const baseGoldCost = 100;
-        const baseMaterialCost = 2;
-        
+    private createInventoryItem(itemId: string, quantity: number, position: number): InventoryItem {
         return {
-            gold: baseGoldCost * Math.pow(2, level),
-            materials: baseMaterialCost + level
+            instanceId: randomUUID(),
+            itemId,
+            quantity,
+            equipped: false,
+            position
         };
     }
 
-    public calculateSuccessRate(level: number): number {
-        // Higher level = lower success rate
-        const baseRate = 90;
-        const levelPenalty = level * 8;
-        return Math.max(30, baseRate - levelPenalty); // Minimum 30% success rate
-    }
+    public async addItemToInventory(characterId: number, itemId: string, quantity: number = 1): Promise<boolean> {
+        try {
+            return await this.mutateInventory<boolean>(characterId, inventory => {
+                const item = this.getItemById(itemId);
 
-    public getEnhancedStats(item: Item, enhancementLevel: number): ItemStats {
-        const enhancedStats: ItemStats = {};
-        const multiplier = 1 + (enhancementLevel * 0.15); // 15% increase per level
+                if (!item) {
+                    this.logger.error(`Item not found: ${itemId}`);
+                    return false;
+                }
 
-        Object.entries(item.stats).forEach(([stat, value]) => {
-            if (typeof value === 'number') {
-                enhancedStats[stat as keyof ItemStats] = Math.floor(value * multiplier);
-            }
-        });
+                if (!this.addItems(inventory, item, quantity)) {
+                    return false;
+                }
 
-        return enhancedStats;
+                this.logger.info(`Added ${quantity}x ${item.name} to character ${characterId}'s inventory`);
+                return true;
+            });
+        } catch (error) {
+            this.logger.error('Error adding item to inventory:', error);
+            return false;
+        }
     }
 
-    public async getPlayerEquipment(characterId: number): Promise<{ [slot: string]: InventoryItem & { item: Item } }> {
+    public async removeItemFromInventory(characterId: number, instanceId: string, quantity: number = 1): Promise<boolean> {
         try {
-            const inventory = await this.getPlayerInventory(characterId);
-            const equipment: { [slot: string]: InventoryItem & { item: Item } } = {};
-
-            inventory.items.forEach(invItem => {
-                if (invItem.equipped && invItem.slot) {
-                    const item = this.getItemById(invItem.itemId);
-                    if (item) {
-                        equipment[invItem.slot] = { ...invItem, item };
-                    }
+            return await this.mutateInventory<boolean>(characterId, inventory => {
+                // takeInstance refuses equipped instances and quantities it doesn't hold
+                if (!this.takeInstance(inventory, instanceId, quantity)) {
+                    this.logger.error(`Cannot remove ${quantity} of item instance ${instanceId}`);
+                    return false;
                 }
+                return true;
             });
-
-            return equipment;
         } catch (error) {
-            this.logger.error('Error getting player equipment:', error);
-            return {};
+            this.logger.error('Error removing item from inventory:', error);
+            return false;
         }
     }
 
-    public async addStarterItems(characterId: number, characterClass: string): Promise<void> {
+    // Player-initiated removal; unlike removeItemFromInventory it leaves locked items alone
+    public async discardItem(characterId: number, instanceId: string, quantity: number = 1): Promise<InventoryResult> {
         try {
-            // Add starter items based on character class
-            const starterItems: { [key: string]: string[] } = {
-                warrior: ['iron_sword', 'leather_armor', 'health_potion'],
-                archer: ['wooden_bow', 'leather_armor', 'health_potion'],
-                mage: ['magic_staff', 'leather_armor', 'mana_potion'],
-                assassin: ['steel_dagger', 'leather_armor', 'health_potion']
-            };
+            return await this.mutateInventory<InventoryResult>(characterId, inventory => {
+                const inventoryItem = inventory.items.find(inv => inv.instanceId === instanceId);
+                if (!inventoryItem) {
+                    return { success: false, reason: 'item_not_found', message: 'Item is not in your inventory' };
+                }
 
-            const items = starterItems[characterClass.toLowerCase()] || starterItems.warrior;
+                if (inventoryItem.equipped) {
+                    return { success: false, reason: 'item_equipped', message: 'Unequip the item first' };
+                }
 
-            for (const itemId of items) {
-                await this.addItemToInventory(characterId, itemId, 1);
-            }
+                if (inventoryItem.locked) {
+                    return { success: false, reason: 'item_locked', message: 'Unlock the item first' };
+                }
+
+                if (!this.takeInstance(inventory, instanceId, quantity)) {
+                    return { success: false, reason: 'invalid_quantity', message: 'Invalid quantity' };
+                }
 
-            // Add some starting gold and materials
-            await this.updateGold(characterId, 500);
-            await this.addItemToInventory(characterId, 'iron_ore', 10);
+                return { success: true, message: 'Item removed from inventory' };
+            });
+        } catch (error) {
+            this.logger.error('Error discarding item:', error);
+            return { success: false, message: 'Failed to remove item from inventory' };
+        }
+    }
+
+    /**
+     * Removes a quantity of an item by template id, drawing from as many
+     * unequipped stacks as needed. Used for materials and other costs.
+     */
+    public async consumeItem(characterId: number, itemId: string, quantity: number = 1): Promise<boolean> {
+        try {
+            return await this.mutateInventory<boolean>(characterId, inventory => this.takeItems(inventory, itemId, quantity));
+        } catch (error) {
+            this.logger.error('Error consuming item:', error);
+            return false;
+        }
+    }
+
+    public countItems(inventory: ItemContainer, itemId: string): number {
+        return inventory.items
+            .filter(inv => inv.itemId === itemId && !inv.equipped)
+            .reduce((total, inv) => total + inv.quantity, 0);
+    }
+
+    // Takes from unequipped stacks of a loaded inventory, or leaves it untouched
+    public takeItems(inventory: ItemContainer, itemId: string, quantity: number): boolean {
+        if (this.countItems(inventory, itemId) < quantity) {
+            this.logger.error(`Not enough ${itemId} in inventory`);
+            return false;
+        }
+
+        let remaining = quantity;
+        for (const stack of inventory.items.filter(inv => inv.itemId === itemId && !inv.equipped)) {
+            const taken = Math.min(stack.quantity, remaining);
+            stack.quantity -= taken;
+            remaining -= taken;
+            if (remaining === 0) break;
+        }
+        inventory.items = inventory.items.filter(inv => inv.quantity > 0);
+
+        return true;
+    }
+
+    public async equipItem(characterId: number, instanceId: string, slot: EquipmentSlot): Promise<EquipResult> {
+        try {
+            const character = await this.database.getCharacterById(characterId);
+            if (!character) {
+                return { success: false, reason: 'character_not_found', message: 'Character not found' };
+            }
+
+            const result = await this.mutateInventory<EquipResult>(characterId, inventory => {
+
+                // Find the item in inventory
+                const inventoryItem = inventory.items.find(inv => inv.instanceId === instanceId && !inv.equipped);
+                if (!inventoryItem) {
+                    return { success: false, reason: 'not_in_inventory', message: 'Item is not in your inventory' };
+                }
+
+                const item = this.getItemById(inventoryItem.itemId);
+                if (!item) {
+                    return { success: false, reason: 'item_not_found', message: 'Item not found' };
+                }
+
+                if (!item.slots || item.slots.length === 0) {
+                    return { success: false, reason: 'not_equippable', message: `${item.name} cannot be equipped` };
+                }
+
+                if (!item.slots.includes(slot)) {
+                    return { success: false, reason: 'invalid_slot', message: `${item.name} cannot be equipped in the ${slot} slot` };
+                }
+
+                const requirementFailure = this.checkRequirements(item, character);
+                if (requirementFailure) {
+                    return requirementFailure;
+                }
+
+                // The previous occupant of the slot takes the new item's grid position
+                inventory.items.forEach(inv => {
+                    if (inv.equipped && inv.slot === slot) {
+                        inv.equipped = false;
+                        inv.slot = undefined;
+                        inv.position = inventoryItem.position;
+                    }
+                });
+
+                // Equip the new item
+                inventoryItem.equipped = true;
+                inventoryItem.slot = slot;
+                inventoryItem.position = undefined;
+
+                this.logger.info(`Equipped ${item.name} to ${slot} for character ${characterId}`);
+                return { success: true, message: `${item.name} equipped` };
+            });
+
+            if (result.success) {
+                this.notifyEquipmentChanged(characterId);
+            }
+            return result;
+        } catch (error) {
+            this.logger.error('Error equipping item:', error);
+            return { success: false, message: 'Failed to equip item' };
+        }
+    }
+
+    public async unequipItem(characterId: number, instanceId: string): Promise<InventoryResult> {
+        try {
+            const result = await this.mutateInventory<InventoryResult>(characterId, inventory => {
+                const inventoryItem = inventory.items.find(inv => inv.instanceId === instanceId);
+                if (!inventoryItem) {
+                    return { success: false, reason: 'item_not_found', message: 'Item is not in your inventory' };
+                }
+
+                if (!inventoryItem.equipped) {
+                    return { success: false, reason: 'not_equipped', message: 'Item is not equipped' };
+                }
+
+                const position = this.findFreePosition(inventory);
+                if (position === null) {
+                    return { success: false, reason: 'inventory_full', message: 'Not enough inventory space' };
+                }
+
+                inventoryItem.equipped = false;
+                inventoryItem.slot = undefined;
+                inventoryItem.position = position;
+
+                return { success: true, message: `${this.getItemName(inventoryItem.itemId)} unequipped` };
+            });
+
+            if (result.success) {
+                this.notifyEquipmentChanged(characterId);
+            }
+            return result;
+        } catch (error) {
+            this.logger.error('Error unequipping item:', error);
+            return { success: false, message: 'Failed to unequip item' };
+        }
+    }
+
+    public async moveItem(characterId: number, instanceId: string, position: number): Promise<InventoryResult> {
+        try {
+            return await this.mutateInventory<InventoryResult>(characterId, inventory => {
+                const inventoryItem = inventory.items.find(inv => inv.instanceId === instanceId);
+                if (!inventoryItem) {
+                    return { success: false, reason: 'item_not_found', message: 'Item is not in your inventory' };
+                }
+
+                if (inventoryItem.equipped) {
+                    return { success: false, reason: 'item_equipped', message: 'Unequip the item first' };
+                }
+
+                if (!this.isValidPosition(position, inventory.capacity)) {
+                    return { success: false, reason: 'invalid_position', message: 'Invalid inventory position' };
+                }
+
+                const occupant = inventory.items.find(inv => !inv.equipped && inv.position === position);
+                if (occupant && occupant !== inventoryItem) {
+                    return { success: false, reason: 'position_occupied', message: 'That inventory slot is occupied' };
+                }
+
+                inventoryItem.position = position;
+
+                return { success: true, message: 'Item moved' };
+            });
+        } catch (error) {
+            this.logger.error('Error moving item:', error);
+            return { success: false, message: 'Failed to move item' };
+        }
+    }
+
+    public async swapItems(characterId: number, firstInstanceId: string, secondInstanceId: string): Promise<InventoryResult> {
+        try {
+            return await this.mutateInventory<InventoryResult>(characterId, inventory => {
+                const first = inventory.items.find(inv => inv.instanceId === firstInstanceId);
+                const second = inventory.items.find(inv => inv.instanceId === secondInstanceId);
+                if (!first || !second || first === second) {
+                    return { success: false, reason: 'item_not_found', message: 'Item is not in your inventory' };
+                }
+
+                if (first.equipped || second.equipped) {
+                    return { success: false, reason: 'item_equipped', message: 'Unequip the item first' };
+                }
+
+                [first.position, second.position] = [second.position, first.position];
+
+                return { success: true, message: 'Items swapped' };
+            });
+        } catch (error) {
+            this.logger.error('Error swapping items:', error);
+            return { success: false, message: 'Failed to swap items' };
+        }
+    }
+
+    /**
+     * Moves part of a stack into a new instance, placed at the given position
+     * or the first free one.
+     */
+    public async splitStack(characterId: number, instanceId: string, quantity: number, position?: number): Promise<InventoryResult> {
+        try {
+            return await this.mutateInventory<InventoryResult>(characterId, inventory => {
+                const inventoryItem = inventory.items.find(inv => inv.instanceId === instanceId);
+                if (!inventoryItem) {
+                    return { success: false, reason: 'item_not_found', message: 'Item is not in your inventory' };
+                }
+
+                if (inventoryItem.equipped) {
+                    return { success: false, reason: 'item_equipped', message: 'Unequip the item first' };
+                }
+
+                const item = this.getItemById(inventoryItem.itemId);
+                if (!item || !item.stackable) {
+                    return { success: false, reason: 'not_stackable', message: 'Item cannot be split' };
+                }
+
+                if (!Number.isInteger(quantity) || quantity <= 0 || quantity >= inventoryItem.quantity) {
+                    return { success: false, reason: 'invalid_quantity', message: `Split quantity must be between 1 and ${inventoryItem.quantity - 1}` };
+                }
+
+                let target: number | null;
+                if (position === undefined) {
+                    target = this.findFreePosition(inventory);
+                    if (target === null) {
+                        return { success: false, reason: 'inventory_full', message: 'Not enough inventory space' };
+                    }
+                } else {
+                    if (!this.isValidPosition(position, inventory.capacity)) {
+                        return { success: false, reason: 'invalid_position', message: 'Invalid inventory position' };
+                    }
+                    if (inventory.items.some(inv => !inv.equipped && inv.position === position)) {
+                        return { success: false, reason: 'position_occupied', message: 'That inventory slot is occupied' };
+                    }
+                    target = position;
+                }
+
+                inventoryItem.quantity -= quantity;
+                inventory.items.push(this.createInventoryItem(inventoryItem.itemId, quantity, target));
+
+                return { success: true, message: `Split ${quantity}x ${item.name}` };
+            });
+        } catch (error) {
+            this.logger.error('Error splitting stack:', error);
+            return { success: false, message: 'Failed to split stack' };
+        }
+    }
+
+    /**
+     * Moves as much of the source stack into the target stack as fits; the
+     * source disappears once it is empty.
+     */
+    public async mergeStack(characterId: number, sourceInstanceId: string, targetInstanceId: string): Promise<InventoryResult> {
+        try {
+            return await this.mutateInventory<InventoryResult>(characterId, inventory => {
+                const source = inventory.items.find(inv => inv.instanceId === sourceInstanceId);
+                const target = inventory.items.find(inv => inv.instanceId === targetInstanceId);
+                if (!source || !target || source === target) {
+                    return { success: false, reason: 'item_not_found', message: 'Item is not in your inventory' };
+                }
+
+                if (source.equipped || target.equipped) {
+                    return { success: false, reason: 'item_equipped', message: 'Unequip the item first' };
+                }
+
+                if (source.itemId !== target.itemId) {
+                    return { success: false, reason: 'different_items', message: 'Only stacks of the same item can be merged' };
+                }
+
+                const item = this.getItemById(source.itemId);
+                if (!item || !item.stackable) {
+                    return { success: false, reason: 'not_stackable', message: 'Item cannot be stacked' };
+                }
+
+                const moved = Math.min(source.quantity, item.maxStack - target.quantity);
+                if (moved <= 0) {
+                    return { success: false, reason: 'stack_full', message: `Stack is already at the maximum of ${item.maxStack}` };
+                }
+
+                target.quantity += moved;
+                source.quantity -= moved;
+                inventory.items = inventory.items.filter(inv => inv.quantity > 0);
+
+                return { success: true, message: `Merged ${moved}x ${item.name}` };
+            });
+        } catch (error) {
+            this.logger.error('Error merging stacks:', error);
+            return { success: false, message: 'Failed to merge stacks' };
+        }
+    }
+
+    public async setItemLocked(characterId: number, instanceId: string, locked: boolean): Promise<InventoryResult> {
+        try {
+            return await this.mutateInventory<InventoryResult>(characterId, inventory => {
+                const inventoryItem = inventory.items.find(inv => inv.instanceId === instanceId);
+                if (!inventoryItem) {
+                    return { success: false, reason: 'item_not_found', message: 'Item is not in your inventory' };
+                }
+
+                if (locked) {
+                    inventoryItem.locked = true;
+                } else {
+                    delete inventoryItem.locked;
+                }
+
+                return { success: true, message: locked ? 'Item locked' : 'Item unlocked' };
+            });
+        } catch (error) {
+            this.logger.error('Error locking item:', error);
+            return { success: false, message: 'Failed to lock item' };
+        }
+    }
+
+    private isValidPosition(position: number, capacity: number): boolean {
+        return Number.isInteger(position) && position >= 0 && position < capacity;
+    }
+
+    private getItemName(itemId: string): string {
+        return this.getItemById(itemId)?.name || itemId;
+    }
+
+    /**
+     * Checks an item's requirements against a character's level, class and
+     * base stats. Returns the first unmet requirement, or null.
+     */
+    public checkRequirements(item: Item, character: Character): EquipResult | null {
+        const requirements = item.requirements;
+        if (!requirements) {
+            return null;
+        }
+
+        if (requirements.level !== undefined && character.level < requirements.level) {
+            return { success: false, reason: 'level_too_low', message: `Requires level ${requirements.level}` };
+        }
+
+        if (requirements.class && requirements.class.length > 0 &&
+            !requirements.class.some(cls => cls.toLowerCase() === character.class.toLowerCase())) {
+            return { success: false, reason: 'class_not_allowed', message: `Requires class: ${requirements.class.join(', ')}` };
+        }
+
+        if (requirements.strength !== undefined && character.strength < requirements.strength) {
+            return { success: false, reason: 'insufficient_strength', message: `Requires ${requirements.strength} strength` };
+        }
+
+        // Characters track agility as dexterity
+        if (requirements.agility !== undefined && character.dexterity < requirements.agility) {
+            return { success: false, reason: 'insufficient_agility', message: `Requires ${requirements.agility} agility` };
+        }
+
+        if (requirements.intelligence !== undefined && character.intelligence < requirements.intelligence) {
+            return { success: false, reason: 'insufficient_intelligence', message: `Requires ${requirements.intelligence} intelligence` };
+        }
+
+        return null;
+    }
+
+    public async updateGold(characterId: number, amount: number): Promise<boolean> {
+        try {
+            return await this.mutateInventory<boolean>(characterId, inventory => {
+                inventory.gold = Math.max(0, inventory.gold + amount);
+                return true;
+            });
+        } catch (error) {
+            this.logger.error('Error updating gold:', error);
+            return false;
+        }
+    }
+
+    public generateRandomLoot(monsterLevel: number, lootTableId: string = 'default'): { itemId: string; quantity: number }[] {
+        const table = lootTables[lootTableId];
+        if (!table) {
+            this.logger.error(`Loot table not found: ${lootTableId}`);
+            return [];
+        }
+
+        const loot: { itemId: string; quantity: number }[] = [];
+        this.rollLootTable(table, monsterLevel, loot, 0);
+
+        // Merge stackable drops of the same item
+        const merged: { itemId: string; quantity: number }[] = [];
+        loot.forEach(drop => {
+            const item = this.getItemById(drop.itemId);
+            const existing = item?.stackable ? merged.find(entry => entry.itemId === drop.itemId) : undefined;
+            if (existing && item && existing.quantity + drop.quantity <= item.maxStack) {
+                existing.quantity += drop.quantity;
+            } else {
+                merged.push({ ...drop });
+            }
+        });
+
+        return merged;
+    }
+
+    /**
+     * Checks every loot table against the item templates and each other.
+     * Throws at startup so a typo in the data can't silently drop nothing.
+     */
+    public validateLootTables(): void {
+        const errors: string[] = [];
+
+        const validateEntry = (tableId: string, entry: LootEntry) => {
+            if (entry.weight < 0) {
+                errors.push(`${tableId}: negative weight`);
+            }
+
+            switch (entry.type) {
+                case 'item':
+                    if (!this.itemTemplates.has(entry.itemId)) {
+                        errors.push(`${tableId}: unknown item '${entry.itemId}'`);
+                    }
+                    if (entry.quantity && entry.quantity.min > entry.quantity.max) {
+                        errors.push(`${tableId}: invalid quantity range for '${entry.itemId}'`);
+                    }
+                    break;
+                case 'table':
+                    if (!lootTables[entry.tableId]) {
+                        errors.push(`${tableId}: unknown sub-table '${entry.tableId}'`);
+                    }
+                    break;
+                case 'rarity':
+                    if (entry.tiers.length === 0) {
+                        errors.push(`${tableId}: rarity entry without tiers`);
+                    }
+                    break;
+            }
+        };
+
+        Object.values(lootTables).forEach(table => {
+            (table.guaranteed || []).forEach(entry => validateEntry(table.id, entry));
+            table.entries.forEach(entry => validateEntry(table.id, entry));
+        });
+
+        if (errors.length > 0) {
+            throw new Error(`Invalid loot tables:\n  ${errors.join('\n  ')}`);
+        }
+
+        this.logger.info(`Validated ${Object.keys(lootTables).length} loot tables`);
+    }
+
+    public hasLootTable(lootTableId: string): boolean {
+        return lootTables[lootTableId] !== undefined;
+    }
+
+    private rollLootTable(table: LootTable, monsterLevel: number, loot: { itemId: string; quantity: number }[], depth: number): void {
+        if (depth > MAX_LOOT_TABLE_DEPTH) {
+            this.logger.warn(`Loot table nesting too deep at '${table.id}'`);
+            return;
+        }
+
+        (table.guaranteed || [])
+            .filter(entry => this.isLootEntryAvailable(entry, monsterLevel))
+            .forEach(entry => this.resolveLootEntry(entry, monsterLevel, loot, depth));
+
+        const entries = table.entries.filter(entry => this.isLootEntryAvailable(entry, monsterLevel));
+        const rolls = typeof table.rolls === 'number' ? table.rolls : this.rollQuantity(table.rolls);
+
+        for (let i = 0; i < rolls; i++) {
+            const entry = this.pickWeighted(entries);
+            if (entry) {
+                this.resolveLootEntry(entry, monsterLevel, loot, depth);
+            }
+        }
+    }
+
+    private resolveLootEntry(entry: LootEntry, monsterLevel: number, loot: { itemId: string; quantity: number }[], depth: number): void {
+        switch (entry.type) {
+            case 'item':
+                loot.push({
+                    itemId: entry.itemId,
+                    quantity: entry.quantity ? this.rollQuantity(entry.quantity) : 1
+                });
+                break;
+            case 'table':
+                this.rollLootTable(lootTables[entry.tableId], monsterLevel, loot, depth + 1);
+                break;
+            case 'rarity': {
+                const tier = this.pickWeighted(entry.tiers);
+                if (!tier) break;
+
+                const candidates = this.getItemsByRarity(tier.rarity).filter(item =>
+                    item.level <= monsterLevel &&
+                    (!entry.itemTypes || entry.itemTypes.includes(item.type))
+                );
+                if (candidates.length > 0) {
+                    const item = candidates[Math.floor(Math.random() * candidates.length)];
+                    loot.push({ itemId: item.id, quantity: 1 });
+                }
+                break;
+            }
+            case 'nothing':
+                break;
+        }
+    }
+
+    private isLootEntryAvailable(entry: LootEntry, monsterLevel: number): boolean {
+        return (entry.minLevel === undefined || monsterLevel >= entry.minLevel) &&
+            (entry.maxLevel === undefined || monsterLevel <= entry.maxLevel);
+    }
+
+    private pickWeighted<T extends { weight: number }>(entries: T[]): T | null {
+        const totalWeight = entries.reduce((sum, entry) => sum + entry.weight, 0);
+        if (totalWeight <= 0) return null;
+
+        let random = Math.random() * totalWeight;
+        for (const entry of entries) {
+            random -= entry.weight;
+            if (random < 0) {
+                return entry;
+            }
+        }
+        return entries[entries.length - 1];
+    }
+
+    private rollQuantity(range: LootQuantity): number {
+        return range.min + Math.floor(Math.random() * (range.max - range.min + 1));
+    }
+
+    public async enhanceItem(characterId: number, instanceId: string, options: EnhanceOptions = {}): Promise<EnhanceResult> {
+        try {
+            let equipmentChanged = false;
+
+            // Cost and result are written in one transaction, so a failure
+            // can't leave gold or materials half-spent
+            const result = await this.mutateInventory<EnhanceResult>(characterId, inventory => {
+                const inventoryItem = inventory.items.find(inv => inv.instanceId === instanceId);
+                if (!inventoryItem) {
+                    return { success: false, reason: 'item_not_found', message: 'Item not found in inventory' };
+                }
+
+                const item = this.getItemById(inventoryItem.itemId);
+                if (!item) {
+                    return { success: false, reason: 'item_not_found', message: 'Item not found' };
+                }
+
+                if (!this.isEnhanceable(item)) {
+                    return { success: false, reason: 'not_enhanceable', message: `${item.name} can't be enhanced` };
+                }
+
+                const currentLevel = inventoryItem.enhancementLevel || 0;
+                if (currentLevel >= enhancementConfig.maxLevel) {
+                    return { success: false, reason: 'max_level', message: 'Item is already at maximum enhancement level' };
+                }
+
+                const cost = this.calculateEnhancementCost(currentLevel);
+                if (inventory.gold < cost.gold) {
+                    return { success: false, reason: 'insufficient_gold', message: 'Insufficient gold' };
+                }
+
+                const missing = cost.materials.find(material => this.countItems(inventory, material.itemId) < material.quantity);
+                if (missing) {
+                    return { success: false, reason: 'insufficient_materials', message: `Insufficient materials (${missing.quantity}x ${this.getItemName(missing.itemId)} required)` };
+                }
+
+                const scrolls = [
+                    options.protection ? enhancementConfig.protectionScrollId : null,
+                    options.blessing ? enhancementConfig.blessingScrollId : null
+                ].filter((scrollId): scrollId is string => scrollId !== null);
+
+                const missingScroll = scrolls.find(scrollId => this.countItems(inventory, scrollId) < 1);
+                if (missingScroll) {
+                    return { success: false, reason: 'missing_scroll', message: `You have no ${this.getItemName(missingScroll)}` };
+                }
+
+                // Deduct cost, scrolls are used up whatever the outcome
+                inventory.gold -= cost.gold;
+                cost.materials.forEach(material => this.takeItems(inventory, material.itemId, material.quantity));
+                scrolls.forEach(scrollId => this.takeItems(inventory, scrollId, 1));
+
+                const successRate = this.calculateSuccessRate(currentLevel, inventoryItem.enhancementFailStack || 0, !!options.blessing);
+                const outcome = Math.random() * 100 < successRate
+                    ? 'success'
+                    : this.rollEnhancementFailure(currentLevel, !!options.protection);
+
+                const newLevel = outcome === 'success' ? currentLevel + 1
+                    : outcome === 'downgraded' ? currentLevel - 1
+                    : currentLevel;
+
+                inventoryItem.enhancementAttempts = (inventoryItem.enhancementAttempts || 0) + 1;
+                inventoryItem.enhancementFailStack = outcome === 'success' ? 0 : (inventoryItem.enhancementFailStack || 0) + 1;
+                inventoryItem.enhancementLevel = newLevel;
+                this.recordEnhancement(inventoryItem, {
+                    timestamp: new Date().toISOString(),
+                    fromLevel: currentLevel,
+                    toLevel: newLevel,
+                    outcome,
+                    successRate,
+                    protection: !!options.protection,
+                    blessing: !!options.blessing
+                });
+
+                if (outcome === 'destroyed') {
+                    inventory.items = inventory.items.filter(inv => inv !== inventoryItem);
+                }
+                equipmentChanged = inventoryItem.equipped && outcome !== 'failed';
+
+                this.logger.info(`Enhancement ${outcome}: ${item.name} +${currentLevel} -> +${newLevel} for character ${characterId}`);
+
+                return {
+                    success: outcome === 'success',
+                    outcome,
+                    newLevel: outcome === 'destroyed' ? undefined : newLevel,
+                    message: this.getEnhancementMessage(item, outcome, newLevel)
+                };
+            });
+
+            if (equipmentChanged) {
+                this.notifyEquipmentChanged(characterId);
+            }
+            return result;
+        } catch (error) {
+            this.logger.error('Error enhancing item:', error);
+            return { success: false, message: 'Enhancement failed due to server error' };
+        }
+    }
+
+    /**
+     * Enhances an item one attempt at a time until it reaches targetLevel, the
+     * character runs out of gold, materials or scrolls, or the item breaks.
+     * Each attempt is its own transaction.
+     */
+    public async enhanceUntil(characterId: number, instanceId: string, targetLevel: number, options: EnhanceOptions = {}): Promise<BulkEnhanceResult> {
+        const inventoryItem = await this.getInventoryItem(characterId, instanceId);
+        const item = inventoryItem ? this.getItemById(inventoryItem.itemId) : null;
+        if (!inventoryItem || !item) {
+            return { success: false, reason: 'item_not_found', startLevel: 0, attempts: [], message: 'Item not found in inventory' };
+        }
+
+        if (!this.isEnhanceable(item)) {
+            return { success: false, reason: 'not_enhanceable', startLevel: 0, attempts: [], message: `${item.name} can't be enhanced` };
+        }
+
+        const startLevel = inventoryItem.enhancementLevel || 0;
+        const target = Math.min(targetLevel, enhancementConfig.maxLevel);
+        const attempts: EnhanceOutcome[] = [];
+        let level = startLevel;
+
+        while (level < target && attempts.length < this.MAX_BULK_ENHANCE_ATTEMPTS) {
+            const result = await this.enhanceItem(characterId, instanceId, options);
+            if (!result.outcome) {
+                return {
+                    success: false,
+                    reason: result.reason,
+                    startLevel,
+                    finalLevel: level,
+                    attempts,
+                    message: `Stopped at +${level}: ${result.message}`
+                };
+            }
+
+            attempts.push(result.outcome);
+            if (result.outcome === 'destroyed') {
+                return { success: false, startLevel, attempts, message: result.message };
+            }
+            level = result.newLevel ?? level;
+        }
+
+        const reached = level >= target;
+        return {
+            success: reached,
+            startLevel,
+            finalLevel: level,
+            attempts,
+            message: reached
+                ? `Reached +${level} after ${attempts.length} attempt(s)`
+                : `Stopped at +${level} after ${attempts.length} attempt(s)`
+        };
+    }
+
+    /**
+     * Dry run of the next enhancement attempt: what it costs, its odds and the
+     * stats the item would have on success. Changes nothing.
+     */
+    public async previewEnhancement(characterId: number, instanceId: string, options: EnhanceOptions = {}): Promise<EnhancePreview | null> {
+        const inventory = await this.getPlayerInventory(characterId);
+        const inventoryItem = inventory.items.find(inv => inv.instanceId === instanceId);
+        const item = inventoryItem ? this.getItemById(inventoryItem.itemId) : null;
+        if (!inventoryItem || !item || !this.isEnhanceable(item)) {
+            return null;
+        }
+
+        const currentLevel = inventoryItem.enhancementLevel || 0;
+        const nextLevel = Math.min(currentLevel + 1, enhancementConfig.maxLevel);
+        const cost = this.calculateEnhancementCost(currentLevel);
+        const tier = this.getEnhancementTier(currentLevel);
+
+        const currentStats = this.getEnhancedStats(item, currentLevel, inventoryItem);
+        const nextStats = this.getEnhancedStats(item, nextLevel, inventoryItem);
+        const statsDiff: ItemStats = {};
+        Object.entries(nextStats).forEach(([stat, value]) => {
+            const key = stat as keyof ItemStats;
+            const diff = (value || 0) - (currentStats[key] || 0);
+            if (diff !== 0) {
+                statsDiff[key] = diff;
+            }
+        });
+
+        const scrolls = [
+            options.protection ? enhancementConfig.protectionScrollId : null,
+            options.blessing ? enhancementConfig.blessingScrollId : null
+        ].filter((scrollId): scrollId is string => scrollId !== null);
+
+        const canAfford = currentLevel < enhancementConfig.maxLevel &&
+            inventory.gold >= cost.gold &&
+            cost.materials.every(material => this.countItems(inventory, material.itemId) >= material.quantity) &&
+            scrolls.every(scrollId => this.countItems(inventory, scrollId) >= 1);
+
+        return {
+            instanceId,
+            itemId: item.id,
+            currentLevel,
+            nextLevel,
+            cost,
+            successRate: this.calculateSuccessRate(currentLevel, inventoryItem.enhancementFailStack || 0, !!options.blessing),
+            destroyChance: tier?.destroyChance || 0,
+            downgradeChance: tier?.downgradeChance || 0,
+            canAfford,
+            currentStats,
+            nextStats,
+            statsDiff
+        };
+    }
+
+    public getEnhancementTier(level: number): EnhancementTier | null {
+        return enhancementConfig.tiers.find(tier => level >= tier.minLevel && level <= tier.maxLevel) || null;
+    }
+
+    public calculateEnhancementCost(level: number): { gold: number; materials: { itemId: string; quantity: number }[] } {
+        const tier = this.getEnhancementTier(level);
+
+        return {
+            gold: enhancementConfig.baseGoldCost * Math.pow(2, level),
+            materials: (tier?.materials || []).map(material => ({
+                itemId: material.itemId,
+                quantity: material.quantity + (material.perLevel || 0) * level
+            }))
+        };
+    }
+
+    public calculateSuccessRate(level: number, failStack: number = 0, blessed: boolean = false): number {
+        // Higher level = lower success rate
+        const baseRate = Math.max(
+            enhancementConfig.minSuccessRate,
+            enhancementConfig.baseSuccessRate - level * enhancementConfig.successRatePenaltyPerLevel
+        );
+        const pity = Math.min(enhancementConfig.maxPityBonus, failStack * enhancementConfig.pityRatePerFailure);
+        const blessing = blessed ? enhancementConfig.blessingRateBonus : 0;
+
+        return Math.min(enhancementConfig.maxSuccessRate, baseRate + pity + blessing);
+    }
+
+    /**
+     * Checks every enhancement level below the maximum has a tier and that
+     * tiers only reference known items. Throws so bad config fails at startup.
+     */
+    public validateEnhancementConfig(): void {
+        const errors: string[] = [];
+
+        for (let level = 0; level < enhancementConfig.maxLevel; level++) {
+            const tiers = enhancementConfig.tiers.filter(tier => level >= tier.minLevel && level <= tier.maxLevel);
+            if (tiers.length !== 1) {
+                errors.push(`level ${level} is covered by ${tiers.length} tiers`);
+            }
+        }
+
+        enhancementConfig.tiers.forEach(tier => {
+            tier.materials.forEach(material => {
+                if (!this.itemTemplates.has(material.itemId)) {
+                    errors.push(`tier ${tier.id} uses unknown material ${material.itemId}`);
+                }
+            });
+        });
+
+        [enhancementConfig.protectionScrollId, enhancementConfig.blessingScrollId].forEach(scrollId => {
+            if (!this.itemTemplates.has(scrollId)) {
+                errors.push(`unknown scroll item ${scrollId}`);
+            }
+        });
+
+        if (errors.length > 0) {
+            throw new Error(`Invalid enhancement config: ${errors.join('; ')}`);
+        }
+    }
+
+    private rollEnhancementFailure(level: number, protectedAttempt: boolean): EnhanceOutcome {
+        const tier = this.getEnhancementTier(level);
+        if (!tier || protectedAttempt) {
+            return 'failed';
+        }
+
+        if (Math.random() * 100 < tier.destroyChance) {
+            return 'destroyed';
+        }
+        if (level > 0 && Math.random() * 100 < tier.downgradeChance) {
+            return 'downgraded';
+        }
+        return 'failed';
+    }
+
+    private recordEnhancement(inventoryItem: InventoryItem, record: EnhancementRecord): void {
+        const history = [...(inventoryItem.enhancementHistory || []), record];
+        inventoryItem.enhancementHistory = history.slice(-enhancementConfig.historyLimit);
+    }
+
+    /**
+     * A fresh detached instance for a dropped item. Equipment of the types in
+     * affixConfig rolls its base stats and affixes; anything else is plain.
+     */
+    public createRolledInstance(itemId: string, quantity: number = 1): InventoryItem | null {
+        const item = this.getItemById(itemId);
+        if (!item || !Number.isInteger(quantity) || quantity <= 0) {
+            return null;
+        }
+
+        const instance: InventoryItem = { instanceId: randomUUID(), itemId, quantity, equipped: false };
+        if (this.isRollable(item)) {
+            instance.rolledStats = this.rollBaseStats(item);
+            instance.affixes = this.rollAffixes(item);
+        }
+        return instance;
+    }
+
+    public isEnhanceable(item: Item): boolean {
+        return enhancementConfig.itemTypes.includes(item.type);
+    }
+
+    public isRollable(item: Item): boolean {
+        return affixConfig.itemTypes.includes(item.type) && !item.stackable;
+    }
+
+    // "Sharp Iron Sword of the Bear"
+    public getInstanceName(inventoryItem: InventoryItem): string {
+        const affixes = inventoryItem.affixes || [];
+        return [
+            ...affixes.filter(affix => affix.kind === 'prefix').map(affix => affix.name),
+            this.getItemName(inventoryItem.itemId),
+            ...affixes.filter(affix => affix.kind === 'suffix').map(affix => affix.name)
+        ].join(' ');
+    }
+
+    public getRerollCost(item: Item): RerollCost {
+        return affixConfig.rerollCosts[item.rarity];
+    }
+
+    /**
+     * Rolls a dropped item's base stats or its affixes again, paying the
+     * rarity's reroll cost. Enhancement and everything else stays.
+     */
+    public async rerollItem(characterId: number, instanceId: string, target: RerollTarget): Promise<RerollResult> {
+        if (target !== 'stats' && target !== 'affixes') {
+            return { success: false, reason: 'invalid_target', message: 'Reroll either stats or affixes' };
+        }
+
+        try {
+            let equipmentChanged = false;
+
+            const result = await this.mutateInventory<RerollResult>(characterId, inventory => {
+                const inventoryItem = inventory.items.find(inv => inv.instanceId === instanceId);
+                const item = inventoryItem ? this.getItemById(inventoryItem.itemId) : null;
+                if (!inventoryItem || !item) {
+                    return { success: false, reason: 'item_not_found', message: 'Item not found in inventory' };
+                }
+
+                // Only instances that rolled when they dropped; shop and starter gear stays plain
+                if (!this.isRollable(item) || !inventoryItem.rolledStats) {
+                    return { success: false, reason: 'not_rerollable', message: `${item.name} can't be rerolled` };
+                }
+
+                const cost = this.getRerollCost(item);
+                if (inventory.gold < cost.gold) {
+                    return { success: false, reason: 'insufficient_gold', message: 'Insufficient gold' };
+                }
+
+                const missing = cost.materials.find(material => this.countItems(inventory, material.itemId) < material.quantity);
+                if (missing) {
+                    return { success: false, reason: 'insufficient_materials', message: `Insufficient materials (${missing.quantity}x ${this.getItemName(missing.itemId)} required)` };
+                }
+
+                inventory.gold -= cost.gold;
+                cost.materials.forEach(material => this.takeItems(inventory, material.itemId, material.quantity));
+
+                if (target === 'stats') {
+                    inventoryItem.rolledStats = this.rollBaseStats(item);
+                } else {
+                    inventoryItem.affixes = this.rollAffixes(item);
+                }
+                equipmentChanged = inventoryItem.equipped;
+
+                this.logger.info(`Rerolled ${target} of ${item.name} for character ${characterId}`);
+                return { success: true, message: `Rerolled into ${this.getInstanceName(inventoryItem)}`, item: { ...inventoryItem } };
+            });
+
+            if (equipmentChanged) {
+                this.notifyEquipmentChanged(characterId);
+            }
+            return result;
+        } catch (error) {
+            this.logger.error('Error rerolling item:', error);
+            return { success: false, message: 'Reroll failed due to server error' };
+        }
+    }
+
+    // Every template stat within statVariance either way, never below zero
+    private rollBaseStats(item: Item): ItemStats {
+        const rolled: ItemStats = {};
+        Object.entries(item.stats).forEach(([stat, value]) => {
+            if (typeof value === 'number') {
+                rolled[stat as keyof ItemStats] = this.rollStat({
+                    min: Math.max(0, Math.round(value * (1 - affixConfig.statVariance))),
+                    max: Math.round(value * (1 + affixConfig.statVariance))
+                });
+            }
+        });
+        return rolled;
+    }
+
+    // Distinct affixes from the type and rarity's pool, up to the rarity's slots of each kind
+    private rollAffixes(item: Item): ItemAffix[] {
+        const pool = affixConfig.pools[item.type]?.[item.rarity] || [];
+        const slots = affixConfig.slots[item.rarity];
+        const rolled: ItemAffix[] = [];
+
+        (['prefix', 'suffix'] as AffixKind[]).forEach(kind => {
+            const candidates = pool.filter(affixId => affixConfig.affixes[affixId].kind === kind);
+            const count = Math.min(kind === 'prefix' ? slots.prefixes : slots.suffixes, candidates.length);
+
+            for (let i = 0; i < count; i++) {
+                const [affixId] = candidates.splice(Math.floor(Math.random() * candidates.length), 1);
+                const affix = affixConfig.affixes[affixId];
+                const stats: ItemStats = {};
+                Object.entries(affix.stats).forEach(([stat, range]) => {
+                    if (range) {
+                        stats[stat as keyof ItemStats] = this.rollStat(range);
+                    }
+                });
+                rolled.push({ affixId, name: affix.name, kind, stats });
+            }
+        });
+
+        return rolled;
+    }
+
+    private rollStat(range: StatRange): number {
+        return range.min + Math.floor(Math.random() * (range.max - range.min + 1));
+    }
+
+    /**
+     * Checks affix pools only reference defined affixes and reroll costs only
+     * known items. Throws so bad config fails at startup.
+     */
+    public validateAffixConfig(): void {
+        const errors: string[] = [];
+
+        Object.entries(affixConfig.affixes).forEach(([affixId, affix]) => {
+            Object.entries(affix.stats).forEach(([stat, range]) => {
+                if (!range || !Number.isInteger(range.min) || !Number.isInteger(range.max) || range.min > range.max) {
+                    errors.push(`affix ${affixId} has an invalid ${stat} range`);
+                }
+            });
+        });
+
+        Object.entries(affixConfig.pools).forEach(([type, pools]) => {
+            Object.entries(pools || {}).forEach(([rarity, pool]) => {
+                (pool || []).forEach(affixId => {
+                    if (!affixConfig.affixes[affixId]) {
+                        errors.push(`${rarity} ${type} pool uses unknown affix ${affixId}`);
+                    }
+                });
+            });
+        });
+
+        Object.entries(affixConfig.rerollCosts).forEach(([rarity, cost]) => {
+            cost.materials.forEach(material => {
+                if (!this.itemTemplates.has(material.itemId)) {
+                    errors.push(`${rarity} reroll uses unknown material ${material.itemId}`);
+                }
+            });
+        });
+
+        if (errors.length > 0) {
+            throw new Error(`Invalid affix config: ${errors.join('; ')}`);
+        }
+    }
+
+    private getEnhancementMessage(item: Item, outcome: EnhanceOutcome, newLevel: number): string {
+        switch (outcome) {
+            case 'success':
+                return `Enhancement successful! ${item.name} is now +${newLevel}`;
+            case 'downgraded':
+                return `Enhancement failed! ${item.name} dropped to +${newLevel}`;
+            case 'destroyed':
+                return `Enhancement failed! ${item.name} was destroyed`;
+            default:
+                return 'Enhancement failed! Gold and materials consumed, but item is safe.';
+        }
+    }
+
+    /**
+     * Stats of an item at an enhancement level. Given an instance, its rolled
+     * base stats are enhanced instead of the template's and its affixes added
+     * unscaled.
+     */
+    public getEnhancedStats(item: Item, enhancementLevel: number, instance?: Pick<InventoryItem, 'rolledStats' | 'affixes'>): ItemStats {
+        const enhancedStats: ItemStats = {};
+        const multiplier = 1 + (enhancementLevel * 0.15); // 15% increase per level
+
+        Object.entries(instance?.rolledStats || item.stats).forEach(([stat, value]) => {
+            if (typeof value === 'number') {
+                enhancedStats[stat as keyof ItemStats] = Math.floor(value * multiplier);
+            }
+        });
+
+        (instance?.affixes || []).forEach(affix => {
+            Object.entries(affix.stats).forEach(([stat, value]) => {
+                if (typeof value === 'number') {
+                    const key = stat as keyof ItemStats;
+                    enhancedStats[key] = (enhancedStats[key] || 0) + value;
+                }
+            });
+        });
+
+        return enhancedStats;
+    }
+
+    public async getPlayerEquipment(characterId: number): Promise<{ [slot: string]: InventoryItem & { item: Item } }> {
+        try {
+            const inventory = await this.getPlayerInventory(characterId);
+            const equipment: { [slot: string]: InventoryItem & { item: Item } } = {};
+
+            inventory.items.forEach(invItem => {
+                if (invItem.equipped && invItem.slot) {
+                    const item = this.getItemById(invItem.itemId);
+                    if (item) {
+                        equipment[invItem.slot] = { ...invItem, item };
+                    }
+                }
+            });
+
+            return equipment;
+        } catch (error) {
+            this.logger.error('Error getting player equipment:', error);
+            return {};
+        }
+    }
+
+    public async addStarterItems(characterId: number, characterClass: string): Promise<void> {
+        try {
+            // Add starter items based on character class
+            const starterItems: { [key: string]: string[] } = {
+                warrior: ['iron_sword', 'leather_armor', 'health_potion'],
+                archer: ['wooden_bow', 'leather_armor', 'health_potion'],
+                mage: ['magic_staff', 'leather_armor', 'mana_potion'],
+                assassin: ['steel_dagger', 'leather_armor', 'health_potion']
+            };
+
+            const items = starterItems[characterClass.toLowerCase()] || starterItems.warrior;
+
+            await this.mutateInventory(characterId, inventory => {
+                // Add some starting gold and materials along with the gear
+                const grants: [string, number][] = [...items.map(itemId => [itemId, 1] as [string, number]), ['iron_ore', 10]];
+
+                grants.forEach(([itemId, quantity]) => {
+                    const item = this.getItemById(itemId);
+                    if (item) {
+                        this.addItems(inventory, item, quantity);
+                    }
+                });
+                inventory.gold += 500;
+            });
 
             this.logger.info(`Added starter items for ${characterClass} character ${characterId}`);
         } catch (error) {
@@ -0,0 +1,213 @@
+import { Character } from '../database/IDatabaseService';
+import { Logger } from '../utils/Logger';
+import { GameUtils, gameConfig, GAME_EVENTS } from '../game/GameUtils';
+import { PlayerManager } from '../game/PlayerManager';
+import { ItemService, InventoryItem } from './ItemService';
+import { Monster } from './MonsterService';
+
+export interface GroundDrop {
+    id: string;
+    itemId: string;
+    quantity: number;
+    instance: InventoryItem; // rolled when dropped, goes into the inventory as is
+    position: {
+        x: number;
+        y: number;
+        mapId: number;
+    };
+    ownerId?: number; // Character with pickup priority
+    ownerUntil: Date;
+    expiresAt: Date;
+}
+
+export type PickupFailureReason =
+    | 'drop_not_found'
+    | 'wrong_map'
+    | 'out_of_range'
+    | 'not_owner'
+    | 'character_dead'
+    | 'inventory_full';
+
+export interface PickupResult {
+    success: boolean;
+    reason?: PickupFailureReason;
+    message: string;
+}
+
+export class LootService {
+    private itemService: ItemService;
+    private playerManager: PlayerManager;
+    private logger: Logger;
+    private drops: Map<string, GroundDrop> = new Map();
+    private despawnInterval: NodeJS.Timeout | null = null;
+
+    // Drops are scattered a little around the death position
+    private readonly DROP_SCATTER = 15;
+
+    constructor(itemService: ItemService, playerManager: PlayerManager) {
+        this.itemService = itemService;
+        this.playerManager = playerManager;
+        this.logger = new Logger();
+
+        this.despawnInterval = setInterval(() => {
+            this.despawnExpiredDrops();
+        }, 1000);
+    }
+
+    public stop(): void {
+        if (this.despawnInterval) {
+            clearInterval(this.despawnInterval);
+            this.despawnInterval = null;
+        }
+        this.drops.clear();
+    }
+
+    /**
+     * Rolls the monster's loot and places it on the ground where it died.
+     */
+    public spawnMonsterLoot(monster: Monster, killerId: number): GroundDrop[] {
+        const loot = this.itemService.generateRandomLoot(monster.level, monster.lootTable);
+        const now = Date.now();
+
+        // Equipment rolls per piece, so several of one item become separate drops
+        const instances = loot.flatMap(({ itemId, quantity }) => {
+            const item = this.itemService.getItemById(itemId);
+            return item && this.itemService.isRollable(item)
+                ? Array.from({ length: quantity }, () => this.itemService.createRolledInstance(itemId))
+                : this.itemService.createInstances(itemId, quantity) || [];
+        }).filter((instance): instance is InventoryItem => instance !== null);
+
+        const drops = instances.map(instance => {
+            const drop: GroundDrop = {
+                id: `drop_${now}_${Math.random().toString(36).substr(2, 9)}`,
+                itemId: instance.itemId,
+                quantity: instance.quantity,
+                instance,
+                position: {
+                    ...this.scatterPosition(monster.position.x, monster.position.y, monster.position.mapId),
+                    mapId: monster.position.mapId
+                },
+                ownerId: killerId,
+                ownerUntil: new Date(now + gameConfig.loot.ownerPriorityMs),
+                expiresAt: new Date(now + gameConfig.loot.despawnMs)
+            };
+
+            this.drops.set(drop.id, drop);
+            return drop;
+        });
+
+        if (drops.length > 0) {
+            this.logger.info(`${monster.name} dropped ${drops.length} item(s) on map ${monster.position.mapId}`);
+
+            this.playerManager.broadcastToMap(monster.position.mapId, {
+                type: 'item_dropped',
+                data: {
+                    monsterId: monster.id,
+                    drops: drops.map(drop => this.getDropPublicData(drop))
+                }
+            });
+        }
+
+        return drops;
+    }
+
+    public async pickupDrop(character: Character, dropId: string): Promise<PickupResult> {
+        const drop = this.drops.get(dropId);
+        if (!drop) {
+            return { success: false, reason: 'drop_not_found', message: 'Item is no longer there' };
+        }
+
+        if (character.current_hp <= 0) {
+            return { success: false, reason: 'character_dead', message: 'You are dead' };
+        }
+
+        if (character.map_id !== drop.position.mapId) {
+            return { success: false, reason: 'wrong_map', message: 'Item is on a different map' };
+        }
+
+        const distance = GameUtils.getDistance(
+            character.x_position, character.y_position,
+            drop.position.x, drop.position.y
+        );
+        if (distance > gameConfig.loot.pickupRange) {
+            return { success: false, reason: 'out_of_range', message: 'Item is out of range' };
+        }
+
+        if (drop.ownerId !== undefined && drop.ownerId !== character.id && drop.ownerUntil.getTime() > Date.now()) {
+            return { success: false, reason: 'not_owner', message: 'Another player has priority on this item' };
+        }
+
+        // Take it off the ground first so two players can't both pick it up
+        this.drops.delete(dropId);
+
+        let added = false;
+        try {
+            added = await this.itemService.mutateInventory(character.id, inventory =>
+                this.itemService.insertInstance(inventory, drop.instance)
+            );
+        } catch (error) {
+            this.logger.error('Error picking up item:', error);
+        }
+        if (!added) {
+            this.drops.set(dropId, drop);
+            return { success: false, reason: 'inventory_full', message: 'Not enough inventory space' };
+        }
+
+        this.playerManager.broadcastToMap(drop.position.mapId, {
+            type: GAME_EVENTS.ITEM_PICKUP,
+            data: {
+                dropId: drop.id,
+                characterId: character.id,
+                name: character.name,
+                itemId: drop.itemId,
+                quantity: drop.quantity
+            }
+        });
+
+        return { success: true, message: 'Item picked up' };
+    }
+
+    public getDropsOnMap(mapId: number): GroundDrop[] {
+        return Array.from(this.drops.values()).filter(drop => drop.position.mapId === mapId);
+    }
+
+    public getDropPublicData(drop: GroundDrop) {
+        return {
+            id: drop.id,
+            itemId: drop.itemId,
+            quantity: drop.quantity,
+            name: this.itemService.getInstanceName(drop.instance),
+            rolledStats: drop.instance.rolledStats,
+            affixes: drop.instance.affixes,
+            position: drop.position,
+            ownerId: drop.ownerId,
+            ownerUntil: drop.ownerUntil.toISOString(),
+            expiresAt: drop.expiresAt.toISOString()
+        };
+    }
+
+    private despawnExpiredDrops(): void {
+        const now = Date.now();
+
+        for (const [dropId, drop] of this.drops.entries()) {
+            if (drop.expiresAt.getTime() <= now) {
+                this.drops.delete(dropId);
+
+                this.playerManager.broadcastToMap(drop.position.mapId, {
+                    type: 'item_despawned',
+                    data: { dropId }
+                });
+            }
+        }
+    }
+
+    private scatterPosition(x: number, y: number, mapId: number): { x: number; y: number } {
+        const scatteredX = x + (Math.random() * 2 - 1) * this.DROP_SCATTER;
+        const scatteredY = y + (Math.random() * 2 - 1) * this.DROP_SCATTER;
+
+        if (GameUtils.isValidPosition(scatteredX, scatteredY, mapId)) {
+            return { x: scatteredX, y: scatteredY };
+        }
+        return { x, y };
+    }
+}
@@ -0,0 +1,448 @@
+import { IDatabaseService, Mail, MailStatus } from '../database/IDatabaseService';
+import { Logger } from '../utils/Logger';
+import { gameConfig } from '../game/GameUtils';
+import { PlayerManager } from '../game/PlayerManager';
+import { ItemService, InventoryItem } from './ItemService';
+
+export type MailFailureReason =
+    | 'sender_not_found'
+    | 'recipient_not_found'
+    | 'self_mail'
+    | 'invalid_message'
+    | 'too_many_attachments'
+    | 'item_not_found'
+    | 'item_equipped'
+    | 'item_locked'
+    | 'not_tradable'
+    | 'invalid_quantity'
+    | 'invalid_amount'
+    | 'cod_requires_items'
+    | 'insufficient_gold'
+    | 'inventory_full'
+    | 'mail_not_found'
+    | 'nothing_to_claim'
+    | 'not_returnable'
+    | 'has_attachments';
+
+export interface MailResult {
+    success: boolean;
+    reason?: MailFailureReason;
+    message: string;
+    mailId?: number;
+    gold?: number; // character's gold afterwards
+}
+
+export interface MailAttachmentRequest {
+    instanceId: string;
+    quantity: number;
+}
+
+export interface SendMailRequest {
+    recipientName: string;
+    subject: string;
+    body?: string;
+    attachments?: MailAttachmentRequest[];
+    gold?: number;
+    codAmount?: number;
+}
+
+export interface SystemMail {
+    recipientId: number;
+    senderName: string; // shown as the sender, e.g. 'Marketplace'
+    subject: string;
+    body?: string;
+    items?: InventoryItem[];
+    gold?: number;
+}
+
+export interface MailView {
+    id: number;
+    senderId: number | null;
+    senderName: string;
+    subject: string;
+    body: string;
+    items: InventoryItem[];
+    gold: number;
+    codAmount: number;
+    read: boolean;
+    status: MailStatus;
+    hasAttachments: boolean; // unclaimed items or gold
+    createdAt: Date;
+    expiresAt: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Per-character mailbox. Attached items and gold leave the sender's
+ * inventory when the mail is sent and are held in the mail row until the
+ * recipient claims them, or go back to the sender when it expires.
+ */
+export class MailService {
+    private db: IDatabaseService;
+    private itemService: ItemService;
+    private playerManager: PlayerManager;
+    private logger: Logger;
+    private expiryInterval: NodeJS.Timeout | null = null;
+
+    constructor(databaseService: IDatabaseService, itemService: ItemService, playerManager: PlayerManager) {
+        this.db = databaseService;
+        this.itemService = itemService;
+        this.playerManager = playerManager;
+        this.logger = new Logger();
+
+        this.expiryInterval = setInterval(() => {
+            this.expireMail().catch(error => this.logger.error('Mail expiry sweep failed:', error));
+        }, gameConfig.mail.expirySweepMs);
+    }
+
+    public stop(): void {
+        if (this.expiryInterval) {
+            clearInterval(this.expiryInterval);
+            this.expiryInterval = null;
+        }
+    }
+
+    public async sendMail(senderId: number, request: SendMailRequest): Promise<MailResult> {
+        const sender = await this.db.getCharacterById(senderId);
+        if (!sender) {
+            return { success: false, reason: 'sender_not_found', message: 'Character not found' };
+        }
+
+        const recipient = request.recipientName ? await this.db.getCharacterByName(request.recipientName) : null;
+        if (!recipient) {
+            return { success: false, reason: 'recipient_not_found', message: `No character named ${request.recipientName}` };
+        }
+
+        if (recipient.id === sender.id) {
+            return { success: false, reason: 'self_mail', message: "You can't mail yourself" };
+        }
+
+        const subject = (request.subject || '').trim();
+        const body = request.body || '';
+        if (!subject || subject.length > gameConfig.mail.subjectMaxLength || body.length > gameConfig.mail.bodyMaxLength) {
+            return { success: false, reason: 'invalid_message', message: `Subject is required and limited to ${gameConfig.mail.subjectMaxLength} characters, body to ${gameConfig.mail.bodyMaxLength}` };
+        }
+
+        const attachments = request.attachments || [];
+        if (attachments.length > gameConfig.mail.maxAttachments) {
+            return { success: false, reason: 'too_many_attachments', message: `At most ${gameConfig.mail.maxAttachments} attachments` };
+        }
+
+        const gold = request.gold ?? 0;
+        const codAmount = request.codAmount ?? 0;
+        if (!Number.isInteger(gold) || gold < 0 || !Number.isInteger(codAmount) || codAmount < 0) {
+            return { success: false, reason: 'invalid_amount', message: 'Invalid gold amount' };
+        }
+
+        if (codAmount > 0 && attachments.length === 0) {
+            return { success: false, reason: 'cod_requires_items', message: 'Cash on delivery needs item attachments' };
+        }
+
+        let attached: InventoryItem[] = [];
+
+        const result = await this.itemService.mutateInventory<MailResult>(senderId, inventory => {
+            for (const attachment of attachments) {
+                const inventoryItem = inventory.items.find(inv => inv.instanceId === attachment.instanceId);
+                const item = inventoryItem ? this.itemService.getItemById(inventoryItem.itemId) : null;
+                if (!inventoryItem || !item) {
+                    return { success: false, reason: 'item_not_found', message: 'Item is not in your inventory' };
+                }
+
+                if (inventoryItem.equipped) {
+                    return { success: false, reason: 'item_equipped', message: 'Unequip the item first' };
+                }
+
+                if (inventoryItem.locked) {
+                    return { success: false, reason: 'item_locked', message: `${item.name} is locked` };
+                }
+
+                if (item.type === 'quest') {
+                    return { success: false, reason: 'not_tradable', message: `${item.name} can't be mailed` };
+                }
+            }
+
+            if (inventory.gold < gold) {
+                return { success: false, reason: 'insufficient_gold', message: 'Not enough gold' };
+            }
+
+            const taken = this.itemService.takeInstances(inventory, attachments);
+            if (!taken) {
+                return { success: false, reason: 'invalid_quantity', message: 'Invalid attachment quantity' };
+            }
+
+            inventory.gold -= gold;
+            attached = taken;
+            return { success: true, message: `Mail sent to ${recipient.name}`, gold: inventory.gold };
+        });
+
+        if (!result.success) {
+            return result;
+        }
+
+        try {
+            result.mailId = await this.deliver({
+                recipient_id: recipient.id,
+                sender_id: sender.id,
+                sender_name: sender.name,
+                subject,
+                body,
+                items: JSON.stringify(attached),
+                gold,
+                cod_amount: codAmount,
+                returnable: true,
+                expires_at: new Date(Date.now() + (codAmount > 0 ? gameConfig.mail.codExpiryDays : gameConfig.mail.expiryDays) * DAY_MS)
+            });
+        } catch (error) {
+            // The attachments already left the inventory, hand them back
+            this.logger.error('Failed to create mail, returning attachments:', error);
+            await this.itemService.mutateInventory(senderId, inventory => {
+                if (!this.itemService.insertInstances(inventory, attached)) {
+                    throw new Error(`Could not return mail attachments to character ${senderId}`);
+                }
+                inventory.gold += gold;
+            });
+            throw error;
+        }
+
+        return result;
+    }
+
+    /**
+     * Mail from the game itself: GM compensation, marketplace proceeds and
+     * returned listings. Items are detached instances, e.g. from
+     * ItemService.createInstances. System mail is never returned and doesn't
+     * expire while it still holds attachments.
+     */
+    public async sendSystemMail(mail: SystemMail): Promise<number> {
+        return this.deliver({
+            recipient_id: mail.recipientId,
+            sender_id: null,
+            sender_name: mail.senderName,
+            subject: mail.subject,
+            body: mail.body || '',
+            items: JSON.stringify(mail.items || []),
+            gold: mail.gold || 0,
+            cod_amount: 0,
+            returnable: false,
+            expires_at: new Date(Date.now() + gameConfig.mail.expiryDays * DAY_MS)
+        });
+    }
+
+    public async getMailbox(characterId: number): Promise<{ mail: MailView[]; unread: number }> {
+        const mail = (await this.db.getMailbox(characterId)).map(entry => this.getMailView(entry));
+        return { mail, unread: mail.filter(entry => !entry.read).length };
+    }
+
+    public async getUnreadCount(characterId: number): Promise<number> {
+        return (await this.db.getMailbox(characterId)).filter(mail => !mail.is_read).length;
+    }
+
+    public async readMail(characterId: number, mailId: number): Promise<MailView | null> {
+        const mail = await this.getOwnMail(characterId, mailId);
+        if (!mail) {
+            return null;
+        }
+
+        if (!mail.is_read) {
+            await this.db.markMailRead(mail.id);
+            mail.is_read = true;
+        }
+        return this.getMailView(mail);
+    }
+
+    /**
+     * Moves the attached items and gold into the inventory, paying the
+     * cash-on-delivery amount first. Everything must fit or nothing is taken.
+     */
+    public async claimAttachments(characterId: number, mailId: number): Promise<MailResult> {
+        const mail = await this.getOwnMail(characterId, mailId);
+        if (!mail) {
+            return { success: false, reason: 'mail_not_found', message: 'Mail not found' };
+        }
+
+        const items: InventoryItem[] = JSON.parse(mail.items);
+        if (mail.status !== 'active' || (items.length === 0 && mail.gold === 0)) {
+            return { success: false, reason: 'nothing_to_claim', message: 'Nothing to claim' };
+        }
+
+        if (!await this.db.updateMailStatus(mail.id, 'active', 'claimed')) {
+            return { success: false, reason: 'nothing_to_claim', message: 'Nothing to claim' };
+        }
+
+        let result: MailResult;
+        try {
+            result = await this.itemService.mutateInventory<MailResult>(characterId, inventory => {
+                if (inventory.gold < mail.cod_amount) {
+                    return { success: false, reason: 'insufficient_gold', message: `You need ${mail.cod_amount} gold to pay on delivery` };
+                }
+
+                if (!this.itemService.insertInstances(inventory, items)) {
+                    return { success: false, reason: 'inventory_full', message: 'Not enough inventory space' };
+                }
+
+                inventory.gold += mail.gold - mail.cod_amount;
+                return { success: true, message: 'Attachments claimed', mailId: mail.id, gold: inventory.gold };
+            });
+        } catch (error) {
+            await this.db.updateMailStatus(mail.id, 'claimed', 'active');
+            throw error;
+        }
+
+        if (!result.success) {
+            await this.db.updateMailStatus(mail.id, 'claimed', 'active');
+            return result;
+        }
+
+        if (!mail.is_read) {
+            await this.db.markMailRead(mail.id);
+        }
+
+        if (mail.cod_amount > 0 && mail.sender_id !== null) {
+            try {
+                const recipient = await this.db.getCharacterById(characterId);
+                await this.sendSystemMail({
+                    recipientId: mail.sender_id,
+                    senderName: 'Postmaster',
+                    subject: `Payment: ${mail.subject}`.slice(0, gameConfig.mail.subjectMaxLength),
+                    body: `${recipient?.name || 'The recipient'} paid ${mail.cod_amount} gold on delivery.`,
+                    gold: mail.cod_amount
+                });
+            } catch (error) {
+                // The recipient already paid and has the items, the payment needs a manual grant
+                this.logger.error(`Failed to mail ${mail.cod_amount} gold COD payment of mail ${mail.id} to character ${mail.sender_id}:`, error);
+            }
+        }
+
+        return result;
+    }
+
+    // Bounces unclaimed attachments back to the sender, e.g. to refuse a COD
+    public async returnMail(characterId: number, mailId: number): Promise<MailResult> {
+        const mail = await this.getOwnMail(characterId, mailId);
+        if (!mail || mail.status !== 'active') {
+            return { success: false, reason: 'mail_not_found', message: 'Mail not found' };
+        }
+
+        if (!mail.returnable || mail.sender_id === null) {
+            return { success: false, reason: 'not_returnable', message: 'This mail cannot be returned' };
+        }
+
+        return await this.bounce(mail)
+            ? { success: true, message: `Mail returned to ${mail.sender_name}`, mailId: mail.id }
+            : { success: false, reason: 'mail_not_found', message: 'Mail not found' };
+    }
+
+    public async deleteMail(characterId: number, mailId: number): Promise<MailResult> {
+        const mail = await this.getOwnMail(characterId, mailId);
+        if (!mail) {
+            return { success: false, reason: 'mail_not_found', message: 'Mail not found' };
+        }
+
+        if (mail.status === 'active' && this.hasAttachments(mail)) {
+            return { success: false, reason: 'has_attachments', message: 'Claim or return the attachments first' };
+        }
+
+        if (!await this.db.updateMailStatus(mail.id, mail.status, 'deleted')) {
+            return { success: false, reason: 'mail_not_found', message: 'Mail not found' };
+        }
+        return { success: true, message: 'Mail deleted', mailId: mail.id };
+    }
+
+    private async deliver(mail: Omit<Mail, 'id' | 'is_read' | 'status' | 'created_at'>): Promise<number> {
+        const mailId = await this.db.createMail(mail);
+
+        this.playerManager.sendToCharacter(mail.recipient_id, {
+            type: 'mail_received',
+            data: {
+                mailId,
+                senderName: mail.sender_name,
+                subject: mail.subject,
+                hasAttachments: this.hasAttachments(mail)
+            }
+        });
+
+        return mailId;
+    }
+
+    // Sends the attachments back to the sender as a new, non-returnable mail
+    private async bounce(mail: Mail): Promise<boolean> {
+        if (mail.sender_id === null || !await this.db.updateMailStatus(mail.id, 'active', 'returned')) {
+            return false;
+        }
+
+        try {
+            await this.deliver({
+                recipient_id: mail.sender_id,
+                sender_id: null,
+                sender_name: 'Postmaster',
+                subject: `Returned: ${mail.subject}`.slice(0, gameConfig.mail.subjectMaxLength),
+                body: mail.body,
+                items: mail.items,
+                gold: mail.gold,
+                cod_amount: 0,
+                returnable: false,
+                expires_at: new Date(Date.now() + gameConfig.mail.expiryDays * DAY_MS)
+            });
+        } catch (error) {
+            await this.db.updateMailStatus(mail.id, 'returned', 'active');
+            throw error;
+        }
+
+        return true;
+    }
+
+    private async expireMail(): Promise<void> {
+        const expired = await this.db.getExpiredMail(new Date());
+
+        let count = 0;
+        for (const mail of expired) {
+            if (mail.status === 'active' && this.hasAttachments(mail)) {
+                // System mail has nowhere to go back to, it holds market proceeds,
+                // COD payments and bounced items until the recipient claims them
+                if (mail.returnable) {
+                    await this.bounce(mail);
+                    count++;
+                }
+            } else if (await this.db.updateMailStatus(mail.id, mail.status, 'expired')) {
+                count++;
+            }
+        }
+
+        if (count > 0) {
+            this.logger.info(`Expired ${count} mails`);
+        }
+    }
+
+    private async getOwnMail(characterId: number, mailId: number): Promise<Mail | null> {
+        const mail = await this.db.getMail(mailId);
+        if (!mail || mail.recipient_id !== characterId || (mail.status !== 'active' && mail.status !== 'claimed')) {
+            return null;
+        }
+        return mail;
+    }
+
+    private hasAttachments(mail: Pick<Mail, 'gold' | 'items'>): boolean {
+        return mail.gold > 0 || JSON.parse(mail.items).length > 0;
+    }
+
+    private getMailView(mail: Mail): MailView {
+        const claimed = mail.status !== 'active';
+
+        return {
+            id: mail.id,
+            senderId: mail.sender_id,
+            senderName: mail.sender_name,
+            subject: mail.subject,
+            body: mail.body,
+            items: claimed ? [] : JSON.parse(mail.items),
+            gold: claimed ? 0 : mail.gold,
+            codAmount: claimed ? 0 : mail.cod_amount,
+            read: mail.is_read,
+            status: mail.status,
+            hasAttachments: !claimed && this.hasAttachments(mail),
+            createdAt: new Date(mail.created_at),
+            expiresAt: new Date(mail.expires_at)
+        };
+    }
+}
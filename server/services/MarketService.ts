@@ -0,0 +1,458 @@
+import { IDatabaseService, MarketListing, MarketListingStatus } from '../database/IDatabaseService';
+import { Logger } from '../utils/Logger';
+import { gameConfig } from '../game/GameUtils';
+import { PlayerManager } from '../game/PlayerManager';
+import { ItemService, Item, InventoryItem, ItemType, ItemRarity } from './ItemService';
+import { MailService } from './MailService';
+
+export type MarketFailureReason =
+    | 'item_not_found'
+    | 'item_equipped'
+    | 'item_locked'
+    | 'not_tradable'
+    | 'invalid_quantity'
+    | 'invalid_price'
+    | 'invalid_duration'
+    | 'too_many_listings'
+    | 'insufficient_gold'
+    | 'inventory_full'
+    | 'listing_not_found'
+    | 'listing_expired'
+    | 'own_listing'
+    | 'not_seller';
+
+export interface MarketResult {
+    success: boolean;
+    reason?: MarketFailureReason;
+    message: string;
+    listingId?: number;
+    gold?: number; // character's gold afterwards
+}
+
+export type MarketSort = 'newest' | 'ending' | 'price' | 'unit_price' | 'level' | 'enhancement';
+
+export interface MarketQuery {
+    name?: string;
+    type?: ItemType;
+    rarity?: ItemRarity;
+    minLevel?: number;
+    maxLevel?: number;
+    minEnhancement?: number;
+    maxEnhancement?: number;
+    sort?: MarketSort;
+    order?: 'asc' | 'desc';
+    page?: number; // 1-based
+    pageSize?: number;
+}
+
+export interface MarketListingView {
+    id: number;
+    sellerId: number;
+    itemId: string;
+    name: string;
+    type: ItemType;
+    rarity: ItemRarity;
+    level: number;
+    enhancementLevel: number;
+    quantity: number;
+    price: number;
+    unitPrice: number;
+    status: MarketListingStatus;
+    item: InventoryItem;
+    createdAt: Date;
+    expiresAt: Date;
+}
+
+export interface MarketSearchResult {
+    listings: MarketListingView[];
+    total: number;
+    page: number;
+    pageSize: number;
+    totalPages: number;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Server-wide marketplace. Listed items are escrowed in the listing row and
+ * leave the seller's inventory until they sell or are cancelled. Sale
+ * proceeds and expired items reach the seller by mail.
+ */
+export class MarketService {
+    private db: IDatabaseService;
+    private itemService: ItemService;
+    private playerManager: PlayerManager;
+    private mailService: MailService;
+    private logger: Logger;
+    private expiryInterval: NodeJS.Timeout | null = null;
+
+    constructor(databaseService: IDatabaseService, itemService: ItemService, playerManager: PlayerManager, mailService: MailService) {
+        this.db = databaseService;
+        this.itemService = itemService;
+        this.playerManager = playerManager;
+        this.mailService = mailService;
+        this.logger = new Logger();
+
+        this.expiryInterval = setInterval(() => {
+            this.expireListings().catch(error => this.logger.error('Market expiry sweep failed:', error));
+        }, gameConfig.market.expirySweepMs);
+    }
+
+    public stop(): void {
+        if (this.expiryInterval) {
+            clearInterval(this.expiryInterval);
+            this.expiryInterval = null;
+        }
+    }
+
+    public getListingFee(price: number): number {
+        return Math.max(1, Math.floor(price * gameConfig.market.listingFeeRate));
+    }
+
+    public getSalesTax(price: number): number {
+        return Math.floor(price * gameConfig.market.salesTaxRate);
+    }
+
+    public async listItem(characterId: number, instanceId: string, quantity: number, price: number, durationHours: number): Promise<MarketResult> {
+        if (!Number.isInteger(price) || price <= 0 || price > gameConfig.market.maxPrice) {
+            return { success: false, reason: 'invalid_price', message: 'Invalid price' };
+        }
+
+        if (!gameConfig.market.durationsHours.includes(durationHours)) {
+            return { success: false, reason: 'invalid_duration', message: `Duration must be one of ${gameConfig.market.durationsHours.join(', ')} hours` };
+        }
+
+        const active = (await this.db.getMarketListingsBySeller(characterId)).filter(listing => listing.status === 'active');
+        if (active.length >= gameConfig.market.maxListingsPerCharacter) {
+            return { success: false, reason: 'too_many_listings', message: `You can have at most ${gameConfig.market.maxListingsPerCharacter} active listings` };
+        }
+
+        const fee = this.getListingFee(price);
+        let escrowed: InventoryItem | null = null;
+
+        const result = await this.itemService.mutateInventory<MarketResult>(characterId, inventory => {
+            const inventoryItem = inventory.items.find(inv => inv.instanceId === instanceId);
+            const item = inventoryItem ? this.itemService.getItemById(inventoryItem.itemId) : null;
+            if (!inventoryItem || !item) {
+                return { success: false, reason: 'item_not_found', message: 'Item is not in your inventory' };
+            }
+
+            if (inventoryItem.equipped) {
+                return { success: false, reason: 'item_equipped', message: 'Unequip the item first' };
+            }
+
+            if (inventoryItem.locked) {
+                return { success: false, reason: 'item_locked', message: 'Unlock the item first' };
+            }
+
+            if (item.type === 'quest') {
+                return { success: false, reason: 'not_tradable', message: `${item.name} can't be listed` };
+            }
+
+            if (inventory.gold < fee) {
+                return { success: false, reason: 'insufficient_gold', message: `The listing fee is ${fee} gold` };
+            }
+
+            escrowed = this.itemService.takeInstance(inventory, instanceId, quantity);
+            if (!escrowed) {
+                return { success: false, reason: 'invalid_quantity', message: 'Invalid quantity' };
+            }
+
+            inventory.gold -= fee;
+            return { success: true, message: `Listed ${quantity}x ${item.name} for ${price} gold (fee ${fee})`, gold: inventory.gold };
+        });
+
+        if (!result.success || !escrowed) {
+            return result;
+        }
+
+        const item: InventoryItem = escrowed;
+        try {
+            result.listingId = await this.db.createMarketListing({
+                seller_id: characterId,
+                item_id: item.itemId,
+                item_data: JSON.stringify(item),
+                quantity: item.quantity,
+                price,
+                expires_at: new Date(Date.now() + durationHours * 60 * 60 * 1000)
+            });
+        } catch (error) {
+            // The item already left the inventory, hand it and the fee back
+            this.logger.error('Failed to create market listing, returning item:', error);
+            await this.itemService.mutateInventory(characterId, inventory => {
+                if (!this.itemService.insertInstance(inventory, item)) {
+                    throw new Error(`Could not return escrowed item ${item.instanceId} to character ${characterId}`);
+                }
+                inventory.gold += fee;
+            });
+            throw error;
+        }
+
+        this.logger.info(`Character ${characterId} listed ${item.quantity}x ${item.itemId} for ${price} gold (listing ${result.listingId})`);
+        return result;
+    }
+
+    public async buyListing(characterId: number, listingId: number): Promise<MarketResult> {
+        const listing = await this.db.getMarketListing(listingId);
+        if (!listing || listing.status !== 'active') {
+            return { success: false, reason: 'listing_not_found', message: 'Listing is no longer available' };
+        }
+
+        if (this.isExpired(listing)) {
+            return { success: false, reason: 'listing_expired', message: 'Listing has expired' };
+        }
+
+        if (listing.seller_id === characterId) {
+            return { success: false, reason: 'own_listing', message: "You can't buy your own listing" };
+        }
+
+        // Claim the listing first; whoever flips it to sold gets to buy it
+        if (!await this.db.updateMarketListingStatus(listingId, 'active', 'sold', characterId)) {
+            return { success: false, reason: 'listing_not_found', message: 'Listing is no longer available' };
+        }
+
+        const item: InventoryItem = JSON.parse(listing.item_data);
+        const tax = this.getSalesTax(listing.price);
+        const proceeds = listing.price - tax;
+
+        let result: MarketResult;
+        try {
+            result = await this.itemService.mutateInventory<MarketResult>(characterId, buyer => {
+                if (buyer.gold < listing.price) {
+                    return { success: false, reason: 'insufficient_gold', message: `You need ${listing.price} gold` };
+                }
+
+                if (!this.itemService.insertInstance(buyer, item)) {
+                    return { success: false, reason: 'inventory_full', message: 'Not enough inventory space' };
+                }
+
+                buyer.gold -= listing.price;
+                return { success: true, message: `Bought ${listing.quantity}x ${this.getItemName(listing.item_id)} for ${listing.price} gold`, listingId, gold: buyer.gold };
+            });
+        } catch (error) {
+            await this.db.updateMarketListingStatus(listingId, 'sold', 'active', null);
+            throw error;
+        }
+
+        if (!result.success) {
+            await this.db.updateMarketListingStatus(listingId, 'sold', 'active', null);
+            return result;
+        }
+
+        this.logger.info(`Market listing ${listingId} sold to character ${characterId} for ${listing.price} gold (tax ${tax})`);
+
+        const name = this.getItemName(listing.item_id);
+        try {
+            await this.mailService.sendSystemMail({
+                recipientId: listing.seller_id,
+                senderName: 'Marketplace',
+                subject: `Sold: ${listing.quantity}x ${name}`,
+                body: `Your ${name} sold for ${listing.price} gold. Sales tax: ${tax} gold.`,
+                gold: proceeds
+            });
+        } catch (error) {
+            // The buyer already has the item, the proceeds need a manual grant
+            this.logger.error(`Failed to mail ${proceeds} gold proceeds of listing ${listingId} to character ${listing.seller_id}:`, error);
+        }
+
+        this.playerManager.sendToCharacter(listing.seller_id, {
+            type: 'market_listing_sold',
+            data: {
+                listingId,
+                itemId: listing.item_id,
+                quantity: listing.quantity,
+                price: listing.price,
+                tax,
+                proceeds
+            }
+        });
+
+        return result;
+    }
+
+    public async cancelListing(characterId: number, listingId: number): Promise<MarketResult> {
+        const listing = await this.db.getMarketListing(listingId);
+        if (!listing || listing.status !== 'active') {
+            return { success: false, reason: 'listing_not_found', message: 'Listing is no longer active' };
+        }
+
+        if (listing.seller_id !== characterId) {
+            return { success: false, reason: 'not_seller', message: 'That is not your listing' };
+        }
+
+        return this.returnToSeller(listing, 'active', 'cancelled', 'Listing cancelled, item returned');
+    }
+
+    // Picks up an expired listing's item that couldn't be mailed back
+    public async claimListing(characterId: number, listingId: number): Promise<MarketResult> {
+        let listing = await this.db.getMarketListing(listingId);
+        if (!listing || listing.seller_id !== characterId) {
+            return { success: false, reason: 'listing_not_found', message: 'Listing not found' };
+        }
+
+        // The sweep may not have reached it yet
+        if (listing.status === 'active' && this.isExpired(listing)) {
+            await this.db.updateMarketListingStatus(listingId, 'active', 'expired');
+            listing = { ...listing, status: 'expired' };
+        }
+
+        if (listing.status !== 'expired') {
+            return { success: false, reason: 'listing_not_found', message: 'Nothing to pick up for that listing' };
+        }
+
+        return this.returnToSeller(listing, 'expired', 'returned', 'Expired listing picked up');
+    }
+
+    public async searchListings(query: MarketQuery): Promise<MarketSearchResult> {
+        const name = query.name?.trim().toLowerCase();
+        const listings = (await this.db.getMarketListingsByStatus('active'))
+            .filter(listing => !this.isExpired(listing))
+            .map(listing => this.getListingView(listing))
+            .filter((view): view is MarketListingView => view !== null)
+            .filter(view =>
+                (!name || view.name.toLowerCase().includes(name)) &&
+                (!query.type || view.type === query.type) &&
+                (!query.rarity || view.rarity === query.rarity) &&
+                (query.minLevel === undefined || view.level >= query.minLevel) &&
+                (query.maxLevel === undefined || view.level <= query.maxLevel) &&
+                (query.minEnhancement === undefined || view.enhancementLevel >= query.minEnhancement) &&
+                (query.maxEnhancement === undefined || view.enhancementLevel <= query.maxEnhancement)
+            );
+
+        const sort = query.sort || 'newest';
+        const direction = (query.order || (sort === 'newest' ? 'desc' : 'asc')) === 'desc' ? -1 : 1;
+        listings.sort((a, b) => (this.getSortValue(a, sort) - this.getSortValue(b, sort)) * direction || b.id - a.id);
+
+        const pageSize = Math.min(Math.max(1, Math.floor(query.pageSize || DEFAULT_PAGE_SIZE)), gameConfig.market.maxPageSize);
+        const totalPages = Math.max(1, Math.ceil(listings.length / pageSize));
+        const page = Math.min(Math.max(1, Math.floor(query.page || 1)), totalPages);
+
+        return {
+            listings: listings.slice((page - 1) * pageSize, page * pageSize),
+            total: listings.length,
+            page,
+            pageSize,
+            totalPages
+        };
+    }
+
+    public async getSellerListings(characterId: number): Promise<MarketListingView[]> {
+        return (await this.db.getMarketListingsBySeller(characterId))
+            .map(listing => this.getListingView(listing))
+            .filter((view): view is MarketListingView => view !== null);
+    }
+
+    private async returnToSeller(listing: MarketListing, fromStatus: MarketListingStatus, toStatus: MarketListingStatus, message: string): Promise<MarketResult> {
+        if (!await this.db.updateMarketListingStatus(listing.id, fromStatus, toStatus)) {
+            return { success: false, reason: 'listing_not_found', message: 'Listing is no longer available' };
+        }
+
+        const item: InventoryItem = JSON.parse(listing.item_data);
+
+        let result: MarketResult;
+        try {
+            result = await this.itemService.mutateInventory<MarketResult>(listing.seller_id, inventory => {
+                if (!this.itemService.insertInstance(inventory, item)) {
+                    return { success: false, reason: 'inventory_full', message: 'Not enough inventory space' };
+                }
+                return { success: true, message, listingId: listing.id, gold: inventory.gold };
+            });
+        } catch (error) {
+            await this.db.updateMarketListingStatus(listing.id, toStatus, fromStatus);
+            throw error;
+        }
+
+        if (!result.success) {
+            await this.db.updateMarketListingStatus(listing.id, toStatus, fromStatus);
+        }
+        return result;
+    }
+
+    private async expireListings(): Promise<void> {
+        const expired = (await this.db.getMarketListingsByStatus('active')).filter(listing => this.isExpired(listing));
+
+        for (const listing of expired) {
+            if (!await this.db.updateMarketListingStatus(listing.id, 'active', 'returned')) {
+                continue;
+            }
+
+            const name = this.getItemName(listing.item_id);
+            try {
+                await this.mailService.sendSystemMail({
+                    recipientId: listing.seller_id,
+                    senderName: 'Marketplace',
+                    subject: `Expired: ${listing.quantity}x ${name}`,
+                    body: `Your listing of ${name} did not sell and has been returned.`,
+                    items: [JSON.parse(listing.item_data)]
+                });
+            } catch (error) {
+                // Left for the seller to pick up from the marketplace instead
+                this.logger.error(`Failed to mail expired listing ${listing.id} back, keeping it for pickup:`, error);
+                await this.db.updateMarketListingStatus(listing.id, 'returned', 'expired');
+            }
+
+            this.playerManager.sendToCharacter(listing.seller_id, {
+                type: 'market_listing_expired',
+                data: { listingId: listing.id, itemId: listing.item_id, quantity: listing.quantity }
+            });
+        }
+
+        if (expired.length > 0) {
+            this.logger.info(`Expired ${expired.length} market listings`);
+        }
+    }
+
+    private getListingView(listing: MarketListing): MarketListingView | null {
+        const template: Item | null = this.itemService.getItemById(listing.item_id);
+        if (!template) {
+            return null;
+        }
+
+        const item: InventoryItem = JSON.parse(listing.item_data);
+        const expiresAt = new Date(listing.expires_at);
+
+        return {
+            id: listing.id,
+            sellerId: listing.seller_id,
+            itemId: listing.item_id,
+            name: template.name,
+            type: template.type,
+            rarity: template.rarity,
+            level: template.level,
+            enhancementLevel: item.enhancementLevel || 0,
+            quantity: listing.quantity,
+            price: listing.price,
+            unitPrice: listing.price / listing.quantity,
+            // Listings past their time read as expired before the sweep gets to them
+            status: listing.status === 'active' && this.isExpired(listing) ? 'expired' : listing.status,
+            item,
+            createdAt: new Date(listing.created_at),
+            expiresAt
+        };
+    }
+
+    private getSortValue(view: MarketListingView, sort: MarketSort): number {
+        switch (sort) {
+            case 'ending':
+                return view.expiresAt.getTime();
+            case 'price':
+                return view.price;
+            case 'unit_price':
+                return view.unitPrice;
+            case 'level':
+                return view.level;
+            case 'enhancement':
+                return view.enhancementLevel;
+            default:
+                return view.createdAt.getTime();
+        }
+    }
+
+    private getItemName(itemId: string): string {
+        return this.itemService.getItemById(itemId)?.name || itemId;
+    }
+
+    private isExpired(listing: MarketListing): boolean {
+        return new Date(listing.expires_at).getTime() <= Date.now();
+    }
+}
@@ -1,7 +1,11 @@
-import { WebSocketServer, WebSocket } from 'ws';
-import { IDatabaseService } from '../database/IDatabaseService';
+import { WebSocketServer } from 'ws';
+import { IDatabaseService, Character } from '../database/IDatabaseService';
 import { Logger } from '../utils/Logger';
 import { GameUtils } from '../game/GameUtils';
+import { lootTables } from '../game/LootTables';
+import { PlayerManager, GameMessage } from '../game/PlayerManager';
+import { CombatService } from './CombatService';
+import { LootService } from './LootService';
 
 export interface Monster {
     id: string;
@@ -21,13 +25,15 @@ export interface Monster {
         y: number;
         mapId: number;
     };
-    state: 'idle' | 'patrolling' | 'chasing' | 'attacking' | 'dead';
+    state: 'idle' | 'patrolling' | 'chasing' | 'attacking' | 'returning' | 'dead';
     target?: string; // Character ID being chased
     lastAction: Date;
+    lastAttack?: Date;
     respawnTime?: Date;
     aggroRange: number;
     patrolRange: number;
     originalPosition: { x: number; y: number };
+    lootTable: string;
 }
 
 export interface MonsterTemplate {
@@ -46,17 +52,26 @@ export interface MonsterTemplate {
     moveSpeed: number; // pixels per second
     spawnMaps: number[];
     spawnChance: number; // 0-1
+    lootTable: string;
 }
 
 export class MonsterService {
     private db: IDatabaseService;
     private wss: WebSocketServer;
+    private playerManager: PlayerManager;
+    private combatService: CombatService;
+    private lootService: LootService;
     private logger: Logger;
     
     private activeMonsters: Map<string, Monster> = new Map();
     private monsterTemplates: Map<string, MonsterTemplate> = new Map();
     private lastSpawnCheck: Date = new Date();
     private gameLoopInterval: NodeJS.Timeout | null = null;
+
+    // Distance at which a monster can hit its target
+    private readonly MONSTER_ATTACK_RANGE = 40;
+    // Monsters give up once dragged this many aggro ranges from their spawn point
+    private readonly LEASH_AGGRO_MULTIPLIER = 3;
     
     // Combat tracking
     private combatSessions: Map<string, {
@@ -65,9 +80,18 @@ export class MonsterService {
         lastAttack: Date;
     }> = new Map();
 
-    constructor(databaseService: IDatabaseService, webSocketServer: WebSocketServer) {
+    constructor(
+        databaseService: IDatabaseService,
+        webSocketServer: WebSocketServer,
+        playerManager: PlayerManager,
+        combatService: CombatService,
+        lootService: LootService
+    ) {
         this.db = databaseService;
         this.wss = webSocketServer;
+        this.playerManager = playerManager;
+        this.combatService = combatService;
+        this.lootService = lootService;
         this.logger = new Logger();
         
         this.initializeMonsterTemplates();
@@ -91,7 +115,8 @@ export class MonsterService {
                 attackSpeed: 2000,
                 moveSpeed: 25,
                 spawnMaps: [1, 2],
-                spawnChance: 0.8
+                spawnChance: 0.8,
+                lootTable: 'goblin'
             },
             {
                 name: 'Forest Wolf',
@@ -108,7 +133,8 @@ export class MonsterService {
                 attackSpeed: 1500,
                 moveSpeed: 40,
                 spawnMaps: [2],
-                spawnChance: 0.6
+                spawnChance: 0.6,
+                lootTable: 'wolf'
             },
             {
                 name: 'Orc Berserker',
@@ -125,7 +151,8 @@ export class MonsterService {
                 attackSpeed: 2500,
                 moveSpeed: 30,
                 spawnMaps: [2, 3],
-                spawnChance: 0.4
+                spawnChance: 0.4,
+                lootTable: 'orc'
             },
             {
                 name: 'Ancient Skeleton',
@@ -142,7 +169,8 @@ export class MonsterService {
                 attackSpeed: 3000,
                 moveSpeed: 20,
                 spawnMaps: [3],
-                spawnChance: 0.3
+                spawnChance: 0.3,
+                lootTable: 'skeleton'
             },
             {
                 name: 'Giant Spider',
@@ -159,7 +187,8 @@ export class MonsterService {
                 attackSpeed: 1800,
                 moveSpeed: 35,
                 spawnMaps: [3],
-                spawnChance: 0.2
+                spawnChance: 0.2,
+                lootTable: 'spider'
             },
             {
                 name: 'Fire Dragon',
@@ -176,11 +205,15 @@ export class MonsterService {
                 attackSpeed: 4000,
                 moveSpeed: 50,
                 spawnMaps: [3],
-                spawnChance: 0.01
+                spawnChance: 0.01,
+                lootTable: 'dragon'
             }
         ];
 
         templates.forEach(template => {
+            if (!lootTables[template.lootTable]) {
+                throw new Error(`Monster template ${template.name} references unknown loot table '${template.lootTable}'`);
+            }
             this.monsterTemplates.set(template.type, template);
         });
 
@@ -233,6 +266,9 @@ export class MonsterService {
                 case 'attacking':
                     this.handleAttackState(monster);
                     break;
+                case 'returning':
+                    this.handleReturnState(monster);
+                    break;
             }
 
             // Check for nearby players to aggro
@@ -286,60 +322,138 @@ export class MonsterService {
     }
 
     private handleChaseState(monster: Monster): void {
-        if (!monster.target) {
-            monster.state = 'idle';
+        const target = this.getTargetCharacter(monster);
+        if (!target || this.isBeyondLeash(monster, target)) {
+            this.startReturning(monster);
             return;
         }
 
-        // Get target character position (would need to query active sessions)
-        // For now, simplified logic
-        const template = this.monsterTemplates.get(monster.type);
-        if (!template) return;
+        const distance = GameUtils.getDistance(
+            monster.position.x, monster.position.y,
+            target.x_position, target.y_position
+        );
 
-        // Check if target is still in aggro range
-        // If target too far, return to patrol
-        // For now, continue chasing for a bit then give up
-        const timeSinceChase = Date.now() - monster.lastAction.getTime();
-        if (timeSinceChase > 10000) { // 10 seconds
-            monster.state = 'patrolling';
-            monster.target = undefined;
-            this.logger.debug(`Monster ${monster.name} lost target`);
+        if (distance <= this.MONSTER_ATTACK_RANGE) {
+            monster.state = 'attacking';
             return;
         }
 
-        // Move towards target (simplified - would need actual target position)
-        monster.state = 'attacking';
+        this.moveMonsterTowards(monster, target.x_position, target.y_position);
     }
 
     private handleAttackState(monster: Monster): void {
-        if (!monster.target) {
-            monster.state = 'idle';
+        const target = this.getTargetCharacter(monster);
+        if (!target || this.isBeyondLeash(monster, target)) {
+            this.startReturning(monster);
             return;
         }
 
         const template = this.monsterTemplates.get(monster.type);
         if (!template) return;
 
+        const distance = GameUtils.getDistance(
+            monster.position.x, monster.position.y,
+            target.x_position, target.y_position
+        );
+
+        if (distance > this.MONSTER_ATTACK_RANGE) {
+            monster.state = 'chasing';
+            return;
+        }
+
         // Check if we can attack (attack speed cooldown)
-        const timeSinceLastAttack = Date.now() - monster.lastAction.getTime();
+        const timeSinceLastAttack = monster.lastAttack ? Date.now() - monster.lastAttack.getTime() : Infinity;
         if (timeSinceLastAttack >= template.attackSpeed) {
-            this.performMonsterAttack(monster);
-            monster.lastAction = new Date();
+            this.performMonsterAttack(monster, target);
+            monster.lastAttack = new Date();
         }
     }
 
+    private handleReturnState(monster: Monster): void {
+        const distance = GameUtils.getDistance(
+            monster.position.x, monster.position.y,
+            monster.originalPosition.x, monster.originalPosition.y
+        );
+
+        if (distance > 1) {
+            this.moveMonsterTowards(monster, monster.originalPosition.x, monster.originalPosition.y);
+            return;
+        }
+
+        // Back home: reset so the monster can't be kited and whittled down
+        monster.hp = monster.maxHp;
+        monster.state = 'idle';
+        this.logger.debug(`Monster ${monster.name} returned to its spawn point`);
+    }
+
+    private startReturning(monster: Monster): void {
+        monster.state = 'returning';
+        monster.target = undefined;
+        this.logger.debug(`Monster ${monster.name} lost its target and is returning`);
+    }
+
     private checkForPlayerAggro(monster: Monster): void {
-        // This would check active player sessions for nearby players
-        // For now, simplified implementation
-        const aggroChance = 0.05; // 5% chance per update to aggro random player
-        if (Math.random() < aggroChance) {
-            // Simulate finding a player
+        let closest: Character | null = null;
+        let closestDistance = Infinity;
+
+        for (const session of this.playerManager.getPlayersOnMap(monster.position.mapId)) {
+            const character = session.character;
+            if (!character || !this.isTargetable(character)) continue;
+
+            const distance = GameUtils.getDistance(
+                monster.position.x, monster.position.y,
+                character.x_position, character.y_position
+            );
+
+            if (distance <= monster.aggroRange && distance < closestDistance) {
+                closest = character;
+                closestDistance = distance;
+            }
+        }
+
+        if (closest) {
             monster.state = 'chasing';
-            monster.target = 'player_' + Math.floor(Math.random() * 1000);
-            this.logger.debug(`Monster ${monster.name} found target: ${monster.target}`);
+            monster.target = closest.id.toString();
+            this.logger.debug(`Monster ${monster.name} aggroed on ${closest.name}`);
         }
     }
 
+    /**
+     * Live character the monster is targeting, or null once the target has
+     * disconnected, changed maps or died.
+     */
+    private getTargetCharacter(monster: Monster): Character | null {
+        if (!monster.target) return null;
+
+        const session = this.playerManager.getSessionByCharacterId(parseInt(monster.target));
+        const character = session?.character;
+
+        if (!character || character.map_id !== monster.position.mapId || !this.isTargetable(character)) {
+            return null;
+        }
+
+        return character;
+    }
+
+    private isTargetable(character: Character): boolean {
+        return character.current_hp > 0 && !this.combatService.isInvulnerable(character.id);
+    }
+
+    private isBeyondLeash(monster: Monster, target: Character): boolean {
+        const leashRange = monster.aggroRange * this.LEASH_AGGRO_MULTIPLIER;
+
+        const fromHome = GameUtils.getDistance(
+            monster.position.x, monster.position.y,
+            monster.originalPosition.x, monster.originalPosition.y
+        );
+        const targetFromHome = GameUtils.getDistance(
+            target.x_position, target.y_position,
+            monster.originalPosition.x, monster.originalPosition.y
+        );
+
+        return fromHome > leashRange || targetFromHome > leashRange;
+    }
+
     private moveMonsterTowards(monster: Monster, targetX: number, targetY: number): void {
         const template = this.monsterTemplates.get(monster.type);
         if (!template) return;
@@ -360,28 +474,35 @@ export class MonsterService {
         }
     }
 
-    private performMonsterAttack(monster: Monster): void {
-        if (!monster.target) return;
-
-        const damage = monster.attack + Math.floor(Math.random() * 10) - 5; // ±5 damage variance
-        
-        this.logger.info(`Monster ${monster.name} attacks ${monster.target} for ${damage} damage`);
-
-        // Broadcast attack to players
-        this.broadcastToMap(monster.position.mapId, {
-            type: 'monster_attack',
-            data: {
-                monsterId: monster.id,
-                targetId: monster.target,
-                damage: damage,
-                position: monster.position
-            }
-        });
-
-        // 30% chance to continue attacking, 70% to go back to chasing
-        if (Math.random() < 0.3) {
-            monster.state = 'chasing';
-        }
+    private performMonsterAttack(monster: Monster, target: Character): void {
+        const rawDamage = monster.attack + Math.floor(Math.random() * 10) - 5; // ±5 damage variance
+
+        this.combatService.applyMonsterAttack(target.id, monster, rawDamage)
+            .then(hit => {
+                if (!hit) return;
+
+                this.logger.info(`Monster ${monster.name} attacks ${target.name} for ${hit.damage} damage`);
+
+                // Broadcast attack to players
+                this.broadcastToMap(monster.position.mapId, {
+                    type: 'monster_attack',
+                    data: {
+                        monsterId: monster.id,
+                        targetId: target.id.toString(),
+                        damage: hit.damage,
+                        targetHp: hit.currentHp,
+                        targetMaxHp: hit.maxHp,
+                        position: monster.position
+                    }
+                });
+
+                if (hit.killed && monster.target === target.id.toString()) {
+                    this.startReturning(monster);
+                }
+            })
+            .catch(error => {
+                this.logger.error('Monster attack error:', error);
+            });
     }
 
     private checkSpawning(): void {
@@ -464,7 +585,8 @@ export class MonsterService {
             lastAction: new Date(),
             aggroRange: template.aggroRange,
             patrolRange: template.patrolRange,
-            originalPosition: { x: position.x, y: position.y }
+            originalPosition: { x: position.x, y: position.y },
+            lootTable: template.lootTable
         };
 
         this.activeMonsters.set(monster.id, monster);
@@ -493,6 +615,7 @@ export class MonsterService {
         monster.position.y = monster.originalPosition.y;
         monster.respawnTime = undefined;
         monster.lastAction = new Date();
+        monster.lastAttack = undefined;
 
         this.logger.info(`Respawned ${monster.name} at original position`);
 
@@ -507,12 +630,13 @@ export class MonsterService {
 
     public damageMonster(monsterId: string, damage: number, attackerId: number): {
         killed: boolean;
+        damage: number;
         experience: number;
         gold: number;
     } {
         const monster = this.activeMonsters.get(monsterId);
         if (!monster || monster.state === 'dead') {
-            return { killed: false, experience: 0, gold: 0 };
+            return { killed: false, damage: 0, experience: 0, gold: 0 };
         }
 
         // Apply damage
@@ -540,10 +664,10 @@ export class MonsterService {
 
         // Check if monster died
         if (monster.hp <= 0) {
-            return this.killMonster(monster, attackerId);
+            return { ...this.killMonster(monster, attackerId), damage: actualDamage };
         }
 
-        return { killed: false, experience: 0, gold: 0 };
+        return { killed: false, damage: actualDamage, experience: 0, gold: 0 };
     }
 
     private killMonster(monster: Monster, killerId: number): {
@@ -569,6 +693,8 @@ export class MonsterService {
             }
         });
 
+        this.lootService.spawnMonsterLoot(monster, killerId);
+
         return {
             killed: true,
             experience: monster.experience,
@@ -613,10 +739,8 @@ export class MonsterService {
         });
     }
 
-    private broadcastToMap(mapId: number, message: any): void {
-        // This would integrate with the GameService to broadcast to players on specific maps
-        // For now, we'll log the broadcast
-        this.logger.debug(`Broadcasting to map ${mapId}: ${message.type}`);
+    private broadcastToMap(mapId: number, message: GameMessage): void {
+        this.playerManager.broadcastToMap(mapId, message);
     }
 
     public getStats(): {
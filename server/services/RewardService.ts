@@ -0,0 +1,96 @@
+import { IDatabaseService, Character } from '../database/IDatabaseService';
+import { Logger } from '../utils/Logger';
+import { GameUtils, gameConfig } from '../game/GameUtils';
+import { ItemService } from './ItemService';
+import { StatsService } from './StatsService';
+
+export interface KillRewardResult {
+    characterId: number;
+    experienceGained: number;
+    goldGained: number;
+    totalExperience: number;
+    previousLevel: number;
+    newLevel: number;
+    levelsGained: number;
+    stats?: Partial<Character>;
+}
+
+export class RewardService {
+    private db: IDatabaseService;
+    private itemService: ItemService;
+    private statsService: StatsService;
+    private logger: Logger;
+
+    constructor(databaseService: IDatabaseService, itemService: ItemService, statsService: StatsService) {
+        this.db = databaseService;
+        this.itemService = itemService;
+        this.statsService = statsService;
+        this.logger = new Logger();
+    }
+
+    /**
+     * Applies experience and gold from a kill. Handles multi-level jumps and
+     * stops gaining experience once gameConfig.maxLevel is reached.
+     */
+    public async grantKillRewards(characterId: number, experience: number, gold: number): Promise<KillRewardResult | null> {
+        const character = await this.db.getCharacterById(characterId);
+        if (!character) {
+            this.logger.warn(`Cannot grant rewards, character ${characterId} not found`);
+            return null;
+        }
+
+        const previousLevel = character.level;
+        const currentExperience = Number(character.experience) || 0;
+        const experienceCap = GameUtils.getRequiredExperience(gameConfig.maxLevel);
+        const totalExperience = Math.max(
+            currentExperience,
+            Math.min(currentExperience + Math.max(0, experience), experienceCap)
+        );
+
+        let newLevel = previousLevel;
+        if (GameUtils.canLevelUp(previousLevel, totalExperience)) {
+            newLevel = Math.min(GameUtils.calculateLevelFromExp(totalExperience), gameConfig.maxLevel);
+        }
+
+        const updates: Partial<Character> = { experience: totalExperience };
+        let stats: Partial<Character> | undefined;
+
+        if (newLevel > previousLevel) {
+            stats = GameUtils.getStatsForLevel(character.class, newLevel);
+            Object.assign(updates, { level: newLevel }, stats);
+        }
+
+        await this.db.updateCharacterStats(characterId, updates);
+
+        if (stats) {
+            // Level-ups refill HP/MP to the new maximums, including equipment bonuses
+            this.statsService.invalidate(characterId);
+            const derived = await this.statsService.getDerivedStats(characterId);
+            const refill = {
+                current_hp: derived ? derived.maxHp : stats.hp!,
+                current_mp: derived ? derived.maxMp : stats.mp!
+            };
+            await this.db.updateCharacterStats(characterId, refill);
+            Object.assign(stats, refill);
+        }
+
+        if (gold > 0) {
+            await this.itemService.updateGold(characterId, gold);
+        }
+
+        if (newLevel > previousLevel) {
+            this.logger.info(`${character.name} reached level ${newLevel} (was ${previousLevel})`);
+        }
+
+        return {
+            characterId,
+            experienceGained: totalExperience - currentExperience,
+            goldGained: Math.max(0, gold),
+            totalExperience,
+            previousLevel,
+            newLevel,
+            levelsGained: newLevel - previousLevel,
+            stats
+        };
+    }
+}
@@ -0,0 +1,199 @@
+import { Logger } from '../utils/Logger';
+import { salvageConfig, SalvageYield } from '../game/SalvageConfig';
+import { ItemService, InventoryItem, ItemContainer, ItemRarity, PlayerInventory } from './ItemService';
+
+export type SalvageFailureReason =
+    | 'item_not_found'
+    | 'item_equipped'
+    | 'item_locked'
+    | 'not_salvageable'
+    | 'invalid_quantity'
+    | 'invalid_rarity'
+    | 'nothing_to_salvage'
+    | 'inventory_full';
+
+export interface SalvageResult {
+    success: boolean;
+    reason?: SalvageFailureReason;
+    message: string;
+    salvaged?: number; // instances broken down
+    materials?: { itemId: string; quantity: number }[];
+}
+
+export interface SalvagePreview {
+    instanceId: string;
+    itemId: string;
+    yields: { itemId: string; quantity: number; chance: number }[]; // chance is 100 for guaranteed yields
+}
+
+export class SalvageService {
+    private itemService: ItemService;
+    private logger: Logger;
+
+    constructor(itemService: ItemService) {
+        this.itemService = itemService;
+        this.logger = new Logger();
+
+        this.validateSalvageConfig();
+    }
+
+    public async previewSalvage(characterId: number, instanceId: string): Promise<SalvagePreview | null> {
+        const inventoryItem = await this.itemService.getInventoryItem(characterId, instanceId);
+        if (!inventoryItem || !this.isSalvageable(inventoryItem)) {
+            return null;
+        }
+
+        return {
+            instanceId,
+            itemId: inventoryItem.itemId,
+            yields: this.getYields(inventoryItem).map(entry => ({
+                itemId: entry.itemId,
+                quantity: this.getYieldQuantity(entry, inventoryItem) * inventoryItem.quantity,
+                chance: entry.chance ?? 100
+            }))
+        };
+    }
+
+    /**
+     * Breaks the given instances down into materials. The whole batch is
+     * refused if any of them can't be salvaged.
+     */
+    public async salvage(characterId: number, instanceIds: string[]): Promise<SalvageResult> {
+        const ids = Array.from(new Set(instanceIds));
+        if (ids.length === 0 || ids.length > salvageConfig.maxBatch) {
+            return { success: false, reason: 'invalid_quantity', message: `Salvage between 1 and ${salvageConfig.maxBatch} items at a time` };
+        }
+
+        return this.salvageFrom(characterId, inventory => {
+            const selected: InventoryItem[] = [];
+
+            for (const instanceId of ids) {
+                const inventoryItem = inventory.items.find(inv => inv.instanceId === instanceId);
+                const item = inventoryItem ? this.itemService.getItemById(inventoryItem.itemId) : null;
+                if (!inventoryItem || !item) {
+                    return { success: false, reason: 'item_not_found', message: 'Item is not in your inventory' };
+                }
+
+                if (inventoryItem.equipped) {
+                    return { success: false, reason: 'item_equipped', message: `Unequip ${item.name} first` };
+                }
+
+                if (inventoryItem.locked) {
+                    return { success: false, reason: 'item_locked', message: `${item.name} is locked` };
+                }
+
+                if (!this.isSalvageable(inventoryItem)) {
+                    return { success: false, reason: 'not_salvageable', message: `${item.name} can't be salvaged` };
+                }
+
+                selected.push(inventoryItem);
+            }
+
+            return selected;
+        });
+    }
+
+    // Salvages every unequipped, unlocked item of a rarity, e.g. all commons
+    public async salvageAll(characterId: number, rarity: ItemRarity): Promise<SalvageResult> {
+        if (!(rarity in salvageConfig.yields)) {
+            return { success: false, reason: 'invalid_rarity', message: 'Invalid rarity' };
+        }
+
+        return this.salvageFrom(characterId, inventory => {
+            const selected = inventory.items.filter(inv =>
+                !inv.equipped && !inv.locked && this.isSalvageable(inv) &&
+                this.itemService.getItemById(inv.itemId)?.rarity === rarity
+            );
+
+            if (selected.length === 0) {
+                return { success: false, reason: 'nothing_to_salvage', message: `You have no unlocked ${rarity} items to salvage` };
+            }
+            return selected;
+        });
+    }
+
+    // select picks the instances to salvage from the loaded inventory, or refuses with a result
+    private async salvageFrom(
+        characterId: number,
+        select: (inventory: PlayerInventory) => InventoryItem[] | SalvageResult
+    ): Promise<SalvageResult> {
+        return this.itemService.mutateInventory<SalvageResult>(characterId, inventory => {
+            const selected = select(inventory);
+            if (!Array.isArray(selected)) {
+                return selected;
+            }
+
+            const totals = new Map<string, number>();
+            selected.forEach(inventoryItem => {
+                this.getYields(inventoryItem).forEach(entry => {
+                    for (let i = 0; i < inventoryItem.quantity; i++) {
+                        if (entry.chance === undefined || Math.random() * 100 < entry.chance) {
+                            totals.set(entry.itemId, (totals.get(entry.itemId) || 0) + this.getYieldQuantity(entry, inventoryItem));
+                        }
+                    }
+                });
+            });
+
+            const materials = Array.from(totals.entries())
+                .filter(([, quantity]) => quantity > 0)
+                .map(([itemId, quantity]) => ({ itemId, quantity }));
+            const instances: InventoryItem[] = [];
+            materials.forEach(material => instances.push(...this.itemService.createInstances(material.itemId, material.quantity)!));
+
+            // The salvaged items free their slots before the materials go in
+            const working: ItemContainer = {
+                ...inventory,
+                items: inventory.items.filter(inv => !selected.includes(inv)).map(inv => ({ ...inv }))
+            };
+            if (!this.itemService.insertInstances(working, instances)) {
+                return { success: false, reason: 'inventory_full', message: 'Not enough inventory space for the materials' };
+            }
+
+            inventory.items = working.items;
+            this.logger.info(`Character ${characterId} salvaged ${selected.length} items into ${materials.map(m => `${m.quantity}x ${m.itemId}`).join(', ') || 'nothing'}`);
+
+            return {
+                success: true,
+                message: `Salvaged ${selected.length} item${selected.length === 1 ? '' : 's'}`,
+                salvaged: selected.length,
+                materials
+            };
+        });
+    }
+
+    private isSalvageable(inventoryItem: InventoryItem): boolean {
+        const item = this.itemService.getItemById(inventoryItem.itemId);
+        return !!item && salvageConfig.itemTypes.includes(item.type);
+    }
+
+    private getYields(inventoryItem: InventoryItem): SalvageYield[] {
+        const item = this.itemService.getItemById(inventoryItem.itemId);
+        return item ? salvageConfig.yields[item.rarity] || [] : [];
+    }
+
+    private getYieldQuantity(entry: SalvageYield, inventoryItem: InventoryItem): number {
+        const level = this.itemService.getItemById(inventoryItem.itemId)?.level || 0;
+        return entry.quantity +
+            Math.floor((entry.perItemLevel || 0) * level) +
+            Math.floor((entry.perEnhancementLevel || 0) * (inventoryItem.enhancementLevel || 0));
+    }
+
+    private validateSalvageConfig(): void {
+        const errors: string[] = [];
+
+        Object.entries(salvageConfig.yields).forEach(([rarity, yields]) => {
+            yields.forEach(entry => {
+                if (!this.itemService.getItemById(entry.itemId)) {
+                    errors.push(`${rarity} yields unknown item ${entry.itemId}`);
+                }
+                if (!Number.isInteger(entry.quantity) || entry.quantity < 0) {
+                    errors.push(`${rarity} has an invalid quantity of ${entry.itemId}`);
+                }
+            });
+        });
+
+        if (errors.length > 0) {
+            throw new Error(`Invalid salvage config: ${errors.join('; ')}`);
+        }
+    }
+}
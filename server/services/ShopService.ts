@@ -0,0 +1,343 @@
+import { randomUUID } from 'crypto';
+import { IDatabaseService, Character } from '../database/IDatabaseService';
+import { Logger } from '../utils/Logger';
+import { GameUtils, gameConfig } from '../game/GameUtils';
+import { PlayerManager } from '../game/PlayerManager';
+import { npcVendors, NpcVendor, ShopStockEntry } from '../game/NpcData';
+import { ItemService, InventoryItem } from './ItemService';
+
+export type ShopFailureReason =
+    | 'character_not_found'
+    | 'character_dead'
+    | 'vendor_not_found'
+    | 'wrong_map'
+    | 'out_of_range'
+    | 'not_sold_here'
+    | 'out_of_stock'
+    | 'invalid_quantity'
+    | 'insufficient_gold'
+    | 'inventory_full'
+    | 'item_not_found'
+    | 'item_equipped'
+    | 'item_locked'
+    | 'not_sellable'
+    | 'buyback_not_found';
+
+export interface ShopResult {
+    success: boolean;
+    reason?: ShopFailureReason;
+    message: string;
+    gold?: number; // character's gold afterwards
+}
+
+export interface BuybackEntry {
+    id: string;
+    item: InventoryItem; // the sold instance, enhancements included
+    price: number; // total paid to buy it back, same as the sale
+    soldAt: number;
+}
+
+interface StockState {
+    remaining: number;
+    restockAt: number | null; // set once the stock drops below its limit
+}
+
+export class ShopService {
+    private db: IDatabaseService;
+    private itemService: ItemService;
+    private playerManager: PlayerManager;
+    private logger: Logger;
+    private stock: Map<string, StockState> = new Map(); // keyed by vendorId:itemId
+    private buyback: Map<number, BuybackEntry[]> = new Map();
+
+    constructor(databaseService: IDatabaseService, itemService: ItemService, playerManager: PlayerManager) {
+        this.db = databaseService;
+        this.itemService = itemService;
+        this.playerManager = playerManager;
+        this.logger = new Logger();
+
+        this.validateVendors();
+    }
+
+    public getVendorsOnMap(mapId: number): NpcVendor[] {
+        return Object.values(npcVendors).filter(vendor => vendor.mapId === mapId);
+    }
+
+    public getVendorPublicData(vendor: NpcVendor) {
+        return {
+            id: vendor.id,
+            name: vendor.name,
+            mapId: vendor.mapId,
+            position: vendor.position
+        };
+    }
+
+    /**
+     * What a vendor currently offers, with prices and remaining limited stock,
+     * plus the character's buyback tab.
+     */
+    public getShopView(vendorId: string, characterId: number) {
+        const vendor = npcVendors[vendorId];
+        if (!vendor) {
+            return null;
+        }
+
+        return {
+            ...this.getVendorPublicData(vendor),
+            stock: vendor.stock.map(entry => {
+                const state = this.getStockState(vendor, entry);
+                return {
+                    itemId: entry.itemId,
+                    price: this.getBuyPrice(entry),
+                    remaining: state ? state.remaining : null,
+                    limit: entry.limit ?? null,
+                    restockAt: state?.restockAt ?? null
+                };
+            }),
+            buyback: this.getBuyback(characterId).map(entry => ({
+                id: entry.id,
+                item: entry.item,
+                price: entry.price,
+                soldAt: entry.soldAt
+            }))
+        };
+    }
+
+    public async buyItem(characterId: number, vendorId: string, itemId: string, quantity: number = 1): Promise<ShopResult> {
+        const check = await this.checkVendorAccess(characterId, vendorId);
+        if (!('vendor' in check)) {
+            return check;
+        }
+        const { vendor } = check;
+
+        const entry = vendor.stock.find(stock => stock.itemId === itemId);
+        const item = this.itemService.getItemById(itemId);
+        if (!entry || !item) {
+            return { success: false, reason: 'not_sold_here', message: `${vendor.name} doesn't sell that` };
+        }
+
+        if (!Number.isInteger(quantity) || quantity <= 0 || quantity > item.maxStack) {
+            return { success: false, reason: 'invalid_quantity', message: 'Invalid quantity' };
+        }
+
+        // Reserve limited stock before the transaction so two buyers can't both take the last one
+        const state = this.getStockState(vendor, entry);
+        if (state && state.remaining < quantity) {
+            return { success: false, reason: 'out_of_stock', message: `${vendor.name} has only ${state.remaining} ${item.name} left` };
+        }
+        this.adjustStock(vendor, entry, -quantity);
+
+        const total = this.getBuyPrice(entry) * quantity;
+
+        try {
+            const result = await this.itemService.mutateInventory<ShopResult>(characterId, inventory => {
+                if (inventory.gold < total) {
+                    return { success: false, reason: 'insufficient_gold', message: `You need ${total} gold` };
+                }
+
+                // Tops up the existing stack and opens new ones as needed
+                if (!this.itemService.insertInstances(inventory, this.itemService.createInstances(itemId, quantity)!)) {
+                    return { success: false, reason: 'inventory_full', message: 'Not enough inventory space' };
+                }
+
+                inventory.gold -= total;
+                return { success: true, message: `Bought ${quantity}x ${item.name} for ${total} gold`, gold: inventory.gold };
+            });
+
+            if (!result.success) {
+                this.adjustStock(vendor, entry, quantity);
+            }
+            return result;
+        } catch (error) {
+            this.adjustStock(vendor, entry, quantity);
+            throw error;
+        }
+    }
+
+    public async sellItem(characterId: number, vendorId: string, instanceId: string, quantity: number = 1): Promise<ShopResult> {
+        const check = await this.checkVendorAccess(characterId, vendorId);
+        if (!('vendor' in check)) {
+            return check;
+        }
+
+        let sold: BuybackEntry | null = null;
+
+        const result = await this.itemService.mutateInventory<ShopResult>(characterId, inventory => {
+            const inventoryItem = inventory.items.find(inv => inv.instanceId === instanceId);
+            const item = inventoryItem ? this.itemService.getItemById(inventoryItem.itemId) : null;
+            if (!inventoryItem || !item) {
+                return { success: false, reason: 'item_not_found', message: 'Item is not in your inventory' };
+            }
+
+            if (inventoryItem.equipped) {
+                return { success: false, reason: 'item_equipped', message: 'Unequip the item first' };
+            }
+
+            if (inventoryItem.locked) {
+                return { success: false, reason: 'item_locked', message: 'Unlock the item first' };
+            }
+
+            const unitPrice = this.getSellPrice(item.price);
+            if (item.type === 'quest' || unitPrice <= 0) {
+                return { success: false, reason: 'not_sellable', message: `${item.name} can't be sold` };
+            }
+
+            const taken = this.itemService.takeInstance(inventory, instanceId, quantity);
+            if (!taken) {
+                return { success: false, reason: 'invalid_quantity', message: 'Invalid quantity' };
+            }
+
+            const total = unitPrice * quantity;
+            inventory.gold += total;
+            sold = { id: randomUUID(), item: taken, price: total, soldAt: Date.now() };
+
+            return { success: true, message: `Sold ${quantity}x ${item.name} for ${total} gold`, gold: inventory.gold };
+        });
+
+        if (sold) {
+            this.addToBuyback(characterId, sold);
+        }
+        return result;
+    }
+
+    public async buyBack(characterId: number, vendorId: string, buybackId: string): Promise<ShopResult> {
+        const check = await this.checkVendorAccess(characterId, vendorId);
+        if (!('vendor' in check)) {
+            return check;
+        }
+
+        const entries = this.getBuyback(characterId);
+        const entry = entries.find(buyback => buyback.id === buybackId);
+        if (!entry) {
+            return { success: false, reason: 'buyback_not_found', message: 'That item is no longer available' };
+        }
+
+        // Take it off the tab first so it can't be bought back twice
+        this.buyback.set(characterId, entries.filter(buyback => buyback !== entry));
+
+        try {
+            const result = await this.itemService.mutateInventory<ShopResult>(characterId, inventory => {
+                if (inventory.gold < entry.price) {
+                    return { success: false, reason: 'insufficient_gold', message: `You need ${entry.price} gold` };
+                }
+
+                if (!this.itemService.insertInstance(inventory, entry.item)) {
+                    return { success: false, reason: 'inventory_full', message: 'Not enough inventory space' };
+                }
+
+                inventory.gold -= entry.price;
+                return { success: true, message: 'Item bought back', gold: inventory.gold };
+            });
+
+            if (!result.success) {
+                this.addToBuyback(characterId, entry);
+            }
+            return result;
+        } catch (error) {
+            this.addToBuyback(characterId, entry);
+            throw error;
+        }
+    }
+
+    public getBuyback(characterId: number): BuybackEntry[] {
+        return this.buyback.get(characterId) || [];
+    }
+
+    public getSellPrice(price: number): number {
+        return Math.floor(price * gameConfig.shop.sellPriceRatio);
+    }
+
+    private getBuyPrice(entry: ShopStockEntry): number {
+        return entry.price ?? this.itemService.getItemById(entry.itemId)?.price ?? 0;
+    }
+
+    private async checkVendorAccess(characterId: number, vendorId: string): Promise<ShopResult | { vendor: NpcVendor }> {
+        const vendor = npcVendors[vendorId];
+        if (!vendor) {
+            return { success: false, reason: 'vendor_not_found', message: 'Vendor not found' };
+        }
+
+        // Prefer the live session copy, it may be ahead of the database
+        const character: Character | null = this.playerManager.getSessionByCharacterId(characterId)?.character ||
+            await this.db.getCharacterById(characterId);
+        if (!character) {
+            return { success: false, reason: 'character_not_found', message: 'Character not found' };
+        }
+
+        if (character.current_hp <= 0) {
+            return { success: false, reason: 'character_dead', message: 'You are dead' };
+        }
+
+        if (character.map_id !== vendor.mapId) {
+            return { success: false, reason: 'wrong_map', message: `${vendor.name} is on a different map` };
+        }
+
+        const distance = GameUtils.getDistance(
+            character.x_position, character.y_position,
+            vendor.position.x, vendor.position.y
+        );
+        if (distance > gameConfig.shop.interactionRange) {
+            return { success: false, reason: 'out_of_range', message: `You are too far from ${vendor.name}` };
+        }
+
+        return { vendor };
+    }
+
+    // Limited stock only; refills to its limit once restockAt has passed
+    private getStockState(vendor: NpcVendor, entry: ShopStockEntry): StockState | null {
+        if (entry.limit === undefined) {
+            return null;
+        }
+
+        const key = `${vendor.id}:${entry.itemId}`;
+        let state = this.stock.get(key);
+        if (!state || (state.restockAt !== null && state.restockAt <= Date.now())) {
+            state = { remaining: entry.limit, restockAt: null };
+            this.stock.set(key, state);
+        }
+        return state;
+    }
+
+    private adjustStock(vendor: NpcVendor, entry: ShopStockEntry, change: number): void {
+        const state = this.getStockState(vendor, entry);
+        if (!state || entry.limit === undefined) {
+            return;
+        }
+
+        state.remaining = Math.min(entry.limit, state.remaining + change);
+        if (state.remaining < entry.limit && state.restockAt === null && entry.restockMs !== undefined) {
+            state.restockAt = Date.now() + entry.restockMs;
+        } else if (state.remaining >= entry.limit) {
+            state.restockAt = null;
+        }
+    }
+
+    private addToBuyback(characterId: number, entry: BuybackEntry): void {
+        const entries = [entry, ...this.getBuyback(characterId)]
+            .sort((a, b) => b.soldAt - a.soldAt)
+            .slice(0, gameConfig.shop.buybackLimit);
+        this.buyback.set(characterId, entries);
+    }
+
+    private validateVendors(): void {
+        const errors: string[] = [];
+
+        Object.values(npcVendors).forEach(vendor => {
+            if (!GameUtils.isValidPosition(vendor.position.x, vendor.position.y, vendor.mapId)) {
+                errors.push(`vendor ${vendor.id} is outside map ${vendor.mapId}`);
+            }
+
+            vendor.stock.forEach(entry => {
+                if (!this.itemService.getItemById(entry.itemId)) {
+                    errors.push(`vendor ${vendor.id} sells unknown item ${entry.itemId}`);
+                }
+            });
+        });
+
+        if (errors.length > 0) {
+            throw new Error(`Invalid NPC vendors: ${errors.join('; ')}`);
+        }
+
+        this.logger.info(`Loaded ${Object.keys(npcVendors).length} NPC vendors`);
+    }
+}
@@ -0,0 +1,157 @@
+import { IDatabaseService, Character } from '../database/IDatabaseService';
+import { Logger } from '../utils/Logger';
+import { GameUtils, gameConfig } from '../game/GameUtils';
+import { ItemService, ItemStats } from './ItemService';
+
+export interface DerivedStats {
+    attack: number;
+    defense: number;
+    maxHp: number;
+    maxMp: number;
+    strength: number;
+    agility: number;
+    intelligence: number;
+    criticalChance: number; // percent
+    criticalDamage: number; // percent bonus on a critical hit
+}
+
+export interface StatBuff {
+    id: string;
+    source: string;
+    stats: ItemStats;
+    expiresAt: number;
+}
+
+interface CachedStats {
+    stats: DerivedStats;
+    validUntil: number; // earliest buff expiry
+}
+
+export class StatsService {
+    private db: IDatabaseService;
+    private itemService: ItemService;
+    private logger: Logger;
+    private cache: Map<number, CachedStats> = new Map();
+    private buffs: Map<number, StatBuff[]> = new Map();
+
+    private readonly BASE_CRITICAL_DAMAGE = 100; // critical hits deal double damage
+    private readonly MAX_CRITICAL_CHANCE = 75;
+
+    constructor(databaseService: IDatabaseService, itemService: ItemService) {
+        this.db = databaseService;
+        this.itemService = itemService;
+        this.logger = new Logger();
+
+        this.itemService.onEquipmentChanged(characterId => this.invalidate(characterId));
+    }
+
+    /**
+     * Final stats for a character: class base stats scaled by level, every
+     * equipped item's enhanced and rolled stats and active buffs. Cached until the
+     * character's equipment, level or buffs change.
+     */
+    public async getDerivedStats(characterId: number): Promise<DerivedStats | null> {
+        const cached = this.cache.get(characterId);
+        if (cached && cached.validUntil > Date.now()) {
+            return cached.stats;
+        }
+
+        const character = await this.db.getCharacterById(characterId);
+        if (!character) {
+            return null;
+        }
+
+        const itemStats = await this.getEquipmentStats(characterId);
+        const buffs = this.getActiveBuffs(characterId);
+        const stats = this.calculateStats(character, itemStats, buffs);
+
+        this.cache.set(characterId, {
+            stats,
+            validUntil: buffs.reduce((earliest, buff) => Math.min(earliest, buff.expiresAt), Infinity)
+        });
+
+        return stats;
+    }
+
+    public invalidate(characterId: number): void {
+        this.cache.delete(characterId);
+    }
+
+    public addBuff(characterId: number, buff: StatBuff): void {
+        // Re-applying the same buff refreshes it instead of stacking
+        const buffs = this.getActiveBuffs(characterId).filter(active => active.id !== buff.id);
+        buffs.push(buff);
+        this.buffs.set(characterId, buffs);
+        this.invalidate(characterId);
+
+        this.logger.debug(`Buff ${buff.id} applied to character ${characterId}`);
+    }
+
+    public removeBuff(characterId: number, buffId: string): void {
+        const buffs = this.getActiveBuffs(characterId).filter(active => active.id !== buffId);
+        this.buffs.set(characterId, buffs);
+        this.invalidate(characterId);
+    }
+
+    public getActiveBuffs(characterId: number): StatBuff[] {
+        const now = Date.now();
+        const buffs = (this.buffs.get(characterId) || []).filter(buff => buff.expiresAt > now);
+        this.buffs.set(characterId, buffs);
+        return buffs;
+    }
+
+    public clearCharacter(characterId: number): void {
+        this.cache.delete(characterId);
+        this.buffs.delete(characterId);
+    }
+
+    private calculateStats(character: Character, itemStats: ItemStats, buffs: StatBuff[]): DerivedStats {
+        const base = gameConfig.classMultipliers[character.class]
+            ? GameUtils.getStatsForLevel(character.class, character.level)
+            : {
+                hp: character.hp,
+                mp: character.mp,
+                strength: character.strength,
+                dexterity: character.dexterity,
+                intelligence: character.intelligence
+            };
+
+        const bonus = buffs.reduce((total, buff) => this.addStats(total, buff.stats), { ...itemStats });
+
+        const strength = base.strength + (bonus.strength || 0);
+        const agility = base.dexterity + (bonus.agility || 0);
+        const intelligence = base.intelligence + (bonus.intelligence || 0);
+
+        return {
+            attack: strength + (bonus.attack || 0),
+            defense: bonus.defense || 0,
+            maxHp: base.hp + (bonus.hp || 0),
+            maxMp: base.mp + (bonus.mp || 0),
+            strength,
+            agility,
+            intelligence,
+            // agility / 2 percent matches the default scaling of GameUtils.calculateCombatDamage
+            criticalChance: Math.min(this.MAX_CRITICAL_CHANCE, agility / 2 + (bonus.criticalChance || 0)),
+            criticalDamage: this.BASE_CRITICAL_DAMAGE + (bonus.criticalDamage || 0)
+        };
+    }
+
+    private async getEquipmentStats(characterId: number): Promise<ItemStats> {
+        const equipment = await this.itemService.getPlayerEquipment(characterId);
+
+        return Object.values(equipment).reduce((total, equipped) => {
+            const stats = this.itemService.getEnhancedStats(equipped.item, equipped.enhancementLevel || 0, equipped);
+            return this.addStats(total, stats);
+        }, {} as ItemStats);
+    }
+
+    private addStats(total: ItemStats, stats: ItemStats): ItemStats {
+        Object.entries(stats).forEach(([stat, value]) => {
+            if (typeof value === 'number') {
+                const key = stat as keyof ItemStats;
+                total[key] = (total[key] || 0) + value;
+            }
+        });
+        return total;
+    }
+}
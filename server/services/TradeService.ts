@@ -0,0 +1,546 @@
+import { randomUUID } from 'crypto';
+import { IDatabaseService, Character, TradeLog } from '../database/IDatabaseService';
+import { Logger } from '../utils/Logger';
+import { GameUtils, gameConfig } from '../game/GameUtils';
+import { PlayerManager } from '../game/PlayerManager';
+import { ItemService, InventoryItem, ItemAffix, ItemStats, PlayerInventory } from './ItemService';
+
+export type TradeFailureReason =
+    | 'not_online'
+    | 'self_trade'
+    | 'busy'
+    | 'out_of_range'
+    | 'no_request'
+    | 'no_trade'
+    | 'not_locked'
+    | 'item_not_found'
+    | 'item_equipped'
+    | 'item_locked'
+    | 'not_tradable'
+    | 'invalid_quantity'
+    | 'too_many_items'
+    | 'invalid_amount'
+    | 'insufficient_gold'
+    | 'inventory_full'
+    | 'offer_changed'
+    | 'commit_failed';
+
+export type TradeCancelReason = 'cancelled' | 'out_of_range' | 'disconnected' | 'offer_changed' | 'commit_failed';
+
+export interface TradeResult {
+    success: boolean;
+    reason?: TradeFailureReason;
+    message: string;
+}
+
+// What the other side agreed to; everything but quantity must still match when the trade commits
+export interface TradeOfferItem {
+    instanceId: string;
+    itemId: string;
+    quantity: number;
+    enhancementLevel: number;
+    rolledStats?: ItemStats;
+    affixes?: ItemAffix[];
+}
+
+interface TradeSide {
+    characterId: number;
+    name: string;
+    items: TradeOfferItem[];
+    gold: number;
+    locked: boolean;
+    confirmed: boolean;
+}
+
+interface Trade {
+    id: string;
+    sides: [TradeSide, TradeSide];
+    createdAt: number;
+}
+
+interface TradeRequest {
+    targetId: number;
+    expiresAt: number;
+}
+
+/**
+ * Two-party trade window. Offers are built up on both sides, then both
+ * players lock and confirm; the swap itself runs as one inventory
+ * transaction over both characters.
+ */
+export class TradeService {
+    private db: IDatabaseService;
+    private itemService: ItemService;
+    private playerManager: PlayerManager;
+    private logger: Logger;
+    private trades: Map<string, Trade> = new Map();
+    private tradeByCharacter: Map<number, string> = new Map();
+    private requests: Map<number, TradeRequest> = new Map(); // keyed by the requesting character
+
+    constructor(databaseService: IDatabaseService, itemService: ItemService, playerManager: PlayerManager) {
+        this.db = databaseService;
+        this.itemService = itemService;
+        this.playerManager = playerManager;
+        this.logger = new Logger();
+    }
+
+    public async requestTrade(characterId: number, targetId: number): Promise<TradeResult> {
+        const from = this.getOnlineCharacter(characterId);
+        const target = this.getOnlineCharacter(targetId);
+        if (!from || !target) {
+            return { success: false, reason: 'not_online', message: 'That player is not online' };
+        }
+
+        if (from.id === target.id) {
+            return { success: false, reason: 'self_trade', message: "You can't trade with yourself" };
+        }
+
+        if (this.tradeByCharacter.has(from.id) || this.tradeByCharacter.has(target.id)) {
+            return { success: false, reason: 'busy', message: 'One of you is already trading' };
+        }
+
+        if (!this.inRange(from, target)) {
+            return { success: false, reason: 'out_of_range', message: `${target.name} is too far away` };
+        }
+
+        this.requests.set(from.id, { targetId: target.id, expiresAt: Date.now() + gameConfig.trade.requestTimeoutMs });
+
+        this.playerManager.sendToCharacter(target.id, {
+            type: 'trade_requested',
+            data: { fromCharacterId: from.id, name: from.name, expiresIn: gameConfig.trade.requestTimeoutMs }
+        });
+
+        return { success: true, message: `Trade request sent to ${target.name}` };
+    }
+
+    public async respondToRequest(characterId: number, fromCharacterId: number, accept: boolean): Promise<TradeResult> {
+        const request = this.requests.get(fromCharacterId);
+        if (!request || request.targetId !== characterId || request.expiresAt <= Date.now()) {
+            return { success: false, reason: 'no_request', message: 'The trade request has expired' };
+        }
+        this.requests.delete(fromCharacterId);
+
+        const target = this.getOnlineCharacter(characterId);
+        const from = this.getOnlineCharacter(fromCharacterId);
+        if (!from || !target) {
+            return { success: false, reason: 'not_online', message: 'That player is not online' };
+        }
+
+        if (!accept) {
+            this.playerManager.sendToCharacter(from.id, {
+                type: 'trade_declined',
+                data: { characterId: target.id, name: target.name }
+            });
+            return { success: true, message: 'Trade request declined' };
+        }
+
+        if (this.tradeByCharacter.has(from.id) || this.tradeByCharacter.has(target.id)) {
+            return { success: false, reason: 'busy', message: 'One of you is already trading' };
+        }
+
+        if (!this.inRange(from, target)) {
+            return { success: false, reason: 'out_of_range', message: `${from.name} is too far away` };
+        }
+
+        const trade: Trade = {
+            id: randomUUID(),
+            sides: [this.createSide(from), this.createSide(target)],
+            createdAt: Date.now()
+        };
+        this.trades.set(trade.id, trade);
+        this.tradeByCharacter.set(from.id, trade.id);
+        this.tradeByCharacter.set(target.id, trade.id);
+
+        this.logger.info(`Trade ${trade.id} opened between ${from.name} and ${target.name}`);
+        this.notifyTrade(trade, 'trade_opened');
+
+        return { success: true, message: `Trading with ${from.name}` };
+    }
+
+    public async addItem(characterId: number, instanceId: string, quantity: number = 1): Promise<TradeResult> {
+        // Read first so the trade state checked below can't go stale across the await
+        const inventory = await this.itemService.getPlayerInventory(characterId);
+
+        const trade = this.getTrade(characterId);
+        if (!trade) {
+            return { success: false, reason: 'no_trade', message: 'You are not trading' };
+        }
+
+        if (this.cancelIfLocked(trade)) {
+            return { success: false, reason: 'offer_changed', message: 'Trade cancelled, offers cannot change after locking' };
+        }
+
+        const side = this.getSide(trade, characterId);
+        const inventoryItem = inventory?.items.find(inv => inv.instanceId === instanceId);
+        const item = inventoryItem ? this.itemService.getItemById(inventoryItem.itemId) : null;
+        if (!inventoryItem || !item) {
+            return { success: false, reason: 'item_not_found', message: 'Item is not in your inventory' };
+        }
+
+        if (inventoryItem.equipped) {
+            return { success: false, reason: 'item_equipped', message: 'Unequip the item first' };
+        }
+
+        if (inventoryItem.locked) {
+            return { success: false, reason: 'item_locked', message: `${item.name} is locked` };
+        }
+
+        if (item.type === 'quest') {
+            return { success: false, reason: 'not_tradable', message: `${item.name} can't be traded` };
+        }
+
+        if (!Number.isInteger(quantity) || quantity <= 0 || quantity > inventoryItem.quantity) {
+            return { success: false, reason: 'invalid_quantity', message: 'Invalid quantity' };
+        }
+
+        // Offering the same instance again replaces its quantity
+        const offered = side.items.filter(offer => offer.instanceId !== instanceId);
+        if (offered.length >= gameConfig.trade.maxItems) {
+            return { success: false, reason: 'too_many_items', message: `You can offer at most ${gameConfig.trade.maxItems} items` };
+        }
+
+        side.items = [...offered, {
+            instanceId,
+            itemId: inventoryItem.itemId,
+            quantity,
+            enhancementLevel: inventoryItem.enhancementLevel || 0,
+            rolledStats: inventoryItem.rolledStats,
+            affixes: inventoryItem.affixes
+        }];
+
+        this.notifyTrade(trade, 'trade_updated');
+        return { success: true, message: `Offered ${quantity}x ${item.name}` };
+    }
+
+    public async removeItem(characterId: number, instanceId: string): Promise<TradeResult> {
+        const trade = this.getTrade(characterId);
+        if (!trade) {
+            return { success: false, reason: 'no_trade', message: 'You are not trading' };
+        }
+
+        if (this.cancelIfLocked(trade)) {
+            return { success: false, reason: 'offer_changed', message: 'Trade cancelled, offers cannot change after locking' };
+        }
+
+        const side = this.getSide(trade, characterId);
+        if (!side.items.some(offer => offer.instanceId === instanceId)) {
+            return { success: false, reason: 'item_not_found', message: 'Item is not in your offer' };
+        }
+
+        side.items = side.items.filter(offer => offer.instanceId !== instanceId);
+
+        this.notifyTrade(trade, 'trade_updated');
+        return { success: true, message: 'Item removed from offer' };
+    }
+
+    public async setGold(characterId: number, amount: number): Promise<TradeResult> {
+        const inventory = await this.itemService.getPlayerInventory(characterId);
+
+        const trade = this.getTrade(characterId);
+        if (!trade) {
+            return { success: false, reason: 'no_trade', message: 'You are not trading' };
+        }
+
+        if (this.cancelIfLocked(trade)) {
+            return { success: false, reason: 'offer_changed', message: 'Trade cancelled, offers cannot change after locking' };
+        }
+
+        if (!Number.isInteger(amount) || amount < 0) {
+            return { success: false, reason: 'invalid_amount', message: 'Invalid gold amount' };
+        }
+
+        if (!inventory || inventory.gold < amount) {
+            return { success: false, reason: 'insufficient_gold', message: 'Not enough gold' };
+        }
+
+        this.getSide(trade, characterId).gold = amount;
+
+        this.notifyTrade(trade, 'trade_updated');
+        return { success: true, message: `Offered ${amount} gold` };
+    }
+
+    public async lock(characterId: number): Promise<TradeResult> {
+        const trade = this.getTrade(characterId);
+        if (!trade) {
+            return { success: false, reason: 'no_trade', message: 'You are not trading' };
+        }
+
+        if (!this.checkRange(trade)) {
+            return { success: false, reason: 'out_of_range', message: 'Trade cancelled, you moved too far apart' };
+        }
+
+        this.getSide(trade, characterId).locked = true;
+
+        this.notifyTrade(trade, 'trade_updated');
+        return { success: true, message: 'Offer locked' };
+    }
+
+    /**
+     * Second confirmation, only once both offers are locked. The trade
+     * commits as soon as both sides have confirmed.
+     */
+    public async confirm(characterId: number): Promise<TradeResult> {
+        const trade = this.getTrade(characterId);
+        if (!trade) {
+            return { success: false, reason: 'no_trade', message: 'You are not trading' };
+        }
+
+        if (!trade.sides.every(side => side.locked)) {
+            return { success: false, reason: 'not_locked', message: 'Both offers must be locked first' };
+        }
+
+        this.getSide(trade, characterId).confirmed = true;
+
+        if (!trade.sides.every(side => side.confirmed)) {
+            this.notifyTrade(trade, 'trade_updated');
+            return { success: true, message: 'Waiting for the other player to confirm' };
+        }
+
+        return this.commitTrade(trade);
+    }
+
+    public cancel(characterId: number, reason: TradeCancelReason = 'cancelled'): boolean {
+        const trade = this.getTrade(characterId);
+        if (!trade) {
+            return false;
+        }
+
+        this.closeTrade(trade, reason);
+        return true;
+    }
+
+    // Called after a character's position changes
+    public handleMovement(characterId: number): void {
+        const trade = this.getTrade(characterId);
+        if (trade) {
+            this.checkRange(trade);
+        }
+    }
+
+    public handleDisconnect(characterId: number): void {
+        this.requests.delete(characterId);
+        this.cancel(characterId, 'disconnected');
+    }
+
+    public isTrading(characterId: number): boolean {
+        return this.tradeByCharacter.has(characterId);
+    }
+
+    public async getTradeHistory(characterId: number, limit: number = 50): Promise<TradeLog[]> {
+        return this.db.getTradeLogs(characterId, limit);
+    }
+
+    private async commitTrade(trade: Trade): Promise<TradeResult> {
+        // Detach first so nothing else can touch the trade while it commits
+        this.detachTrade(trade);
+
+        if (!this.inRange(this.getOnlineCharacter(trade.sides[0].characterId), this.getOnlineCharacter(trade.sides[1].characterId))) {
+            this.notifyCancelled(trade, 'out_of_range');
+            return { success: false, reason: 'out_of_range', message: 'Trade cancelled, you moved too far apart' };
+        }
+
+        const [sideA, sideB] = trade.sides;
+        let handedOver: [InventoryItem[], InventoryItem[]] = [[], []];
+
+        let result: TradeResult;
+        try {
+            result = await this.itemService.mutateInventories<TradeResult>(
+                [sideA.characterId, sideB.characterId],
+                ([inventoryA, inventoryB]) => {
+                    // Work on copies, the real inventories only change if every step succeeds
+                    const copies = [inventoryA, inventoryB].map(inventory => ({
+                        ...inventory,
+                        items: inventory.items.map(inv => ({ ...inv }))
+                    })) as [PlayerInventory, PlayerInventory];
+
+                    const taken: [InventoryItem[], InventoryItem[]] = [[], []];
+                    for (let i = 0; i < 2; i++) {
+                        const side = trade.sides[i];
+                        const copy = copies[i];
+
+                        if (copy.gold < side.gold) {
+                            return { success: false, reason: 'insufficient_gold', message: `${side.name} no longer has enough gold` };
+                        }
+
+                        for (const offer of side.items) {
+                            const current = copy.items.find(inv => inv.instanceId === offer.instanceId);
+                            if (!current || !this.matchesOffer(current, offer)) {
+                                return { success: false, reason: 'offer_changed', message: `${side.name}'s offer changed` };
+                            }
+
+                            if (current.locked) {
+                                return { success: false, reason: 'item_locked', message: `${side.name} locked an offered item` };
+                            }
+
+                            const item = this.itemService.takeInstance(copy, offer.instanceId, offer.quantity);
+                            if (!item) {
+                                return { success: false, reason: 'offer_changed', message: `${side.name}'s offer changed` };
+                            }
+                            taken[i].push(item);
+                        }
+                    }
+
+                    for (let i = 0; i < 2; i++) {
+                        const receiver = copies[1 - i];
+                        copies[i].gold -= trade.sides[i].gold;
+                        receiver.gold += trade.sides[i].gold;
+
+                        for (const item of taken[i]) {
+                            if (!this.itemService.insertInstance(receiver, item)) {
+                                const name = trade.sides[1 - i].name;
+                                return { success: false, reason: 'inventory_full', message: `${name}'s inventory is full` };
+                            }
+                        }
+                    }
+
+                    inventoryA.items = copies[0].items;
+                    inventoryA.gold = copies[0].gold;
+                    inventoryB.items = copies[1].items;
+                    inventoryB.gold = copies[1].gold;
+                    handedOver = taken;
+
+                    return { success: true, message: 'Trade completed' };
+                }
+            );
+        } catch (error) {
+            this.logger.error(`Failed to commit trade ${trade.id}:`, error);
+            result = { success: false, reason: 'commit_failed', message: 'Trade failed due to a server error' };
+        }
+
+        if (!result.success) {
+            this.notifyCancelled(trade, 'commit_failed', result.message);
+            return result;
+        }
+
+        this.logger.info(`Trade ${trade.id} completed between ${sideA.name} and ${sideB.name}`);
+
+        try {
+            await this.db.createTradeLog({
+                character_a_id: sideA.characterId,
+                character_b_id: sideB.characterId,
+                items_a: JSON.stringify(handedOver[0]),
+                items_b: JSON.stringify(handedOver[1]),
+                gold_a: sideA.gold,
+                gold_b: sideB.gold
+            });
+        } catch (error) {
+            // The trade already happened, losing the audit row must not undo it
+            this.logger.error(`Failed to write audit log for trade ${trade.id}:`, error);
+        }
+
+        for (const side of trade.sides) {
+            this.playerManager.sendToCharacter(side.characterId, {
+                type: 'trade_completed',
+                data: {
+                    tradeId: trade.id,
+                    inventory: await this.itemService.getPlayerInventory(side.characterId)
+                }
+            });
+        }
+
+        return result;
+    }
+
+    // Any offer change after a lock cancels the whole trade
+    private cancelIfLocked(trade: Trade): boolean {
+        if (!trade.sides.some(side => side.locked)) {
+            return false;
+        }
+
+        this.closeTrade(trade, 'offer_changed');
+        return true;
+    }
+
+    // Cancels the trade and returns false when the partners are out of range
+    private checkRange(trade: Trade): boolean {
+        const [a, b] = trade.sides.map(side => this.getOnlineCharacter(side.characterId));
+        if (this.inRange(a, b)) {
+            return true;
+        }
+
+        this.closeTrade(trade, 'out_of_range');
+        return false;
+    }
+
+    private closeTrade(trade: Trade, reason: TradeCancelReason): void {
+        this.detachTrade(trade);
+        this.notifyCancelled(trade, reason);
+        this.logger.info(`Trade ${trade.id} cancelled: ${reason}`);
+    }
+
+    private detachTrade(trade: Trade): void {
+        this.trades.delete(trade.id);
+        trade.sides.forEach(side => this.tradeByCharacter.delete(side.characterId));
+    }
+
+    private notifyCancelled(trade: Trade, reason: TradeCancelReason, message?: string): void {
+        trade.sides.forEach(side => {
+            this.playerManager.sendToCharacter(side.characterId, {
+                type: 'trade_cancelled',
+                data: { tradeId: trade.id, reason, message }
+            });
+        });
+    }
+
+    private notifyTrade(trade: Trade, type: 'trade_opened' | 'trade_updated'): void {
+        const data = this.getTradePublicData(trade);
+        trade.sides.forEach(side => {
+            this.playerManager.sendToCharacter(side.characterId, { type, data });
+        });
+    }
+
+    // A reroll or enhancement after the offer was made changes the item the other side agreed to
+    private matchesOffer(inventoryItem: InventoryItem, offer: TradeOfferItem): boolean {
+        return inventoryItem.itemId === offer.itemId &&
+            (inventoryItem.enhancementLevel || 0) === offer.enhancementLevel &&
+            JSON.stringify(inventoryItem.rolledStats) === JSON.stringify(offer.rolledStats) &&
+            JSON.stringify(inventoryItem.affixes) === JSON.stringify(offer.affixes);
+    }
+
+    private getTradePublicData(trade: Trade) {
+        return {
+            tradeId: trade.id,
+            sides: trade.sides.map(side => ({
+                characterId: side.characterId,
+                name: side.name,
+                items: side.items,
+                gold: side.gold,
+                locked: side.locked,
+                confirmed: side.confirmed
+            }))
+        };
+    }
+
+    private getTrade(characterId: number): Trade | null {
+        const tradeId = this.tradeByCharacter.get(characterId);
+        return tradeId ? this.trades.get(tradeId) || null : null;
+    }
+
+    private getSide(trade: Trade, characterId: number): TradeSide {
+        return trade.sides[0].characterId === characterId ? trade.sides[0] : trade.sides[1];
+    }
+
+    private createSide(character: Character): TradeSide {
+        return {
+            characterId: character.id,
+            name: character.name,
+            items: [],
+            gold: 0,
+            locked: false,
+            confirmed: false
+        };
+    }
+
+    // Trading is only possible between characters in the world
+    private getOnlineCharacter(characterId: number): Character | null {
+        return this.playerManager.getSessionByCharacterId(characterId)?.character || null;
+    }
+
+    private inRange(a: Character | null, b: Character | null): boolean {
+        if (!a || !b || a.map_id !== b.map_id) {
+            return false;
+        }
+
+        return GameUtils.getDistance(a.x_position, a.y_position, b.x_position, b.y_position) <= gameConfig.trade.range;
+    }
+}
@@ -0,0 +1,76 @@
+import { MockDatabaseService } from '../../database/MockDatabaseService';
+import { PlayerManager } from '../../game/PlayerManager';
+import { ItemService } from '../ItemService';
+import { BankService, BankView } from '../BankService';
+import { countItem, createCharacter, giveItem } from './fixtures';
+
+describe('BankService', () => {
+    const bankerId = 'village_banker';
+    // Standing next to the village banker
+    const nearBanker = { map_id: 1, x_position: 100, y_position: 150 };
+
+    let db: MockDatabaseService;
+    let itemService: ItemService;
+    let bankService: BankService;
+    let characterId: number;
+
+    beforeEach(async () => {
+        db = new MockDatabaseService();
+        itemService = new ItemService(db);
+        bankService = new BankService(db, itemService, new PlayerManager());
+        characterId = await createCharacter(db, 'Saver', nearBanker);
+    });
+
+    async function fillInventory(id: number, itemId: string): Promise<void> {
+        const { capacity, items } = await itemService.getPlayerInventory(id);
+        for (let i = items.length; i < capacity; i++) {
+            await giveItem(itemService, id, itemId);
+        }
+    }
+
+    it('moves part of a stack into the bank and back', async () => {
+        const potions = await giveItem(itemService, characterId, 'health_potion', 20);
+
+        const deposited = await bankService.deposit(characterId, bankerId, potions.instanceId, 15);
+        expect(deposited.success).toBe(true);
+        expect(await countItem(itemService, characterId, 'health_potion')).toBe(5);
+
+        const banked = deposited.bank!.items.find(inv => inv.itemId === 'health_potion')!;
+        expect(banked.quantity).toBe(15);
+
+        const withdrawn = await bankService.withdraw(characterId, bankerId, banked.instanceId, 10);
+        expect(withdrawn.success).toBe(true);
+        expect(await countItem(itemService, characterId, 'health_potion')).toBe(15);
+        expect(withdrawn.bank!.items.find(inv => inv.itemId === 'health_potion')!.quantity).toBe(5);
+    });
+
+    it('shares the bank between characters of one account and refuses deposits once it is full', async () => {
+        await fillInventory(characterId, 'iron_sword');
+        const swords = (await itemService.getPlayerInventory(characterId)).items;
+        let bank: BankView | undefined;
+        for (const sword of swords) {
+            bank = (await bankService.deposit(characterId, bankerId, sword.instanceId)).bank;
+        }
+        expect(bank!.items).toHaveLength(bank!.capacity);
+
+        const alt = await createCharacter(db, 'Alt', nearBanker);
+        const helmet = await giveItem(itemService, alt, 'iron_helmet');
+
+        const refused = await bankService.deposit(alt, bankerId, helmet.instanceId);
+
+        expect(refused.reason).toBe('bank_full');
+        expect(await countItem(itemService, alt, 'iron_helmet')).toBe(1);
+    });
+
+    it('leaves the item in the bank when the inventory is full', async () => {
+        const sword = await giveItem(itemService, characterId, 'iron_sword');
+        await bankService.deposit(characterId, bankerId, sword.instanceId);
+        await fillInventory(characterId, 'iron_helmet');
+
+        const refused = await bankService.withdraw(characterId, bankerId, sword.instanceId);
+
+        expect(refused.reason).toBe('inventory_full');
+        const opened = await bankService.openBank(characterId, bankerId);
+        expect(opened.bank!.items.map(inv => inv.instanceId)).toEqual([sword.instanceId]);
+    });
+});
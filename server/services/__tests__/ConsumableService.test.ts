@@ -0,0 +1,63 @@
+import { MockDatabaseService } from '../../database/MockDatabaseService';
+import { PlayerManager } from '../../game/PlayerManager';
+import { ItemService } from '../ItemService';
+import { StatsService } from '../StatsService';
+import { ConsumableService } from '../ConsumableService';
+import { countItem, createCharacter, giveItem } from './fixtures';
+
+describe('ConsumableService.useItem', () => {
+    let db: MockDatabaseService;
+    let itemService: ItemService;
+    let consumableService: ConsumableService;
+    let characterId: number;
+
+    beforeEach(async () => {
+        db = new MockDatabaseService();
+        itemService = new ItemService(db);
+        const statsService = new StatsService(db, itemService);
+        consumableService = new ConsumableService(db, itemService, statsService, new PlayerManager());
+        characterId = await createCharacter(db, 'Drinker', { current_hp: 20 });
+    });
+
+    it('lets only one of two simultaneous uses through the cooldown', async () => {
+        const potion = await giveItem(itemService, characterId, 'health_potion', 5);
+
+        const results = await Promise.all([
+            consumableService.useItem(characterId, potion.instanceId),
+            consumableService.useItem(characterId, potion.instanceId)
+        ]);
+
+        expect(results.filter(result => result.success)).toHaveLength(1);
+        expect(results.filter(result => result.reason === 'on_cooldown')).toHaveLength(1);
+        expect(await countItem(itemService, characterId, 'health_potion')).toBe(4);
+        expect((await db.getCharacterById(characterId))!.current_hp).toBe(70);
+    });
+
+    it('adds the restore to damage taken while the item was consumed', async () => {
+        const potion = await giveItem(itemService, characterId, 'health_potion', 1);
+        const remove = itemService.removeItemFromInventory.bind(itemService);
+        jest.spyOn(itemService, 'removeItemFromInventory').mockImplementation(async (...args) => {
+            const removed = await remove(...args);
+            await db.updateCharacterStats(characterId, { current_hp: 5 });
+            return removed;
+        });
+
+        const result = await consumableService.useItem(characterId, potion.instanceId);
+
+        expect(result.success).toBe(true);
+        expect((await db.getCharacterById(characterId))!.current_hp).toBe(55);
+    });
+
+    it('hands the cooldown back when the item would do nothing', async () => {
+        const potion = await giveItem(itemService, characterId, 'health_potion', 2);
+        await db.updateCharacterStats(characterId, { current_hp: 10000 });
+
+        const wasted = await consumableService.useItem(characterId, potion.instanceId);
+        expect(wasted.reason).toBe('no_effect');
+        expect(consumableService.getCooldowns(characterId)).toEqual({});
+
+        await db.updateCharacterStats(characterId, { current_hp: 20 });
+        expect((await consumableService.useItem(characterId, potion.instanceId)).success).toBe(true);
+        expect(await countItem(itemService, characterId, 'health_potion')).toBe(1);
+    });
+});
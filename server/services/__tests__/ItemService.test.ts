@@ -0,0 +1,50 @@
+import { MockDatabaseService } from '../../database/MockDatabaseService';
+import { ItemService } from '../ItemService';
+import { createCharacter, giveItem } from './fixtures';
+
+describe('ItemService.mutateInventories', () => {
+    let db: MockDatabaseService;
+    let itemService: ItemService;
+    let characterA: number;
+    let characterB: number;
+
+    beforeEach(async () => {
+        db = new MockDatabaseService();
+        itemService = new ItemService(db);
+        characterA = await createCharacter(db, 'Alpha');
+        characterB = await createCharacter(db, 'Bravo');
+    });
+
+    it('moves an instance to the first inventory without a duplicate instance id', async () => {
+        // B's instance is written into A's rows first, which the unique key only allows once B's rows are gone
+        const sword = await giveItem(itemService, characterB, 'iron_sword');
+        await giveItem(itemService, characterA, 'health_potion', 5);
+
+        await itemService.mutateInventories([characterA, characterB], ([inventoryA, inventoryB]) => {
+            const item = itemService.takeInstance(inventoryB, sword.instanceId, 1)!;
+            itemService.insertInstance(inventoryA, item);
+        });
+
+        const [inventoryA, inventoryB] = await Promise.all([
+            itemService.getPlayerInventory(characterA),
+            itemService.getPlayerInventory(characterB)
+        ]);
+        expect(inventoryA.items.map(inv => inv.instanceId)).toContain(sword.instanceId);
+        expect(inventoryB.items).toHaveLength(0);
+    });
+
+    it('saves nothing when work throws', async () => {
+        const potion = await giveItem(itemService, characterA, 'health_potion', 5);
+        const { gold } = await itemService.getPlayerInventory(characterA);
+
+        await expect(itemService.mutateInventory(characterA, inventory => {
+            itemService.takeInstance(inventory, potion.instanceId, 5);
+            inventory.gold += 100;
+            throw new Error('boom');
+        })).rejects.toThrow('boom');
+
+        const inventory = await itemService.getPlayerInventory(characterA);
+        expect(inventory.items[0].quantity).toBe(5);
+        expect(inventory.gold).toBe(gold);
+    });
+});
@@ -0,0 +1,96 @@
+import { MockDatabaseService } from '../../database/MockDatabaseService';
+import { PlayerManager } from '../../game/PlayerManager';
+import { ItemService } from '../ItemService';
+import { MailService } from '../MailService';
+import { countItem, createCharacter, giveItem, setGold } from './fixtures';
+
+describe('MailService', () => {
+    let db: MockDatabaseService;
+    let itemService: ItemService;
+    let mailService: MailService;
+    let sender: number;
+    let recipient: number;
+
+    beforeEach(async () => {
+        db = new MockDatabaseService();
+        itemService = new ItemService(db);
+        mailService = new MailService(db, itemService, new PlayerManager());
+        sender = await createCharacter(db, 'Sender');
+        recipient = await createCharacter(db, 'Recipient');
+        await setGold(itemService, sender, 0);
+        await setGold(itemService, recipient, 500);
+    });
+
+    afterEach(() => mailService.stop());
+
+    async function sendCod(codAmount: number): Promise<number> {
+        const ore = await giveItem(itemService, sender, 'iron_ore', 10);
+        const sent = await mailService.sendMail(sender, {
+            recipientName: 'Recipient',
+            subject: 'Ore',
+            attachments: [{ instanceId: ore.instanceId, quantity: 10 }],
+            codAmount
+        });
+        expect(sent.success).toBe(true);
+        return sent.mailId!;
+    }
+
+    it('charges cash on delivery and mails the payment to the sender', async () => {
+        const mailId = await sendCod(200);
+
+        const claimed = await mailService.claimAttachments(recipient, mailId);
+
+        expect(claimed).toMatchObject({ success: true, gold: 300 });
+        expect(await countItem(itemService, recipient, 'iron_ore')).toBe(10);
+
+        const { mail } = await mailService.getMailbox(sender);
+        expect(mail).toHaveLength(1);
+        expect(mail[0]).toMatchObject({ senderName: 'Postmaster', gold: 200 });
+    });
+
+    it('takes nothing when the recipient cannot pay', async () => {
+        const mailId = await sendCod(800);
+
+        const claimed = await mailService.claimAttachments(recipient, mailId);
+
+        expect(claimed.reason).toBe('insufficient_gold');
+        expect((await itemService.getPlayerInventory(recipient)).gold).toBe(500);
+        expect(await countItem(itemService, recipient, 'iron_ore')).toBe(0);
+        expect((await mailService.claimAttachments(recipient, mailId)).reason).toBe('insufficient_gold');
+    });
+
+    it('keeps the claim when the payment mail fails', async () => {
+        const mailId = await sendCod(200);
+        jest.spyOn(mailService, 'sendSystemMail').mockRejectedValueOnce(new Error('database gone'));
+
+        const claimed = await mailService.claimAttachments(recipient, mailId);
+
+        expect(claimed.success).toBe(true);
+        expect(await countItem(itemService, recipient, 'iron_ore')).toBe(10);
+    });
+
+    it('refuses to attach a locked item', async () => {
+        const sword = await giveItem(itemService, sender, 'iron_sword');
+        await itemService.setItemLocked(sender, sword.instanceId, true);
+
+        const sent = await mailService.sendMail(sender, {
+            recipientName: 'Recipient',
+            subject: 'Sword',
+            attachments: [{ instanceId: sword.instanceId, quantity: 1 }]
+        });
+
+        expect(sent.reason).toBe('item_locked');
+        expect(await countItem(itemService, sender, 'iron_sword')).toBe(1);
+    });
+
+    it('keeps expired system mail until its attachments are claimed', async () => {
+        const mailId = await mailService.sendSystemMail({ recipientId: recipient, senderName: 'Marketplace', subject: 'Sold', gold: 750 });
+        const getExpiredMail = db.getExpiredMail.bind(db);
+        jest.spyOn(db, 'getExpiredMail').mockImplementation(() => getExpiredMail(new Date(Date.now() + 365 * 24 * 60 * 60 * 1000)));
+
+        await mailService['expireMail']();
+
+        expect((await db.getMail(mailId))!.status).toBe('active');
+        expect((await mailService.claimAttachments(recipient, mailId)).gold).toBe(1250);
+    });
+});
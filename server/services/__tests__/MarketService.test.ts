@@ -0,0 +1,97 @@
+import { MockDatabaseService } from '../../database/MockDatabaseService';
+import { PlayerManager } from '../../game/PlayerManager';
+import { gameConfig } from '../../game/GameUtils';
+import { ItemService } from '../ItemService';
+import { MailService } from '../MailService';
+import { MarketService } from '../MarketService';
+import { countItem, createCharacter, giveItem, setGold } from './fixtures';
+
+describe('MarketService', () => {
+    let db: MockDatabaseService;
+    let itemService: ItemService;
+    let mailService: MailService;
+    let marketService: MarketService;
+    let seller: number;
+    let buyer: number;
+
+    const price = 1000;
+    const fee = () => marketService.getListingFee(price);
+
+    beforeEach(async () => {
+        db = new MockDatabaseService();
+        itemService = new ItemService(db);
+        const playerManager = new PlayerManager();
+        mailService = new MailService(db, itemService, playerManager);
+        marketService = new MarketService(db, itemService, playerManager, mailService);
+        seller = await createCharacter(db, 'Seller');
+        buyer = await createCharacter(db, 'Buyer');
+        await setGold(itemService, seller, 500);
+        await setGold(itemService, buyer, 1500);
+    });
+
+    afterEach(() => {
+        marketService.stop();
+        mailService.stop();
+    });
+
+    async function listSword(): Promise<number> {
+        const sword = await giveItem(itemService, seller, 'iron_sword');
+        const listed = await marketService.listItem(seller, sword.instanceId, 1, price, gameConfig.market.durationsHours[0]);
+        expect(listed.success).toBe(true);
+        return listed.listingId!;
+    }
+
+    it('escrows the item and charges the listing fee', async () => {
+        await listSword();
+
+        expect(await countItem(itemService, seller, 'iron_sword')).toBe(0);
+        expect((await itemService.getPlayerInventory(seller)).gold).toBe(500 - fee());
+    });
+
+    it('moves the item and gold and mails the proceeds to the seller', async () => {
+        const listingId = await listSword();
+
+        const bought = await marketService.buyListing(buyer, listingId);
+
+        expect(bought).toMatchObject({ success: true, gold: 500 });
+        expect(await countItem(itemService, buyer, 'iron_sword')).toBe(1);
+        expect((await db.getMarketListing(listingId))!.status).toBe('sold');
+
+        const { mail } = await mailService.getMailbox(seller);
+        expect(mail[0].gold).toBe(price - marketService.getSalesTax(price));
+    });
+
+    it('puts the listing back when the buyer cannot pay', async () => {
+        const listingId = await listSword();
+        await setGold(itemService, buyer, price - 1);
+
+        const bought = await marketService.buyListing(buyer, listingId);
+
+        expect(bought.reason).toBe('insufficient_gold');
+        expect((await itemService.getPlayerInventory(buyer)).gold).toBe(price - 1);
+        expect((await db.getMarketListing(listingId))!.status).toBe('active');
+    });
+
+    it('puts the listing back when the buyer has no room', async () => {
+        const listingId = await listSword();
+        const { capacity } = await itemService.getPlayerInventory(buyer);
+        for (let i = 0; i < capacity; i++) {
+            await giveItem(itemService, buyer, 'iron_helmet');
+        }
+
+        expect((await marketService.buyListing(buyer, listingId)).reason).toBe('inventory_full');
+        expect((await itemService.getPlayerInventory(buyer)).gold).toBe(1500);
+        expect((await db.getMarketListing(listingId))!.status).toBe('active');
+    });
+
+    it('returns the item but not the fee on cancel', async () => {
+        const listingId = await listSword();
+
+        const cancelled = await marketService.cancelListing(seller, listingId);
+
+        expect(cancelled.success).toBe(true);
+        expect(await countItem(itemService, seller, 'iron_sword')).toBe(1);
+        expect((await itemService.getPlayerInventory(seller)).gold).toBe(500 - fee());
+        expect((await marketService.buyListing(buyer, listingId)).reason).toBe('listing_not_found');
+    });
+});
@@ -0,0 +1,44 @@
+import { MockDatabaseService } from '../../database/MockDatabaseService';
+import { PlayerManager } from '../../game/PlayerManager';
+import { ItemService } from '../ItemService';
+import { ShopService } from '../ShopService';
+import { countItem, createCharacter, giveItem, setGold } from './fixtures';
+
+describe('ShopService.buyItem', () => {
+    let db: MockDatabaseService;
+    let itemService: ItemService;
+    let shopService: ShopService;
+    let characterId: number;
+
+    beforeEach(async () => {
+        db = new MockDatabaseService();
+        itemService = new ItemService(db);
+        shopService = new ShopService(db, itemService, new PlayerManager());
+        // Standing next to the village general store
+        characterId = await createCharacter(db, 'Buyer', { map_id: 1, x_position: 120, y_position: 90 });
+        await setGold(itemService, characterId, 10000);
+    });
+
+    it('opens a new stack when the existing one is full', async () => {
+        await giveItem(itemService, characterId, 'health_potion', 99);
+
+        const result = await shopService.buyItem(characterId, 'village_general_store', 'health_potion', 1);
+
+        expect(result.success).toBe(true);
+        const inventory = await itemService.getPlayerInventory(characterId);
+        expect(inventory.items.filter(inv => inv.itemId === 'health_potion').map(inv => inv.quantity)).toEqual([99, 1]);
+    });
+
+    it('refuses without taking gold when there is no room', async () => {
+        const { capacity } = await itemService.getPlayerInventory(characterId);
+        for (let i = 0; i < capacity; i++) {
+            await giveItem(itemService, characterId, 'iron_sword');
+        }
+
+        const result = await shopService.buyItem(characterId, 'village_general_store', 'health_potion', 1);
+
+        expect(result.reason).toBe('inventory_full');
+        expect((await itemService.getPlayerInventory(characterId)).gold).toBe(10000);
+        expect(await countItem(itemService, characterId, 'health_potion')).toBe(0);
+    });
+});
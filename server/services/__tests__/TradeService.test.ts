@@ -0,0 +1,116 @@
+import { MockDatabaseService } from '../../database/MockDatabaseService';
+import { PlayerManager, GameMessage } from '../../game/PlayerManager';
+import { ItemService } from '../ItemService';
+import { TradeService } from '../TradeService';
+import { connect, countItem, createCharacter, giveItem, setGold } from './fixtures';
+
+describe('TradeService', () => {
+    let db: MockDatabaseService;
+    let itemService: ItemService;
+    let tradeService: TradeService;
+    let alpha: number;
+    let bravo: number;
+    let alphaMessages: GameMessage[];
+    let bravoMessages: GameMessage[];
+
+    beforeEach(async () => {
+        db = new MockDatabaseService();
+        itemService = new ItemService(db);
+        const playerManager = new PlayerManager();
+        tradeService = new TradeService(db, itemService, playerManager);
+
+        alpha = await createCharacter(db, 'Alpha');
+        bravo = await createCharacter(db, 'Bravo');
+        alphaMessages = await connect(db, playerManager, alpha);
+        bravoMessages = await connect(db, playerManager, bravo);
+        await setGold(itemService, alpha, 100);
+        await setGold(itemService, bravo, 1000);
+
+        await tradeService.requestTrade(alpha, bravo);
+        await tradeService.respondToRequest(bravo, alpha, true);
+    });
+
+    async function lockAndConfirm() {
+        await tradeService.lock(alpha);
+        await tradeService.lock(bravo);
+        await tradeService.confirm(alpha);
+        return tradeService.confirm(bravo);
+    }
+
+    const cancelReason = (messages: GameMessage[]) => messages.find(message => message.type === 'trade_cancelled')?.data.reason;
+
+    it('swaps both offers in one commit', async () => {
+        const sword = await giveItem(itemService, alpha, 'iron_sword');
+        const potions = await giveItem(itemService, bravo, 'health_potion', 20);
+        await tradeService.addItem(alpha, sword.instanceId);
+        await tradeService.addItem(bravo, potions.instanceId, 15);
+        await tradeService.setGold(bravo, 400);
+
+        const result = await lockAndConfirm();
+
+        expect(result.success).toBe(true);
+        const [inventoryA, inventoryB] = await Promise.all([itemService.getPlayerInventory(alpha), itemService.getPlayerInventory(bravo)]);
+        expect(inventoryA.gold).toBe(500);
+        expect(inventoryB.gold).toBe(600);
+        expect(inventoryB.items.find(inv => inv.instanceId === sword.instanceId)).toBeDefined();
+        expect(await countItem(itemService, alpha, 'health_potion')).toBe(15);
+        expect(await countItem(itemService, bravo, 'health_potion')).toBe(5);
+        expect(await db.getTradeLogs(alpha, 10)).toHaveLength(1);
+    });
+
+    it('refuses to offer a locked item', async () => {
+        const sword = await giveItem(itemService, alpha, 'iron_sword');
+        await itemService.setItemLocked(alpha, sword.instanceId, true);
+
+        expect((await tradeService.addItem(alpha, sword.instanceId)).reason).toBe('item_locked');
+    });
+
+    it('cancels when an offered item is locked before the commit', async () => {
+        const sword = await giveItem(itemService, alpha, 'iron_sword');
+        await tradeService.addItem(alpha, sword.instanceId);
+        await tradeService.lock(alpha);
+        await tradeService.lock(bravo);
+        await tradeService.confirm(bravo);
+        await itemService.setItemLocked(alpha, sword.instanceId, true);
+
+        const result = await tradeService.confirm(alpha);
+
+        expect(result.reason).toBe('item_locked');
+        expect(await countItem(itemService, alpha, 'iron_sword')).toBe(1);
+        expect(cancelReason(bravoMessages)).toBe('commit_failed');
+    });
+
+    it('shows rolled stats and cancels when the offered item is rerolled', async () => {
+        const sword = itemService.createRolledInstance('iron_sword')!;
+        await itemService.mutateInventory(alpha, inventory => itemService.insertInstance(inventory, sword));
+        await tradeService.addItem(alpha, sword.instanceId);
+
+        const update = bravoMessages.filter(message => message.type === 'trade_updated').pop()!;
+        expect(update.data.sides[0].items[0]).toMatchObject({ rolledStats: sword.rolledStats, affixes: sword.affixes });
+
+        await tradeService.lock(alpha);
+        await tradeService.lock(bravo);
+        await tradeService.confirm(bravo);
+        await itemService.mutateInventory(alpha, inventory => {
+            inventory.items.find(inv => inv.instanceId === sword.instanceId)!.rolledStats = { attack: 999 };
+        });
+
+        const result = await tradeService.confirm(alpha);
+
+        expect(result.reason).toBe('offer_changed');
+        expect(await countItem(itemService, bravo, 'iron_sword')).toBe(0);
+    });
+
+    it('cancels the trade for both players when the commit throws', async () => {
+        const sword = await giveItem(itemService, alpha, 'iron_sword');
+        await tradeService.addItem(alpha, sword.instanceId);
+        jest.spyOn(itemService, 'mutateInventories').mockRejectedValueOnce(new Error('deadlock'));
+
+        const result = await lockAndConfirm();
+
+        expect(result.reason).toBe('commit_failed');
+        expect(cancelReason(alphaMessages)).toBe('commit_failed');
+        expect(cancelReason(bravoMessages)).toBe('commit_failed');
+        expect(tradeService.isTrading(alpha)).toBe(false);
+    });
+});
@@ -0,0 +1,57 @@
+import { WebSocket } from 'ws';
+import { MockDatabaseService } from '../../database/MockDatabaseService';
+import { Character } from '../../database/IDatabaseService';
+import { PlayerManager, GameMessage } from '../../game/PlayerManager';
+import { ItemService, InventoryItem } from '../ItemService';
+
+export async function createCharacter(db: MockDatabaseService, name: string, overrides: Partial<Character> = {}): Promise<number> {
+    return db.createCharacter({
+        user_id: 1,
+        name,
+        class: 'Warrior',
+        level: 10,
+        experience: 0,
+        hp: 150,
+        mp: 50,
+        current_hp: 150,
+        current_mp: 50,
+        strength: 15,
+        dexterity: 10,
+        intelligence: 8,
+        x_position: 100,
+        y_position: 100,
+        map_id: 1,
+        crafting_level: 1,
+        crafting_experience: 0,
+        ...overrides
+    });
+}
+
+export async function setGold(itemService: ItemService, characterId: number, gold: number): Promise<void> {
+    await itemService.mutateInventory(characterId, inventory => {
+        inventory.gold = gold;
+    });
+}
+
+// Adds the item and returns the instance it landed in
+export async function giveItem(itemService: ItemService, characterId: number, itemId: string, quantity: number = 1): Promise<InventoryItem> {
+    if (!await itemService.addItemToInventory(characterId, itemId, quantity)) {
+        throw new Error(`Could not give ${quantity}x ${itemId} to character ${characterId}`);
+    }
+    const inventory = await itemService.getPlayerInventory(characterId);
+    return inventory.items.filter(inv => inv.itemId === itemId).pop()!;
+}
+
+export async function countItem(itemService: ItemService, characterId: number, itemId: string): Promise<number> {
+    return itemService.countItems(await itemService.getPlayerInventory(characterId), itemId);
+}
+
+// Puts the character online and returns the messages pushed to them
+export async function connect(db: MockDatabaseService, playerManager: PlayerManager, characterId: number): Promise<GameMessage[]> {
+    const messages: GameMessage[] = [];
+    const ws = { readyState: WebSocket.OPEN, send: (data: string) => messages.push(JSON.parse(data)) } as unknown as WebSocket;
+    const character = (await db.getCharacterById(characterId))!;
+
+    playerManager.addSession({ ws, userId: character.user_id, token: 'test', characterId, character, lastActivity: new Date() });
+    return messages;
+}
@@ -0,0 +1,39 @@
+/**
+ * Serializes async work per key. Several keys are always acquired in sorted
+ * order so two callers locking overlapping keys can't deadlock.
+ */
+export class KeyedMutex<K extends string | number> {
+    private tails: Map<K, Promise<void>> = new Map();
+
+    public async runExclusive<T>(keys: K[], work: () => Promise<T>): Promise<T> {
+        const sortedKeys = Array.from(new Set(keys)).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+        const releases: (() => void)[] = [];
+
+        try {
+            for (const key of sortedKeys) {
+                releases.push(await this.acquire(key));
+            }
+            return await work();
+        } finally {
+            releases.reverse().forEach(release => release());
+        }
+    }
+
+    private async acquire(key: K): Promise<() => void> {
+        const previous = this.tails.get(key) || Promise.resolve();
+
+        let release!: () => void;
+        const held = new Promise<void>(resolve => { release = resolve; });
+        const tail = previous.then(() => held);
+        this.tails.set(key, tail);
+
+        await previous;
+
+        return () => {
+            release();
+            if (this.tails.get(key) === tail) {
+                this.tails.delete(key);
+            }
+        };
+    }
+}